@@ -0,0 +1,287 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { nanoid } from 'nanoid';
+import { Certificate, CustomFont, Recipient, Signer, Template } from '../src/types';
+import { defaultTemplates } from '../src/store/defaultTemplates';
+import { parseWorkbook } from '../src/utils/excelParser';
+import { buildRenderModel, getTemplateFields } from '../src/utils/certificateRenderer';
+import { renderModelToPDF } from '../src/utils/pdfRenderer';
+import { findEmbeddedFont, getPrimaryFontFamily, isSystemFontStack } from '../src/utils/certificateFonts';
+import { calculateExpiresAt } from '../src/utils/certificateHelpers';
+import { createIssuanceJob, toDatabaseCertificate } from '../src/utils/issuanceQueue';
+import { fromDatabaseFont, fromDatabaseSigner, fromDatabaseTemplate, toDatabaseRecipient } from '../src/utils/dataSync';
+import { createNodeAssets } from './nodeAssets';
+import { SupabaseTarget } from './supabaseTarget';
+
+/**
+ * certs issue --template <id|file.json> --recipients <file.xlsx|.csv> --out <dir> [options]
+ *
+ * Issues certificates without a browser: recipients are read with the same parser as
+ * the bulk upload, PDFs are drawn by the same vector renderer as the app, and with
+ * --push every certificate goes through the app's issuance steps (record, sign, upload,
+ * link) in Supabase. Issuers' certificates need review, so they are only recorded as
+ * drafts; the app signs and uploads them once a reviewer approves them. A JSON summary
+ * is printed to stdout (or --report); progress goes to stderr. Exits with status 1 when any certificate failed.
+ */
+
+const USAGE = `Usage: certs issue --template <id|file.json> --recipients <file.xlsx|.csv> --out <dir> [options]
+
+Options:
+  --base-url <url>       Origin of the verification site (env CERTS_BASE_URL)
+  --expires-on <date>    Expiration date (yyyy-mm-dd); defaults to the template's validity
+  --push                 Record, sign and upload each certificate in Supabase
+                         (only recorded when it needs review)
+                         (env SUPABASE_URL, SUPABASE_ANON_KEY, CERTS_EMAIL, CERTS_PASSWORD)
+  --signers <file.json>  Signers for signature fields; with --push they come from Supabase
+  --fonts <file.json>    Font registry entries for text in uploaded fonts; with --push they come from Supabase
+  --report <file>        Write the JSON summary to a file instead of stdout
+  --name-field, --email-field, --course-field, --date-field <column>
+                         Spreadsheet columns, as in the bulk upload (default name, email, course, date)`;
+
+// The CLI runs from dist-cli/, one level below the repository root
+const ROOT_DIR = fileURLToPath(new URL('..', import.meta.url));
+
+interface IssuedCertificate {
+  code: string;
+  recipient: string;
+  email: string | null;
+  status: 'issued' | 'failed';
+  file?: string;
+  verificationUrl: string;
+  pdfUrl?: string;
+  signed: boolean;
+  awaitingReview?: boolean; // Recorded as a draft; signed and uploaded by the app once approved
+  error?: string;
+}
+
+interface IssueSummary {
+  template: string;
+  recipientsFile: string;
+  outDir: string;
+  pushed: boolean;
+  total: number;
+  issued: number;
+  awaitingReview: number;
+  failed: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  certificates: IssuedCertificate[];
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const slugify = (name: string) => name.replace(/[^a-z0-9]/gi, '-').toLowerCase();
+
+const loadTemplate = async (templateArg: string, target: SupabaseTarget | null): Promise<Template> => {
+  if (templateArg.endsWith('.json')) {
+    return JSON.parse(await readFile(templateArg, 'utf8')) as Template;
+  }
+
+  const row = target ? await target.getTemplate(templateArg) : null;
+  const template = row ? fromDatabaseTemplate(row) : defaultTemplates.find(t => t.id === templateArg);
+  if (!template) {
+    throw new Error(`Template "${templateArg}" not found${target ? ' in Supabase or' : ' among'} the default templates`);
+  }
+  return template;
+};
+
+const loadSigners = async (signersArg: string | undefined, target: SupabaseTarget | null): Promise<Signer[]> => {
+  if (signersArg) return JSON.parse(await readFile(signersArg, 'utf8')) as Signer[];
+  return target ? (await target.getSigners()).map(fromDatabaseSigner) : [];
+};
+
+const loadFonts = async (fontsArg: string | undefined, target: SupabaseTarget | null): Promise<CustomFont[]> => {
+  if (fontsArg) return JSON.parse(await readFile(fontsArg, 'utf8')) as CustomFont[];
+  return target ? (await target.getFonts()).map(fromDatabaseFont) : [];
+};
+
+const connect = async (): Promise<SupabaseTarget> => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+  const email = process.env.CERTS_EMAIL;
+  const password = process.env.CERTS_PASSWORD;
+  if (!url || !key || !email || !password) {
+    throw new Error('--push needs SUPABASE_URL, SUPABASE_ANON_KEY, CERTS_EMAIL and CERTS_PASSWORD');
+  }
+
+  const target = new SupabaseTarget(url, key);
+  await target.signIn(email, password);
+  if (target.role !== 'admin' && target.role !== 'issuer') {
+    throw new Error(`${email} is not an admin or issuer and cannot issue certificates`);
+  }
+  return target;
+};
+
+const issue = async (args: string[]): Promise<{ summary: IssueSummary; reportFile?: string }> => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      template: { type: 'string' },
+      recipients: { type: 'string' },
+      out: { type: 'string' },
+      'base-url': { type: 'string' },
+      'expires-on': { type: 'string' },
+      push: { type: 'boolean', default: false },
+      signers: { type: 'string' },
+      fonts: { type: 'string' },
+      report: { type: 'string' },
+      'name-field': { type: 'string' },
+      'email-field': { type: 'string' },
+      'course-field': { type: 'string' },
+      'date-field': { type: 'string' }
+    }
+  });
+
+  const baseUrl = (values['base-url'] || process.env.CERTS_BASE_URL || '').replace(/\/+$/, '');
+  if (!values.template || !values.recipients || !values.out || !baseUrl) {
+    throw new Error(`--template, --recipients, --out and --base-url are required\n\n${USAGE}`);
+  }
+
+  const startedAt = new Date();
+  const target = values.push ? await connect() : null;
+  const requiresReview = target?.role === 'issuer';
+  const template = await loadTemplate(values.template, target);
+  const signers = await loadSigners(values.signers, target);
+  const unsigned = getTemplateFields(template).filter(field =>
+    field.type === 'signature' && !signers.some(signer => signer.id === field.signerId)
+  );
+  if (unsigned.length > 0) {
+    log(`Warning: no signer for signature field(s) ${unsigned.map(field => field.name).join(', ')}; they are left out`);
+  }
+  const fonts = await loadFonts(values.fonts, target);
+  // Every certificate would fail on it, so stop before issuing any
+  const missingFonts = new Set(getTemplateFields(template)
+    .filter(field => field.fontFamily && !isSystemFontStack(field.fontFamily) && !findEmbeddedFont(field.fontFamily, 'normal', fonts))
+    .map(field => getPrimaryFontFamily(field.fontFamily!)));
+  if (missingFonts.size > 0) {
+    throw new Error(`The template uses fonts that are not installed: ${[...missingFonts].join(', ')}; pass them with --fonts`);
+  }
+  const assets = createNodeAssets(ROOT_DIR);
+
+  const recipients: Recipient[] = parseWorkbook(await readFile(values.recipients), {
+    nameField: values['name-field'],
+    emailField: values['email-field'],
+    courseField: values['course-field'],
+    dateField: values['date-field']
+  })
+    .filter(recipient => recipient.name)
+    .map(recipient => ({ ...recipient, id: nanoid() }));
+
+  const outDir = resolve(values.out);
+  await mkdir(outDir, { recursive: true });
+  if (target) await target.upsertRecipients(recipients.map(toDatabaseRecipient));
+
+  log(`Issuing ${recipients.length} certificates from "${template.name}"${target ? ' (pushing to Supabase)' : ''}`);
+
+  const results: IssuedCertificate[] = [];
+  for (const [index, recipient] of recipients.entries()) {
+    const id = nanoid();
+    const issueDate = new Date().toISOString();
+    const verificationUrl = `${baseUrl}/verify/${id}`;
+    const certificate: Certificate = {
+      id,
+      recipientId: recipient.id,
+      templateId: template.id,
+      templateVersion: template.version,
+      qrCodeUrl: verificationUrl,
+      issueDate,
+      verificationUrl,
+      status: requiresReview ? 'draft' : 'published',
+      expiresAt: values['expires-on']
+        ? new Date(`${values['expires-on']}T23:59:59`).toISOString()
+        : calculateExpiresAt(issueDate, template.validityMonths)
+    };
+    const result: IssuedCertificate = {
+      code: id,
+      recipient: recipient.name,
+      email: recipient.email || null,
+      status: 'issued',
+      verificationUrl,
+      signed: false
+    };
+
+    try {
+      // Same steps as the in-app issuance queue: record, sign, render, upload, link
+      if (target) {
+        const job = createIssuanceJob(id, recipient.id, template.id, requiresReview);
+        await target.insertCertificate(toDatabaseCertificate(job, certificate, recipient, template));
+        if (requiresReview) {
+          // Nothing is signed, rendered or uploaded before a reviewer approves the draft
+          result.awaitingReview = true;
+          results.push(result);
+          log(`[${index + 1}/${recipients.length}] draft  ${recipient.name}: awaiting review`);
+          continue;
+        }
+        const signed = await target.signCertificate(id);
+        certificate.qrCodeUrl = signed.qr_code_data;
+        certificate.signature = { payload: signed.payload, value: signed.signature, keyId: signed.key_id };
+        result.signed = true;
+      }
+
+      const pdf = await renderModelToPDF(buildRenderModel(template, recipient, certificate, signers, fonts), {
+        signature: certificate.signature,
+        title: `Certificado - ${recipient.name}`,
+        assets
+      });
+      const file = join(outDir, `${slugify(recipient.name)}-${id}.pdf`);
+      await writeFile(file, Buffer.from(await pdf.arrayBuffer()));
+      result.file = file;
+
+      if (target) {
+        result.pdfUrl = await target.uploadCertificatePDF(id, pdf);
+        await target.linkCertificatePDF(id);
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    results.push(result);
+    log(`[${index + 1}/${recipients.length}] ${result.status === 'issued' ? 'ok    ' : 'FAILED'} ${recipient.name}${result.error ? `: ${result.error}` : ''}`);
+  }
+
+  const finishedAt = new Date();
+  const summary: IssueSummary = {
+    template: template.id,
+    recipientsFile: basename(values.recipients),
+    outDir,
+    pushed: !!target,
+    total: results.length,
+    issued: results.filter(r => r.status === 'issued' && !r.awaitingReview).length,
+    awaitingReview: results.filter(r => r.awaitingReview).length,
+    failed: results.filter(r => r.status === 'failed').length,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    certificates: results
+  };
+  return { summary, reportFile: values.report };
+};
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'issue') {
+    log(USAGE);
+    process.exit(command ? 2 : 0);
+  }
+
+  try {
+    const { summary, reportFile } = await issue(args);
+    const report = JSON.stringify(summary, null, 2);
+    if (reportFile) {
+      await writeFile(reportFile, `${report}\n`);
+      log(`Summary written to ${reportFile}`);
+    } else {
+      process.stdout.write(`${report}\n`);
+    }
+    process.exit(summary.failed > 0 ? 1 : 0);
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error));
+    process.exit(2);
+  }
+};
+
+main();
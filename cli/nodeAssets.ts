@@ -0,0 +1,77 @@
+import { readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import type { PdfAssets, PdfImage } from '../src/utils/pdfRenderer';
+
+/**
+ * PDF assets read from the repository instead of fetched by a browser: template
+ * images under `public/` (the same paths the app serves) and the bundled brand fonts.
+ * Images and registered fonts stored in Supabase are downloaded.
+ */
+
+const IMAGE_FORMATS: Record<string, PdfImage['format']> = {
+  '.png': 'PNG',
+  '.jpg': 'JPEG',
+  '.jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG'
+};
+
+const toPdfImage = (bytes: Buffer, format: PdfImage['format'] | undefined, source: string): PdfImage => {
+  if (!format) {
+    throw new Error(`Unsupported template image ${source}: the CLI can only embed PNG and JPEG`);
+  }
+  const mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+  return { data: `data:${mimeType};base64,${bytes.toString('base64')}`, format };
+};
+
+export const createNodeAssets = (rootDir: string): PdfAssets => {
+  const imageCache = new Map<string, Promise<PdfImage>>();
+  const fontCache = new Map<string, Promise<string>>();
+
+  const loadImage = async (url: string): Promise<PdfImage> => {
+    // Uploaded templates are stored as data URLs
+    const dataUrl = url.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+    if (dataUrl) {
+      const bytes = dataUrl[2] ? Buffer.from(dataUrl[3], 'base64') : Buffer.from(decodeURIComponent(dataUrl[3]));
+      return toPdfImage(bytes, IMAGE_FORMATS[dataUrl[1]], 'data URL');
+    }
+
+    if (/^https?:\/\//.test(url)) {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load template image ${url}: ${response.status}`);
+      const contentType = response.headers.get('content-type')?.split(';')[0] || '';
+      return toPdfImage(
+        Buffer.from(await response.arrayBuffer()),
+        IMAGE_FORMATS[contentType] || IMAGE_FORMATS[extname(new URL(url).pathname).toLowerCase()],
+        url
+      );
+    }
+
+    const path = join(rootDir, 'public', decodeURIComponent(url.split('?')[0]));
+    return toPdfImage(await readFile(path), IMAGE_FORMATS[extname(path).toLowerCase()], path);
+  };
+
+  return {
+    loadImage: url => {
+      let image = imageCache.get(url);
+      if (!image) {
+        image = loadImage(url);
+        imageCache.set(url, image);
+      }
+      return image;
+    },
+    loadFont: font => {
+      let data = fontCache.get(font.url);
+      if (!data) {
+        data = font.file
+          ? readFile(join(rootDir, 'src/assets/fonts', font.file)).then(bytes => bytes.toString('base64'))
+          : fetch(font.url).then(async response => {
+              if (!response.ok) throw new Error(`Failed to load font ${font.family} (${font.style}): ${response.status}`);
+              return Buffer.from(await response.arrayBuffer()).toString('base64');
+            });
+        fontCache.set(font.url, data);
+      }
+      return data;
+    }
+  };
+};
@@ -0,0 +1,134 @@
+import type {
+  DatabaseCertificate,
+  DatabaseFont,
+  DatabaseRecipient,
+  DatabaseSigner,
+  DatabaseTemplate,
+  SignCertificateResponse
+} from '../src/lib/supabase';
+
+const BUCKET_NAME = 'certificates';
+
+/**
+ * Supabase as seen from the CLI: the same REST, Storage and Edge Function calls the
+ * app makes, authenticated as a staff user so row level security and the signing
+ * role checks apply exactly as they do in the browser. Point SUPABASE_URL at a local
+ * stack (`supabase start`) to issue against a stand-in instead of production.
+ */
+export class SupabaseTarget {
+  private url: string;
+  private key: string;
+  private accessToken: string | null = null;
+  role: string | null = null;
+
+  constructor(url: string, key: string) {
+    this.url = url.replace(/\/+$/, '');
+    this.key = key;
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      'apikey': this.key,
+      'Authorization': `Bearer ${this.accessToken || this.key}`
+    };
+  }
+
+  private async request(method: string, endpoint: string, body?: unknown, prefer = 'return=representation') {
+    const response = await fetch(`${this.url}/rest/v1/${endpoint}`, {
+      method,
+      headers: { ...this.headers, 'Content-Type': 'application/json', 'Prefer': prefer },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      throw new Error(`Supabase error: ${await response.text()}`);
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  async signIn(email: string, password: string): Promise<void> {
+    const response = await fetch(`${this.url}/auth/v1/token?grant_type=password`, {
+      method: 'POST',
+      headers: { 'apikey': this.key, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sign in failed: ${await response.text()}`);
+    }
+    const session = await response.json();
+    this.accessToken = session.access_token;
+    this.role = session.user?.app_metadata?.role ?? null;
+  }
+
+  async getTemplate(id: string): Promise<DatabaseTemplate | null> {
+    const data = await this.request('GET', `templates?id=eq.${encodeURIComponent(id)}&deleted_at=is.null&select=*`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async getSigners(): Promise<DatabaseSigner[]> {
+    const data = await this.request('GET', 'signers?select=*');
+    return data || [];
+  }
+
+  async getFonts(): Promise<DatabaseFont[]> {
+    const data = await this.request('GET', 'fonts?select=*');
+    return data || [];
+  }
+
+  async upsertRecipients(recipients: DatabaseRecipient[]) {
+    return this.request('POST', 'recipients', recipients, 'resolution=merge-duplicates,return=minimal');
+  }
+
+  /**
+   * Inserting a code that already exists is a no-op, so a rerun never duplicates a row.
+   */
+  async insertCertificate(certificate: DatabaseCertificate) {
+    return this.request(
+      'POST',
+      'certificates?on_conflict=certificate_code',
+      certificate,
+      'resolution=ignore-duplicates,return=minimal'
+    );
+  }
+
+  async signCertificate(certificateCode: string): Promise<SignCertificateResponse> {
+    const response = await fetch(`${this.url}/functions/v1/sign-certificate`, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ certificate_code: certificateCode })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Signing failed: ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  async uploadCertificatePDF(certificateCode: string, pdf: Blob): Promise<string> {
+    const filePath = `${certificateCode}.pdf`;
+    const response = await fetch(`${this.url}/storage/v1/object/${BUCKET_NAME}/${filePath}`, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/pdf', 'x-upsert': 'true' },
+      body: pdf
+    });
+
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${await response.text()}`);
+    }
+    return `${this.url}/storage/v1/object/public/${BUCKET_NAME}/${filePath}`;
+  }
+
+  async linkCertificatePDF(certificateCode: string) {
+    const response = await fetch(`${this.url}/functions/v1/link-certificate-pdf`, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ certificate_code: certificateCode })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Linking the PDF failed: ${await response.text()}`);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from './store/authStore';
+import { useCertificateStore } from './store/certificateStore';
 import ProtectedRoute from './components/ProtectedRoute';
 import LoginModal from './components/LoginModal';
 import PublicIndex from './pages/PublicIndex';
@@ -17,76 +18,110 @@ import SourceCodeManager from './pages/SourceCodeManager';
 import LinkedInIntegration from './pages/LinkedInIntegration';
 import EmailNotifications from './pages/EmailNotifications';
 import Certificates from './pages/Certificates';
+import ReviewQueue from './pages/ReviewQueue';
 import Layout from './components/Layout';
+import { canEditData, getHomeRoute, hasRole, ROUTE_PERMISSIONS, STAFF_ROLES } from './utils/permissions';
 
 function AppContent() {
-  const { isAuthenticated, user } = useAuthStore();
+  const { isAuthenticated, user, checkAuth } = useAuthStore();
+  const hydrateFromDatabase = useCertificateStore(state => state.hydrateFromDatabase);
+  const setAccess = useCertificateStore(state => state.setAccess);
+  const processIssuanceQueue = useCertificateStore(state => state.processIssuanceQueue);
   const location = useLocation();
+  const isStaff = isAuthenticated && hasRole(user, STAFF_ROLES);
+  const canWrite = isAuthenticated && canEditData(user);
+
+  // Validate (and refresh if needed) the persisted Supabase session on startup
+  React.useEffect(() => {
+    checkAuth();
+  }, [checkAuth]);
+
+  // The local store is only a cache: reload it from Supabase whenever a staff member signs in,
+  // and resume any certificate issuance interrupted by a reload. Only roles that can write queue changes
+  React.useEffect(() => {
+    setAccess({ userId: isAuthenticated ? user?.id || null : null, canWrite });
+    if (isStaff) {
+      hydrateFromDatabase();
+      processIssuanceQueue();
+    }
+  }, [isStaff, canWrite, isAuthenticated, user?.id, setAccess, hydrateFromDatabase, processIssuanceQueue]);
   
   return (
     <>
       <Routes>
         {/* Public index route */}
         <Route path="/" element={
-          !isAuthenticated ? <PublicIndex /> : <Navigate to="/dashboard" replace />
+          !isAuthenticated ? <PublicIndex /> : <Navigate to={getHomeRoute(user)} replace />
         } />
         
         {/* Public verification routes */}
         <Route path="/verify" element={<VerifyCertificate />} />
         <Route path="/verify/:certificateId" element={<VerifyCertificate />} />
         <Route path="/student-verification" element={<StudentVerification />} />
+
+        {/* Student portal */}
+        <Route path="/student" element={
+          <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/student']}>
+            <StudentDashboard />
+          </ProtectedRoute>
+        } />
         
         {/* Protected routes with Layout */}
         <Route path="/dashboard" element={
-          <ProtectedRoute>
+          <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard']}>
             <Layout />
           </ProtectedRoute>
         }>
           <Route index element={<Dashboard />} />
           
-          {/* Admin routes */}
+          {/* Staff routes, guarded per role */}
           <Route path="create" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/create']}>
               <CreateCertificate />
             </ProtectedRoute>
           } />
           <Route path="certificates" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/certificates']}>
               <Certificates />
             </ProtectedRoute>
           } />
+          <Route path="review" element={
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/review']}>
+              <ReviewQueue />
+            </ProtectedRoute>
+          } />
           <Route path="templates" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/templates']}>
               <TemplateManager />
             </ProtectedRoute>
           } />
           <Route path="recipients" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/recipients']}>
               <RecipientManager />
             </ProtectedRoute>
           } />
           <Route path="export" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/export']}>
               <ExportSite />
             </ProtectedRoute>
           } />
           <Route path="linkedin" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/linkedin']}>
               <LinkedInIntegration />
             </ProtectedRoute>
           } />
           <Route path="notifications" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/notifications']}>
               <EmailNotifications />
             </ProtectedRoute>
           } />
           <Route path="docs" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/docs']}>
               <Documentation />
             </ProtectedRoute>
           } />
           <Route path="source-code" element={
-            <ProtectedRoute requiredRole="admin">
+            <ProtectedRoute requiredRole={ROUTE_PERMISSIONS['/dashboard/source-code']}>
               <SourceCodeManager />
             </ProtectedRoute>
           } />
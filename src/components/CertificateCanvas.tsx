@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import type {
+  CertificateRenderModel,
+  RenderedBarcodeField,
+  RenderedField,
+  RenderedPage,
+  RenderedTableField,
+  RenderedTextField
+} from '../utils/certificateRenderer';
+import { createCanvasMeasurer, layoutText } from '../utils/textLayout';
+import { BARCODE_PADDING, encodeBarcode, getBarcodePath } from '../utils/barcode';
+import { layoutTable, TABLE_RULE_COLOR } from '../utils/tableLayout';
+import { loadModelFonts } from '../utils/certificateFonts';
+
+interface CertificateCanvasProps {
+  model: CertificateRenderModel;
+  page?: number; // Draw only this page; every page, stacked, by default
+  scaleToFit?: boolean; // Scale down to the parent's width instead of drawing at native size
+}
+
+const PAGE_GAP = 24; // px between stacked pages
+
+const ALIGN_OFFSET = { left: '0%', center: '-50%', right: '-100%' };
+
+const renderTextField = (field: RenderedTextField) => {
+  // Lines are broken by the shared layout, not by CSS, so exports wrap identically
+  const layout = layoutText(field, createCanvasMeasurer(field));
+
+  return (
+    <div
+      key={field.id}
+      style={{
+        position: 'absolute',
+        left: `${field.x}%`,
+        top: `${field.y}%`,
+        transform: `translate(${ALIGN_OFFSET[field.align]}, -50%)`,
+        zIndex: 10,
+        width: 'max-content',
+        textAlign: field.align,
+        fontFamily: field.fontFamily,
+        fontSize: `${layout.fontSize}px`,
+        lineHeight: `${layout.lineHeight}px`,
+        letterSpacing: `${field.letterSpacing}px`,
+        color: field.color,
+        fontWeight: field.fontWeight,
+        fontStyle: field.fontStyle,
+        textShadow: '2px 2px 4px rgba(255,255,255,0.8)',
+        whiteSpace: 'pre'
+      }}
+    >
+      {layout.lines.map((line, index) => (
+        <div key={index}>{line.text}</div>
+      ))}
+    </div>
+  );
+};
+
+const renderBarcodeField = (field: RenderedBarcodeField, position: React.CSSProperties) => {
+  if (!field.value) return null;
+  const shape = encodeBarcode(field.format, field.value);
+
+  return (
+    <div
+      key={field.id}
+      style={{ ...position, backgroundColor: '#fff', padding: `${BARCODE_PADDING}px`, borderRadius: '4px', lineHeight: 0 }}
+    >
+      <svg
+        width={field.width}
+        height={field.height}
+        viewBox={`0 0 ${shape.width} ${shape.height}`}
+        preserveAspectRatio="none"
+        shapeRendering="crispEdges"
+      >
+        <path d={getBarcodePath(shape)} fill="#000000" fillRule="evenodd" />
+      </svg>
+    </div>
+  );
+};
+
+const renderTableField = (field: RenderedTableField) => {
+  const layout = layoutTable(field, createCanvasMeasurer);
+
+  return (
+    <div
+      key={field.id}
+      style={{ position: 'absolute', left: `${field.x}%`, top: `${field.y}%`, width: `${field.width}px`, height: `${layout.height}px`, zIndex: 10 }}
+    >
+      {layout.rules.map(rule => (
+        <div
+          key={rule.top}
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            top: `${rule.top}px`,
+            height: rule.header ? '2px' : '1px',
+            backgroundColor: rule.header ? field.color : TABLE_RULE_COLOR,
+            transform: 'translateY(-50%)'
+          }}
+        />
+      ))}
+      {layout.cells.map((cell, index) => (
+        <div
+          key={index}
+          style={{
+            position: 'absolute',
+            left: `${cell.left}px`,
+            top: `${cell.top}px`,
+            lineHeight: `${field.rowHeight}px`,
+            fontFamily: cell.field.fontFamily,
+            fontSize: `${cell.field.fontSize}px`,
+            fontWeight: cell.field.fontWeight,
+            color: cell.field.color,
+            whiteSpace: 'pre'
+          }}
+        >
+          {cell.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const renderField = (field: RenderedField) => {
+  if (field.type === 'text') return renderTextField(field);
+  if (field.type === 'table') return renderTableField(field);
+
+  const position: React.CSSProperties = {
+    position: 'absolute',
+    left: `${field.x}%`,
+    top: `${field.y}%`,
+    transform: 'translate(-50%, -50%)',
+    zIndex: 10
+  };
+
+  if (field.type === 'image') {
+    return (
+      <img
+        key={field.id}
+        src={field.url}
+        alt=""
+        crossOrigin="anonymous"
+        style={{ ...position, width: `${field.width}px`, height: `${field.height}px`, objectFit: 'contain' }}
+      />
+    );
+  }
+
+  if (field.type === 'barcode') return renderBarcodeField(field, position);
+
+  return (
+    <div
+      key={field.id}
+      style={{ ...position, backgroundColor: '#fff', padding: '5px', borderRadius: '4px', lineHeight: 0 }}
+    >
+      <QRCodeSVG
+        value={field.value}
+        size={field.size}
+        bgColor="#ffffff"
+        fgColor="#000000"
+        level={field.errorCorrection}
+        includeMargin={false}
+      />
+    </div>
+  );
+};
+
+/**
+ * Draws a certificate render model. The preview, the verification page and every
+ * export (offscreen, via renderModelToCanvas) go through this component.
+ */
+const CertificateCanvas: React.FC<CertificateCanvasProps> = ({ model, page, scaleToFit = false }) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+  const [, setFontsLoaded] = useState(0);
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  // Text is measured as it renders; render again once web fonts arrive
+  useEffect(() => {
+    const onFontsLoaded = () => setFontsLoaded(count => count + 1);
+    document.fonts?.addEventListener('loadingdone', onFontsLoaded);
+    return () => document.fonts?.removeEventListener('loadingdone', onFontsLoaded);
+  }, []);
+
+  // A font that can't be loaded is reported on the certificate rather than replaced
+  useEffect(() => {
+    let cancelled = false;
+    loadModelFonts(model).then(
+      () => {
+        if (!cancelled) setFontError(null);
+      },
+      error => {
+        if (!cancelled) setFontError(error instanceof Error ? error.message : String(error));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!scaleToFit || !wrapper) return;
+
+    const observer = new ResizeObserver(([entry]) => setScale(entry.contentRect.width / model.width));
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, [scaleToFit, model.width]);
+
+  const pages = page === undefined ? model.pages : model.pages.slice(page, page + 1);
+  const height = pages.length * model.height + (pages.length - 1) * PAGE_GAP;
+
+  const renderPage = (rendered: RenderedPage, index: number) => (
+    <div
+      key={index}
+      className="certificate-preview"
+      style={{
+        position: 'relative',
+        width: `${model.width}px`,
+        height: `${model.height}px`,
+        backgroundColor: '#fff',
+        overflow: 'hidden',
+        ...(index > 0 && { marginTop: `${PAGE_GAP}px` })
+      }}
+    >
+      {rendered.backgroundUrl && (
+        <img
+          src={rendered.backgroundUrl}
+          alt="Certificate template"
+          crossOrigin="anonymous"
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover', zIndex: 0 }}
+        />
+      )}
+      {rendered.fields.map(renderField)}
+      {fontError && index === 0 && (
+        <div
+          role="alert"
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            zIndex: 20,
+            padding: '12px 16px',
+            backgroundColor: '#fef2f2',
+            color: '#b91c1c',
+            fontSize: '20px',
+            fontFamily: 'sans-serif'
+          }}
+        >
+          {fontError}
+        </div>
+      )}
+    </div>
+  );
+
+  const certificate = pages.length === 1 && !scaleToFit ? renderPage(pages[0], 0) : (
+    <div
+      style={{
+        width: `${model.width}px`,
+        ...(scaleToFit && { transform: `scale(${scale})`, transformOrigin: 'top left' })
+      }}
+    >
+      {pages.map(renderPage)}
+    </div>
+  );
+
+  if (!scaleToFit) return certificate;
+
+  return (
+    <div
+      ref={wrapperRef}
+      style={{ position: 'relative', width: '100%', height: `${height * scale}px`, overflow: 'hidden' }}
+    >
+      {certificate}
+    </div>
+  );
+};
+
+export default CertificateCanvas;
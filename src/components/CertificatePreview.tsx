@@ -1,166 +1,48 @@
-import React, { useRef } from 'react';
-import { QRCodeSVG } from 'qrcode.react';
+import React, { useMemo } from 'react';
 import { Template, Recipient } from '../types';
 import { generateCertificatePDF, generateCertificateImage } from '../utils/certificateGenerator';
+import { buildRenderModel } from '../utils/certificateRenderer';
+import { useCertificateStore } from '../store/certificateStore';
+import CertificateCanvas from './CertificateCanvas';
 import { Download, FileImage } from 'lucide-react';
 
 interface CertificatePreviewProps {
   template: Template;
   recipient: Recipient;
-  qrCodeUrl: string;
+  verificationUrl: string;
 }
 
 const CertificatePreview: React.FC<CertificatePreviewProps> = ({
   template,
   recipient,
-  qrCodeUrl
+  verificationUrl
 }) => {
-  const certificateRef = useRef<HTMLDivElement>(null);
+  const signers = useCertificateStore(state => state.signers);
+  const fonts = useCertificateStore(state => state.fonts);
+  const model = useMemo(
+    () => buildRenderModel(template, recipient, { verificationUrl }, signers, fonts),
+    [template, recipient, verificationUrl, signers, fonts]
+  );
+  const fileName = `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`;
   
   const handleDownloadPDF = async () => {
-    if (certificateRef.current) {
-      try {
-        // Ensure the certificate is visible and rendered
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        await generateCertificatePDF(
-          certificateRef.current, 
-          `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`
-        );
-      } catch (error) {
-        console.error('Error downloading PDF:', error);
-        alert('Error al descargar el PDF. Por favor, inténtelo de nuevo.');
-      }
+    try {
+      await generateCertificatePDF(model, fileName);
+    } catch (error) {
+      console.error('Error downloading PDF:', error);
+      alert('Error al descargar el PDF. Por favor, inténtelo de nuevo.');
     }
   };
   
   const handleDownloadImage = async () => {
-    if (certificateRef.current) {
-      try {
-        await generateCertificateImage(
-          certificateRef.current, 
-          `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`
-        );
-      } catch (error) {
-        console.error('Error downloading image:', error);
-        alert('Error al descargar la imagen. Por favor, inténtelo de nuevo.');
-      }
+    try {
+      await generateCertificateImage(model, fileName);
+    } catch (error) {
+      console.error('Error downloading image:', error);
+      alert('Error al descargar la imagen. Por favor, inténtelo de nuevo.');
     }
   };
   
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('es-ES', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-  
-  const renderField = (field: Template['fields'][0]) => {
-    const style: React.CSSProperties = {
-      position: 'absolute',
-      left: `${field.x}%`,
-      top: `${field.y}%`,
-      transform: 'translate(-50%, -50%)',
-      fontFamily: field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
-      fontSize: `${field.fontSize || 16}px`,
-      color: field.color || '#000',
-      fontWeight: 'bold',
-      textAlign: 'center',
-      width: '100%',
-      maxWidth: '80%',
-      wordWrap: 'break-word'
-    };
-
-    switch (field.type) {
-      case 'text':
-        let textValue = '';
-        
-        if (field.name === 'recipient') {
-          textValue = recipient.name;
-        } else if (field.name === 'course') {
-          textValue = recipient.course || field.defaultValue || '';
-        } else if (recipient.customFields && recipient.customFields[field.name]) {
-          textValue = recipient.customFields[field.name];
-        } else {
-          textValue = field.defaultValue || '';
-        }
-        
-        return (
-          <div
-            key={field.id}
-            style={style}
-          >
-            {textValue}
-          </div>
-        );
-        
-      case 'date':
-        return (
-          <div
-            key={field.id}
-            style={style}
-          >
-            {formatDate(recipient.issueDate)}
-          </div>
-        );
-        
-      case 'qrcode':
-        return (
-          <div
-            key={field.id}
-            style={{
-              ...style,
-              width: 'auto',
-              maxWidth: 'none',
-              backgroundColor: '#fff',
-              padding: '5px',
-              borderRadius: '4px'
-            }}
-          >
-            <QRCodeSVG
-              value={qrCodeUrl}
-              size={100}
-              bgColor="#ffffff"
-              fgColor="#000000"
-              level="L"
-              includeMargin={false}
-            />
-          </div>
-        );
-        
-      default:
-        return null;
-    }
-  };
-  
-  // Dynamically adjust the container size based on the template's aspect ratio
-  // Use A4 landscape ratio by default if template dimensions are not provided
-  const aspectRatio = (template.width && template.height)
-    ? (template.width / template.height)
-    : (297 / 210);
-  const containerStyle: React.CSSProperties = {
-    position: 'relative',
-    width: '100%',
-    paddingTop: `${100 / aspectRatio}%`, // Maintain aspect ratio
-    backgroundColor: '#fff',
-    overflow: 'hidden',
-  };
-
-  // Update to use <img> for SVG templates instead of <object>
-  const renderTemplate = () => (
-    <div
-      className="absolute inset-0"
-      style={{
-        backgroundImage: `url(${template.imageUrl})`,
-        backgroundSize: 'cover',
-        backgroundPosition: 'center',
-        backgroundRepeat: 'no-repeat'
-      }}
-    />
-  );
-
   return (
     <div className="space-y-4">
       <div className="bg-white shadow-lg rounded-lg overflow-hidden">
@@ -184,14 +66,7 @@ const CertificatePreview: React.FC<CertificatePreviewProps> = ({
           </div>
         </div>
         
-        <div 
-          ref={certificateRef}
-          className="relative w-full rounded overflow-hidden certificate-preview bg-white"
-          style={containerStyle}
-        >
-          {renderTemplate()}
-          {template.fields.map(renderField)}
-        </div>
+        <CertificateCanvas model={model} scaleToFit />
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { FileJson, Upload, CheckCircle, AlertTriangle, Ban, Clock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  CredentialStatus,
+  VerifiableCredential,
+  getCredentialCertificateCode,
+  getCredentialIssuerId,
+  parseCredential,
+  verifyCredential
+} from '../utils/verifiableCredential';
+
+interface VerificationResult {
+  status: CredentialStatus;
+  credential: VerifiableCredential | null;
+  revoked: boolean;
+}
+
+const STATUS_MESSAGES: Record<CredentialStatus, string> = {
+  valid: 'La firma de la credencial es válida y fue emitida por Red Ciudadana.',
+  invalid: 'La credencial fue modificada después de firmarse o la firma está dañada.',
+  'unknown-issuer': 'La credencial no fue emitida por Red Ciudadana o usa una clave no publicada.',
+  malformed: 'El contenido no es una credencial verificable con una prueba compatible.'
+};
+
+/**
+ * Checks a W3C Verifiable Credential pasted as JSON or uploaded as a file.
+ */
+const CredentialVerifier: React.FC = () => {
+  const [json, setJson] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setJson(await file.text());
+      setResult(null);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const credential = parseCredential(json);
+      const status = credential ? await verifyCredential(credential) : 'malformed';
+
+      // A valid proof can't reflect a revocation made after issuance, so ask the database too
+      const code = credential && getCredentialCertificateCode(credential);
+      const row = status === 'valid' && code
+        ? await supabase.getCertificateByCode(code).catch(() => null)
+        : null;
+
+      setResult({ status, credential, revoked: row?.status === 'revoked' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const subject = result?.credential?.credentialSubject;
+  const achievement = subject?.achievement as { name?: string } | undefined;
+  const expired = !!result?.credential?.validUntil && new Date(result.credential.validUntil) <= new Date();
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-12">
+      <h3 className="text-xl font-bold text-gray-900 mb-2 flex items-center">
+        <FileJson className="mr-2 h-5 w-5 text-gray-600" />
+        Verificar una Credencial Verificable (JSON)
+      </h3>
+      <p className="text-gray-600 mb-4">
+        Pega el JSON de la credencial o súbelo como archivo para comprobar su firma digital.
+      </p>
+      <textarea
+        value={json}
+        onChange={(e) => {
+          setJson(e.target.value);
+          setResult(null);
+        }}
+        rows={6}
+        placeholder='{ "@context": ["https://www.w3.org/ns/credentials/v2"], ... }'
+        className="block w-full px-4 py-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+      />
+      <div className="mt-4 flex items-center justify-between">
+        <label className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-xl hover:bg-gray-50 cursor-pointer">
+          <Upload className="mr-2 h-4 w-4" />
+          Subir archivo
+          <input type="file" accept=".json,.jsonld,application/json,application/ld+json" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={handleVerify}
+          disabled={isVerifying || !json.trim()}
+          className="inline-flex items-center px-6 py-2 bg-gradient-to-r from-gray-600 to-gray-600 text-white text-sm font-semibold rounded-xl hover:from-gray-700 hover:to-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isVerifying ? 'Verificando...' : 'Verificar Credencial'}
+        </button>
+      </div>
+
+      {result && (
+        <div className={`mt-6 rounded-xl p-4 border ${
+          result.status === 'valid' && !result.revoked ? 'bg-gray-50 border-gray-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <p className="font-semibold flex items-center">
+            {result.status !== 'valid' ? (
+              <><AlertTriangle className="mr-2 h-5 w-5 text-red-600" /> Credencial no válida</>
+            ) : result.revoked ? (
+              <><Ban className="mr-2 h-5 w-5 text-red-600" /> Credencial revocada</>
+            ) : expired ? (
+              <><Clock className="mr-2 h-5 w-5 text-yellow-600" /> Credencial auténtica, pero expirada</>
+            ) : (
+              <><CheckCircle className="mr-2 h-5 w-5 text-gray-700" /> Credencial auténtica</>
+            )}
+          </p>
+          <p className="text-sm text-gray-600 mt-1">
+            {result.revoked ? 'Red Ciudadana revocó el certificado asociado a esta credencial.' : STATUS_MESSAGES[result.status]}
+          </p>
+          {result.status === 'valid' && result.credential && subject && (
+            <div className="mt-3 space-y-1 text-sm text-gray-700">
+              <p><strong>Nombre:</strong> {String(subject.name ?? '')}</p>
+              <p><strong>Curso:</strong> {String(subject.course ?? achievement?.name ?? '')}</p>
+              <p><strong>Código:</strong> <span className="font-mono">{getCredentialCertificateCode(result.credential)}</span></p>
+              <p><strong>Emisor:</strong> <span className="font-mono">{getCredentialIssuerId(result.credential)}</span></p>
+              <p><strong>Emitido:</strong> {new Date(result.credential.validFrom).toLocaleDateString('es-ES')}</p>
+              {result.credential.validUntil && (
+                <p><strong>Válido hasta:</strong> {new Date(result.credential.validUntil).toLocaleDateString('es-ES')}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CredentialVerifier;
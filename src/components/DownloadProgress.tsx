@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Loader, X } from 'lucide-react';
+import type { BulkDownloadProgress } from '../utils/certificateGenerator';
+
+interface DownloadProgressProps {
+  progress: BulkDownloadProgress;
+  onCancel: () => void;
+}
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `~${seconds} s` : `~${Math.ceil(seconds / 60)} min`;
+};
+
+const DownloadProgress: React.FC<DownloadProgressProps> = ({ progress, onCancel }) => {
+  // Mounted with the first progress report, after the save dialog has closed
+  const [startedAt] = useState(() => Date.now());
+  const done = progress.completed + progress.failed;
+  const rendered = done - progress.resumed;
+  const percent = progress.total > 0 ? Math.round((done / progress.total) * 100) : 0;
+  // Average time per certificate rendered in this run, extrapolated to the rest
+  const etaMs = rendered > 0 ? ((Date.now() - startedAt) / rendered) * (progress.total - done) : null;
+
+  return (
+    <div className="rounded-xl p-4 border bg-gray-50 border-gray-200 space-y-2">
+      <div className="flex items-center justify-between text-sm text-gray-700">
+        <span className="flex items-center">
+          <Loader className="h-4 w-4 mr-2 animate-spin" />
+          Generando PDFs: {done} de {progress.total}
+          {progress.resumed > 0 && <span className="ml-2 text-gray-500">({progress.resumed} ya guardados)</span>}
+          {progress.failed > 0 && <span className="ml-2 text-red-600">({progress.failed} con errores)</span>}
+        </span>
+        <span className="flex items-center space-x-3">
+          <span className="text-gray-500">
+            {etaMs === null ? 'Calculando tiempo restante…' : `Tiempo restante: ${formatEta(etaMs)}`}
+          </span>
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Cancelar
+          </button>
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+        <div className="h-full bg-gray-700 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default DownloadProgress;
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { PlusCircle, Trash2, Type } from 'lucide-react';
+import { useCertificateStore } from '../store/certificateStore';
+import { CustomFont, FontFormat, FontStyle } from '../types';
+import { getTemplateFields } from '../utils/certificateRenderer';
+import { getPrimaryFontFamily, loadFontFace, toCssFontFamily } from '../utils/certificateFonts';
+import { readFontInfo } from '../utils/fontInfo';
+import { MAX_FONT_SIZE, uploadFontFile } from '../utils/fontStorage';
+
+const STYLE_LABELS: Record<FontStyle, string> = {
+  normal: 'Regular',
+  bold: 'Bold',
+  italic: 'Italic',
+  bolditalic: 'Bold Italic'
+};
+
+const FORMAT_LABELS: Record<FontFormat, string> = {
+  truetype: 'TTF',
+  opentype: 'OTF',
+  woff2: 'WOFF2'
+};
+
+const SAMPLE_TEXT = 'Certificate of Achievement';
+
+interface FontUpload {
+  file: File | null;
+  format: FontFormat | null;
+  family: string;
+  style: FontStyle;
+}
+
+const emptyUpload: FontUpload = { file: null, format: null, family: '', style: 'normal' };
+
+/**
+ * Fonts that text fields can use besides the bundled brand fonts. Each style of a
+ * family is its own file; renders load them before drawing and embed them in PDFs.
+ */
+const FontRegistry: React.FC = () => {
+  const { fonts, templates, addFont, deleteFont } = useCertificateStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [upload, setUpload] = useState<FontUpload>(emptyUpload);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failedFonts, setFailedFonts] = useState<string[]>([]);
+
+  // Loaded for the samples; the same faces serve the template previews
+  useEffect(() => {
+    fonts.forEach(font => {
+      loadFontFace(font).catch(() => setFailedFonts(current => [...current, font.url]));
+    });
+  }, [fonts]);
+
+  const families = [...new Set(fonts.map(font => font.family))];
+
+  const usageCount = (family: string) =>
+    templates.filter(t => getTemplateFields(t).some(f =>
+      f.fontFamily && getPrimaryFontFamily(f.fontFamily).toLowerCase() === family.toLowerCase()
+    )).length;
+
+  const startAdding = () => {
+    setUpload(emptyUpload);
+    setIsAdding(true);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_FONT_SIZE) {
+      setError('The font must be smaller than 10MB.');
+      return;
+    }
+
+    const info = readFontInfo(await file.arrayBuffer());
+    if (!info) {
+      setError('The file must be a TTF, OTF or WOFF2 font.');
+      return;
+    }
+    setUpload(prev => ({
+      file,
+      format: info.format,
+      family: info.family || prev.family || file.name.replace(/\.[^.]+$/, '').replace(/[-_](regular|bold|italic|bolditalic)$/i, ''),
+      style: info.style || prev.style
+    }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const family = upload.family.trim();
+    if (!upload.file || !upload.format) {
+      setError('Choose a font file.');
+      return;
+    }
+    if (!family) {
+      setError('Enter the family name text fields will use.');
+      return;
+    }
+    const existing = fonts.find(f => f.family.toLowerCase() === family.toLowerCase() && f.style === upload.style);
+    if (existing && !window.confirm(`${existing.family} ${STYLE_LABELS[upload.style]} is already uploaded. Replace its file?`)) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const url = await uploadFontFile(upload.file, upload.format);
+      addFont({ family: existing?.family || family, style: upload.style, url, format: upload.format });
+      setIsAdding(false);
+    } catch (error) {
+      setError(`Could not upload the font: ${(error as Error).message}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = (font: CustomFont) => {
+    const uses = usageCount(font.family);
+    const isLastStyle = fonts.filter(f => f.family === font.family).length === 1;
+    const warning = uses > 0 && isLastStyle
+      ? `${font.family} is used by ${uses} template(s); their certificates will fail to render until it is uploaded again. Delete anyway?`
+      : `Delete ${font.family} ${STYLE_LABELS[font.style]}?`;
+    if (window.confirm(warning)) {
+      deleteFont(font.id);
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="space-y-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <label className="block text-sm font-medium text-gray-700">
+        Font file
+        <input
+          type="file"
+          accept=".ttf,.otf,.woff2,font/ttf,font/otf,font/woff2"
+          onChange={handleFileChange}
+          className="mt-1 block w-full text-sm text-gray-700"
+        />
+        <span className="mt-1 block text-xs font-normal text-gray-500">
+          TTF, OTF or WOFF2, one file per style. Only TrueType outlines can be embedded in PDFs.
+        </span>
+      </label>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Family
+          <input
+            type="text"
+            value={upload.family}
+            onChange={(e) => setUpload(prev => ({ ...prev, family: e.target.value }))}
+            required
+            placeholder="Playfair Display"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Style
+          <select
+            value={upload.style}
+            onChange={(e) => setUpload(prev => ({ ...prev, style: e.target.value as FontStyle }))}
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          >
+            {(Object.keys(STYLE_LABELS) as FontStyle[]).map(style => (
+              <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {upload.format && upload.format !== 'truetype' && (
+        <p className="text-sm text-yellow-700">
+          {upload.format === 'woff2' ? 'WOFF2 files' : 'OpenType fonts with CFF outlines'} show in previews but can't
+          be embedded in PDFs; certificates using this style will fail to download until you upload its TTF.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => setIsAdding(false)}
+          className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isUploading}
+          className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+        >
+          {isUploading ? 'Uploading…' : 'Upload Font'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Fonts</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Uploaded fonts text fields can use, besides Sora and Euclid Circular A.
+          </p>
+        </div>
+        {!isAdding && (
+          <button
+            onClick={startAdding}
+            className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            <PlusCircle className="mr-2 h-4 w-4" aria-hidden="true" />
+            Upload Font
+          </button>
+        )}
+      </div>
+      <div className="border-t border-gray-200 px-4 py-5 sm:p-6 space-y-4">
+        {isAdding && renderForm()}
+
+        {families.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {families.map(family => (
+              <li key={family} className="py-3 space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <p className="text-xl text-gray-900 truncate" style={{ fontFamily: toCssFontFamily(family) }}>
+                    {SAMPLE_TEXT}
+                  </p>
+                  <p className="ml-4 text-xs text-gray-500 whitespace-nowrap">
+                    {family} · {usageCount(family)} template(s)
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {fonts.filter(font => font.family === family).map(font => (
+                    <span
+                      key={font.id}
+                      className="inline-flex items-center px-2 py-1 rounded-md text-xs bg-gray-100 text-gray-700"
+                    >
+                      {STYLE_LABELS[font.style]}
+                      <span className={`ml-1 ${font.format === 'truetype' ? 'text-gray-500' : 'text-yellow-700'}`}>
+                        {FORMAT_LABELS[font.format]}{font.format !== 'truetype' && ' · preview only'}
+                      </span>
+                      {failedFonts.includes(font.url) && <span className="ml-1 text-red-600">· could not load</span>}
+                      <button onClick={() => handleDelete(font)} className="ml-2 text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : !isAdding && (
+          <div className="text-center py-6">
+            <Type className="mx-auto h-12 w-12 text-gray-300" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No uploaded fonts</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Upload a font to use it in text fields.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FontRegistry;
@@ -1,29 +1,51 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, Image as ImageIcon, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, CheckCircle, AlertCircle, AlertTriangle } from 'lucide-react';
+import { uploadTemplateImage } from '../utils/imageStorage';
+import { ImageInfo, readImageInfo } from '../utils/imageInfo';
+import { checkArtwork, MM_PER_INCH, PageDimensions } from '../utils/pageSize';
 
 interface ImageUploadProps {
-  onImageUploaded: (imageUrl: string) => void;
+  onImageUploaded: (imageUrl: string, info?: ImageInfo) => void;
   currentImageUrl?: string;
+  pageSize?: PageDimensions; // Page the image covers, to check its proportions and resolution
+  onUseImageSize?: (info: ImageInfo) => void; // Offered when the image doesn't fit the page
   className?: string;
 }
 
+const PRINT_DPI = 300;
+const MIN_PRINT_DPI = 150; // Below this, print gets visibly blurry
+
 const ImageUpload: React.FC<ImageUploadProps> = ({ 
   onImageUploaded, 
   currentImageUrl, 
+  pageSize,
+  onUseImageSize,
   className = '' 
 }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(currentImageUrl || null);
+  const [imageInfo, setImageInfo] = useState<ImageInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const convertToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = error => reject(error);
-    });
+  // Images uploaded earlier are checked too, e.g. after changing the page size
+  useEffect(() => {
+    if (!uploadedImageUrl || imageInfo) return;
+    let cancelled = false;
+    fetch(uploadedImageUrl)
+      .then(response => response.blob())
+      .then(readImageInfo)
+      .then(info => !cancelled && setImageInfo(info))
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadedImageUrl, imageInfo]);
+
+  const check = imageInfo && pageSize ? checkArtwork(imageInfo.width, imageInfo.height, pageSize) : null;
+  const recommended = pageSize && {
+    width: Math.round((pageSize.width / MM_PER_INCH) * PRINT_DPI),
+    height: Math.round((pageSize.height / MM_PER_INCH) * PRINT_DPI)
   };
 
   const processImage = useCallback(async (file: File) => {
@@ -41,25 +63,20 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
         throw new Error('El archivo debe ser menor a 5MB');
       }
 
-      // Convert to base64 for storage
-      const base64String = await convertToBase64(file);
-      
-      // Store in localStorage with a unique key
-      const imageId = `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const imageKey = `certificate_template_${imageId}`;
-      
+      const info = await readImageInfo(file).catch(() => undefined);
+
+      // Upload to the templates bucket so every admin and the CLI can read it
+      let imageUrl: string;
       try {
-        localStorage.setItem(imageKey, base64String);
-        
-        // Create a data URL for immediate use
-        const imageUrl = base64String;
-        
-        setUploadedImageUrl(imageUrl);
-        onImageUploaded(imageUrl);
-        
-      } catch (storageError) {
-        throw new Error('Error al guardar la imagen. El archivo puede ser muy grande.');
+        imageUrl = await uploadTemplateImage(file);
+      } catch (uploadError) {
+        console.error('Error uploading template image:', uploadError);
+        throw new Error('No se pudo subir la imagen al almacenamiento. Verifica tu conexión e inténtalo de nuevo.');
       }
+      
+      setImageInfo(info || null);
+      setUploadedImageUrl(imageUrl);
+      onImageUploaded(imageUrl, info);
 
     } catch (err) {
       console.error('Error processing image:', err);
@@ -87,6 +104,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
 
   const handleRemoveImage = () => {
     setUploadedImageUrl(null);
+    setImageInfo(null);
     setError(null);
     onImageUploaded('');
   };
@@ -157,12 +175,48 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
               <div className="flex items-center text-gray-700">
                 <CheckCircle className="h-4 w-4 mr-2" />
                 <span className="text-sm font-medium">Imagen subida correctamente</span>
+                {imageInfo && (
+                  <span className="ml-auto text-xs text-gray-500">
+                    {imageInfo.width}×{imageInfo.height} px{imageInfo.dpi ? ` · ${imageInfo.dpi} DPI` : ''}
+                  </span>
+                )}
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {imageInfo && pageSize && check && (!check.aspectMatches || check.effectiveDpi < MIN_PRINT_DPI) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+          <div className="flex items-start">
+            <AlertTriangle className="h-5 w-5 text-yellow-500 mr-3 flex-shrink-0" />
+            <div className="space-y-2 text-sm text-yellow-800">
+              {!check.aspectMatches && (
+                <p>
+                  La imagen ({imageInfo.width}×{imageInfo.height} px) no tiene la proporción de la página
+                  ({Math.round(pageSize.width)}×{Math.round(pageSize.height)} mm): se recortará para cubrirla.
+                </p>
+              )}
+              {check.effectiveDpi < MIN_PRINT_DPI && (
+                <p>
+                  Resolución baja: en esta página la imagen se imprime a {check.effectiveDpi} DPI.
+                  Para {PRINT_DPI} DPI usa al menos {recommended?.width}×{recommended?.height} px.
+                </p>
+              )}
+              {!check.aspectMatches && onUseImageSize && (
+                <button
+                  type="button"
+                  onClick={() => onUseImageSize(imageInfo)}
+                  className="inline-flex items-center px-3 py-1.5 border border-yellow-300 text-xs font-medium rounded-md text-yellow-800 bg-white hover:bg-yellow-100"
+                >
+                  Ajustar la página a la imagen
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-xl p-4">
           <div className="flex items-center">
@@ -186,7 +240,10 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
             </h3>
             <div className="mt-2 text-sm text-gray-700">
               <ul className="list-disc list-inside space-y-1">
-                <li>Dimensiones recomendadas: 2000x1414 píxeles (proporción A4)</li>
+                <li>
+                  Dimensiones recomendadas: {recommended ? `${recommended.width}x${recommended.height}` : '3508x2480'} píxeles
+                  (misma proporción que la página)
+                </li>
                 <li>Resolución mínima: 300 DPI para impresión</li>
                 <li>Deja espacio suficiente para el texto del certificado</li>
                 <li>Usa colores que contrasten bien con el texto</li>
@@ -17,9 +17,12 @@ import {
   Shield,
   LogOut,
   User,
-  Code2
+  Code2,
+  ClipboardCheck
 } from 'lucide-react';
 import { useCertificateStore } from '../store/certificateStore';
+import SyncStatus from './SyncStatus';
+import { canAccessRoute, ROLE_LABELS } from '../utils/permissions';
 import LogoRedBlanco from '../assets/logos/LOGO-RED_BLANCO.png'
 
 const Layout: React.FC = () => {
@@ -29,11 +32,12 @@ const Layout: React.FC = () => {
   const { user, logout } = useAuthStore();
   const { certificates, recipients, templates } = useCertificateStore();
   
-  // Navigation items
+  // Navigation items, filtered by the routes the current role can open
   const navigation = [
     { name: 'Panel Principal', to: '/dashboard', icon: LayoutIcon },
     { name: 'Crear Certificado', to: '/dashboard/create', icon: Award },
     { name: 'Certificados', to: '/dashboard/certificates', icon: ScrollText },
+    { name: 'Revisión', to: '/dashboard/review', icon: ClipboardCheck },
     { name: 'Plantillas', to: '/dashboard/templates', icon: FileText },
     { name: 'Destinatarios', to: '/dashboard/recipients', icon: Users },
     { name: 'Código Fuente', to: '/dashboard/source-code', icon: Code2 },
@@ -41,7 +45,10 @@ const Layout: React.FC = () => {
     { name: 'LinkedIn', to: '/dashboard/linkedin', icon: Share2 },
     { name: 'Notificaciones', to: '/dashboard/notifications', icon: Mail },
     { name: 'Documentación', to: '/dashboard/docs', icon: Book }
-  ];
+  ].filter(item => canAccessRoute(user, item.to));
+
+  const canCreate = canAccessRoute(user, '/dashboard/create');
+  const roleLabel = user ? ROLE_LABELS[user.role] : '';
 
   const handleLogout = () => {
     logout();
@@ -61,6 +68,8 @@ const Layout: React.FC = () => {
         return recipients.length;
       case '/dashboard/templates':
         return templates.length;
+      case '/dashboard/review':
+        return certificates.filter(c => c.status === 'draft').length;
       default:
         return 0;
     }
@@ -94,7 +103,7 @@ const Layout: React.FC = () => {
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-gray-900 truncate">{user?.name}</p>
-              <p className="text-xs text-gray-500">Administrador</p>
+              <p className="text-xs text-gray-500">{roleLabel}</p>
             </div>
           </div>
           
@@ -151,14 +160,16 @@ const Layout: React.FC = () => {
         
         {/* Quick action and logout */}
         <div className="p-4 border-t border-gray-100">
-          <Link
-            to="/dashboard/create"
-            className="w-full flex items-center justify-center px-4 py-3 text-white text-sm font-medium rounded-xl hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl mb-3"
-            style={{ backgroundColor: "#232831" }}
-          >
-            <Award className="h-4 w-4 mr-2" />
-            Crear Certificado
-          </Link>
+          {canCreate && (
+            <Link
+              to="/dashboard/create"
+              className="w-full flex items-center justify-center px-4 py-3 text-white text-sm font-medium rounded-xl hover:opacity-90 transition-all duration-200 shadow-lg hover:shadow-xl mb-3"
+              style={{ backgroundColor: "#232831" }}
+            >
+              <Award className="h-4 w-4 mr-2" />
+              Crear Certificado
+            </Link>
+          )}
           
           <button
             onClick={handleLogout}
@@ -198,7 +209,7 @@ const Layout: React.FC = () => {
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-gray-900 truncate">{user?.name}</p>
-              <p className="text-xs text-gray-500">Administrador</p>
+              <p className="text-xs text-gray-500">{roleLabel}</p>
             </div>
           </div>
           
@@ -256,14 +267,16 @@ const Layout: React.FC = () => {
         
         {/* Mobile quick action and logout */}
         <div className="p-4 border-t border-gray-100">
-          <Link
-            to="/dashboard/create"
-            onClick={toggleMobileMenu}
-            className="w-full flex items-center justify-center px-4 py-3 bg-gradient-to-r from-gray-600 to-gray-600 text-white text-sm font-medium rounded-xl hover:from-gray-700 hover:to-gray-700 transition-all duration-200 shadow-lg mb-3"
-          >
-            <Award className="h-4 w-4 mr-2" />
-            Crear Certificado
-          </Link>
+          {canCreate && (
+            <Link
+              to="/dashboard/create"
+              onClick={toggleMobileMenu}
+              className="w-full flex items-center justify-center px-4 py-3 bg-gradient-to-r from-gray-600 to-gray-600 text-white text-sm font-medium rounded-xl hover:from-gray-700 hover:to-gray-700 transition-all duration-200 shadow-lg mb-3"
+            >
+              <Award className="h-4 w-4 mr-2" />
+              Crear Certificado
+            </Link>
+          )}
           
           <button
             onClick={handleLogout}
@@ -277,6 +290,7 @@ const Layout: React.FC = () => {
       
       <div className="lg:pl-72">
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <SyncStatus />
           <Outlet />
         </main>
       </div>
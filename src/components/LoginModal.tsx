@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
+import { getHomeRoute } from '../utils/permissions';
 import { LogIn, User, Lock, Eye, EyeOff, UserPlus, Shield, GraduationCap, X } from 'lucide-react';
 
 const LoginModal: React.FC = () => {
@@ -11,8 +12,7 @@ const LoginModal: React.FC = () => {
   const [formData, setFormData] = useState({
     email: '',
     password: '',
-    name: '',
-    role: 'admin' as 'admin'
+    name: ''
   });
   const [error, setError] = useState('');
 
@@ -29,20 +29,23 @@ const LoginModal: React.FC = () => {
           setError('Credenciales incorrectas. Intenta de nuevo.');
         } else {
           closeLoginModal();
-          navigate('/dashboard');
+          navigate(getHomeRoute(useAuthStore.getState().user));
         }
       } else {
         success = await register({
           email: formData.email,
           name: formData.name,
-          role: formData.role,
           password: formData.password
         });
         if (!success) {
           setError('El usuario ya existe o hubo un error en el registro.');
+        } else if (!useAuthStore.getState().isAuthenticated) {
+          // Supabase requires email confirmation before issuing a session
+          setError('Revisa tu correo electrónico para confirmar la cuenta antes de iniciar sesión.');
+          setIsLoginMode(true);
         } else {
           closeLoginModal();
-          navigate('/dashboard');
+          navigate(getHomeRoute(useAuthStore.getState().user));
         }
       }
     } catch (err) {
@@ -60,7 +63,7 @@ const LoginModal: React.FC = () => {
   const handleClose = () => {
     closeLoginModal();
     setError('');
-    setFormData({ email: '', password: '', name: '', role: 'admin' });
+    setFormData({ email: '', password: '', name: '' });
     setIsLoginMode(true);
   };
 
@@ -188,11 +191,13 @@ const LoginModal: React.FC = () => {
                 </label>
                 <input
                   type="text"
-                  value="Administrador"
+                  value="Estudiante"
                   disabled
                   className="block w-full px-3 py-3 border border-gray-300 rounded-xl shadow-sm bg-gray-50 text-gray-500"
                 />
-                <input type="hidden" name="role" value="admin" />
+                <p className="mt-1 text-xs text-gray-500">
+                  Los roles de equipo (emisor, revisor, auditor) los asigna un administrador.
+                </p>
               </div>
             )}
 
@@ -226,13 +231,13 @@ const LoginModal: React.FC = () => {
               </button>
             </div>
 
-            {/* <div className="text-center">
+            <div className="text-center">
               <button
                 type="button"
                 onClick={() => {
                   setIsLoginMode(!isLoginMode);
                   setError('');
-                  setFormData({ email: '', password: '', name: '', role: 'student' });
+                  setFormData({ email: '', password: '', name: '' });
                 }}
                 className="text-gray-600 hover:text-gray-500 text-sm font-medium"
               >
@@ -241,7 +246,7 @@ const LoginModal: React.FC = () => {
                   : '¿Ya tienes cuenta? Iniciar sesión'
                 }
               </button>
-            </div> */}
+            </div>
           </form>
         </div>
       </div>
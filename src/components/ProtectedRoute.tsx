@@ -1,9 +1,11 @@
 import React from 'react';
 import { useAuthStore } from '../store/authStore';
+import { UserRole } from '../types';
+import { hasRole, ROLE_LABELS } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'admin';
+  requiredRole?: UserRole | UserRole[];
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
@@ -34,7 +36,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole
     );
   }
 
-  if (requiredRole && user.role !== requiredRole) {
+  if (requiredRole && !hasRole(user, requiredRole)) {
+    const allowedLabels = (Array.isArray(requiredRole) ? requiredRole : [requiredRole])
+      .map(role => ROLE_LABELS[role])
+      .join(', ');
+
     return (
       <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-gray-50 flex items-center justify-center px-4">
         <div className="max-w-md w-full text-center">
@@ -47,10 +53,10 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole
             Acceso Denegado
           </h2>
           <p className="text-gray-600 mb-8">
-            No tienes permisos para acceder a esta sección. Se requiere rol de Administrador.
+            No tienes permisos para acceder a esta sección. Roles permitidos: {allowedLabels}.
           </p>
           <p className="text-sm text-gray-500">
-            Tu rol actual: <span className="font-semibold capitalize">{user.role}</span>
+            Tu rol actual: <span className="font-semibold capitalize">{ROLE_LABELS[user.role]}</span>
           </p>
         </div>
       </div>
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { PenTool, PlusCircle, Trash2, Edit } from 'lucide-react';
+import { useCertificateStore } from '../store/certificateStore';
+import { Signer } from '../types';
+import { getTemplateFields } from '../utils/certificateRenderer';
+
+const MAX_SIGNATURE_SIZE = 1024 * 1024;
+
+const emptySigner: Omit<Signer, 'id'> = { name: '', title: '', signatureUrl: '' };
+
+/**
+ * Signers that signature fields can reference. Editing a signer's signature updates
+ * every template that places it.
+ */
+const SignerRegistry: React.FC = () => {
+  const { signers, templates, addSigner, updateSigner, deleteSigner } = useCertificateStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formData, setFormData] = useState<Omit<Signer, 'id'>>(emptySigner);
+  const [error, setError] = useState<string | null>(null);
+
+  const usageCount = (id: string) =>
+    templates.filter(t => getTemplateFields(t).some(f => f.type === 'signature' && f.signerId === id)).length;
+
+  const startAdding = () => {
+    setFormData(emptySigner);
+    setEditingId(null);
+    setIsAdding(true);
+    setError(null);
+  };
+
+  const startEditing = (signer: Signer) => {
+    setFormData({ name: signer.name, title: signer.title || '', signatureUrl: signer.signatureUrl });
+    setEditingId(signer.id);
+    setIsAdding(false);
+    setError(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setIsAdding(false);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('The signature must be an image.');
+      return;
+    }
+    if (file.size > MAX_SIGNATURE_SIZE) {
+      setError('The signature must be smaller than 1MB.');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setFormData(prev => ({ ...prev, signatureUrl: reader.result as string }));
+      setError(null);
+    };
+    reader.onerror = () => setError('Could not read the file.');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.signatureUrl) {
+      setError('Upload a signature image or enter its URL.');
+      return;
+    }
+
+    const signer = { ...formData, title: formData.title || undefined };
+    if (editingId) {
+      updateSigner(editingId, signer);
+    } else {
+      addSigner(signer);
+    }
+    closeForm();
+  };
+
+  const handleDelete = (signer: Signer) => {
+    const uses = usageCount(signer.id);
+    const warning = uses > 0
+      ? `${signer.name} signs ${uses} template(s); their signature fields will be left empty. Delete anyway?`
+      : `Delete ${signer.name}?`;
+    if (window.confirm(warning)) {
+      deleteSigner(signer.id);
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="space-y-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Title
+          <input
+            type="text"
+            value={formData.title || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="Executive Director"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Signature image
+          <input
+            type="file"
+            accept="image/png,image/svg+xml,image/jpeg,image/webp"
+            onChange={handleFileChange}
+            className="mt-1 block w-full text-sm text-gray-700"
+          />
+          <span className="mt-1 block text-xs font-normal text-gray-500">
+            A PNG with a transparent background works best.
+          </span>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Or image URL
+          <input
+            type="url"
+            value={formData.signatureUrl.startsWith('data:') ? '' : formData.signatureUrl}
+            onChange={(e) => setFormData(prev => ({ ...prev, signatureUrl: e.target.value }))}
+            placeholder="https://…"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+        </label>
+      </div>
+
+      {formData.signatureUrl && (
+        <div className="h-20 bg-white border border-gray-200 rounded-md flex items-center justify-center">
+          <img src={formData.signatureUrl} alt="Signature preview" className="max-h-16 object-contain" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={closeForm}
+          className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          {editingId ? 'Update Signer' : 'Add Signer'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Signers</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Signatures that templates place with a signature field.
+          </p>
+        </div>
+        {!isAdding && !editingId && (
+          <button
+            onClick={startAdding}
+            className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            <PlusCircle className="mr-2 h-4 w-4" aria-hidden="true" />
+            New Signer
+          </button>
+        )}
+      </div>
+      <div className="border-t border-gray-200 px-4 py-5 sm:p-6 space-y-4">
+        {isAdding && renderForm()}
+
+        {signers.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {signers.map(signer => (
+              <li key={signer.id} className="py-3">
+                {editingId === signer.id ? renderForm() : (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <div className="h-12 w-32 bg-gray-50 border border-gray-200 rounded flex items-center justify-center">
+                        <img src={signer.signatureUrl} alt={`Signature of ${signer.name}`} className="max-h-10 object-contain" />
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{signer.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {signer.title && `${signer.title} · `}
+                          {usageCount(signer.id)} template(s)
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => startEditing(signer)} className="text-gray-500 hover:text-gray-700" title="Edit">
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => handleDelete(signer)} className="text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : !isAdding && (
+          <div className="text-center py-6">
+            <PenTool className="mx-auto h-12 w-12 text-gray-300" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No signers</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Add a signer to place their signature on templates.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignerRegistry;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { useCertificateStore } from '../store/certificateStore';
+import { SyncEntity } from '../utils/dataSync';
+
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+  templates: 'Plantilla',
+  signers: 'Firmante',
+  fonts: 'Fuente',
+  recipients: 'Destinatario',
+  collections: 'Colección'
+};
+
+/**
+ * Changes the server refused. Their local copies stay in the panel until the user
+ * retries them (e.g. after getting a role that can write) or discards them.
+ */
+const SyncStatus: React.FC = () => {
+  const {
+    rejectedChanges,
+    templates,
+    signers,
+    fonts,
+    recipients,
+    collections,
+    retryRejectedChanges,
+    discardRejectedChanges
+  } = useCertificateStore();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (rejectedChanges.length === 0) return null;
+
+  const getRecordName = (entity: SyncEntity, recordId: string): string => {
+    switch (entity) {
+      case 'templates': return templates.find(t => t.id === recordId)?.name || recordId;
+      case 'signers': return signers.find(s => s.id === recordId)?.name || recordId;
+      case 'fonts': return fonts.find(f => f.id === recordId)?.family || recordId;
+      case 'recipients': return recipients.find(r => r.id === recordId)?.name || recordId;
+      case 'collections': return collections.find(c => c.id === recordId)?.name || recordId;
+    }
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm('Se descartarán los cambios locales y se cargará la versión guardada en el servidor. ¿Continuar?')) {
+      discardRejectedChanges();
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-xl border border-yellow-200 bg-yellow-50 p-4">
+      <div className="flex items-start">
+        <AlertTriangle className="h-5 w-5 flex-shrink-0 text-yellow-600" />
+        <div className="ml-3 flex-1">
+          <p className="text-sm font-medium text-yellow-800">
+            {rejectedChanges.length === 1
+              ? '1 cambio no se pudo guardar en el servidor.'
+              : `${rejectedChanges.length} cambios no se pudieron guardar en el servidor.`}
+            {' '}Solo existen en este navegador.
+          </p>
+          <button
+            onClick={() => setShowDetails(!showDetails)}
+            className="mt-1 text-sm text-yellow-700 underline hover:text-yellow-900"
+          >
+            {showDetails ? 'Ocultar detalles' : 'Ver detalles'}
+          </button>
+          {showDetails && (
+            <ul className="mt-2 space-y-1 text-sm text-yellow-800">
+              {rejectedChanges.map(change => (
+                <li key={`${change.entity}-${change.recordId}`}>
+                  {ENTITY_LABELS[change.entity]} «{getRecordName(change.entity, change.recordId)}»
+                  {change.operation === 'delete' ? ' (eliminación)' : ''}: {change.error}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-3 flex space-x-3">
+            <button
+              onClick={retryRejectedChanges}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700"
+            >
+              <RotateCcw className="mr-1.5 h-4 w-4" />
+              Reintentar
+            </button>
+            <button
+              onClick={handleDiscard}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Trash2 className="mr-1.5 h-4 w-4" />
+              Descartar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncStatus;
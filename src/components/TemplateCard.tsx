@@ -1,18 +1,21 @@
 import React from 'react';
 import { Template } from '../types';
 import { useCertificateStore } from '../store/certificateStore';
-import { CheckCircle, Edit, Trash, Eye, Sparkles } from 'lucide-react';
+import { getTemplateFields } from '../utils/certificateRenderer';
+import { CheckCircle, Edit, Trash, Eye, Sparkles, Download } from 'lucide-react';
 
 interface TemplateCardProps {
   template: Template;
   onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onExport?: (id: string) => void;
 }
 
 const TemplateCard: React.FC<TemplateCardProps> = ({
   template,
   onEdit,
-  onDelete
+  onDelete,
+  onExport
 }) => {
   const { currentTemplateId, setCurrentTemplate } = useCertificateStore();
   const isSelected = currentTemplateId === template.id;
@@ -58,6 +61,19 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
             </button>
           )}
           
+          {onExport && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onExport(template.id);
+              }}
+              title="Exportar plantilla (.certtpl)"
+              className="p-2 bg-white bg-opacity-90 backdrop-blur-sm rounded-full text-gray-700 hover:bg-white hover:text-gray-600 transition-all duration-200 shadow-lg"
+            >
+              <Download className="h-4 w-4" />
+            </button>
+          )}
+          
           {onDelete && (
             <button
               onClick={(e) => {
@@ -87,8 +103,13 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
             </h3>
             <div className="flex items-center space-x-2">
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
-                {template.fields.length} campos
+                {getTemplateFields(template).length} campos
               </span>
+              {template.pages && template.pages.length > 0 && (
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                  {template.pages.length + 1} páginas
+                </span>
+              )}
               {isSelected && (
                 <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
                   <Sparkles className="h-3 w-3 mr-1" />
@@ -0,0 +1,457 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AlignHorizontalDistributeCenter,
+  AlignHorizontalJustifyCenter,
+  AlignHorizontalJustifyEnd,
+  AlignHorizontalJustifyStart,
+  AlignVerticalDistributeCenter,
+  AlignVerticalJustifyCenter,
+  AlignVerticalJustifyEnd,
+  AlignVerticalJustifyStart,
+  Eye,
+  Redo2,
+  Undo2
+} from 'lucide-react';
+import { Recipient, Template, TemplateField } from '../types';
+import { useCertificateStore } from '../store/certificateStore';
+import {
+  buildRenderModel,
+  getTemplateFields,
+  getTemplatePages
+} from '../utils/certificateRenderer';
+import { renderModelToPDF } from '../utils/pdfRenderer';
+import { createCanvasMeasurer } from '../utils/textLayout';
+import {
+  AlignMode,
+  Bounds,
+  createHistory,
+  DistributeMode,
+  getAlignOffsets,
+  getDistributeOffsets,
+  getFieldBounds,
+  History,
+  moveField,
+  pushHistory,
+  redoHistory,
+  resizeField,
+  SNAP_THRESHOLD,
+  SnapResult,
+  snapBounds,
+  undoHistory,
+  unionBounds
+} from '../utils/templateDesigner';
+import CertificateCanvas from './CertificateCanvas';
+
+interface TemplateDesignerProps {
+  template: Omit<Template, 'id'>;
+  page: number; // Index of the page being edited
+  onFieldsChange: (fields: TemplateField[]) => void; // Of that page
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  ids: string[];
+  startX: number;
+  startY: number;
+  startFields: TemplateField[];
+  startBounds: Bounds[]; // Of the dragged fields
+  others: Bounds[]; // Of every other field, to snap to
+  fields: TemplateField[]; // Latest result
+}
+
+const SAMPLE_VERIFICATION_URL = `${typeof window !== 'undefined' ? window.location.origin : ''}/verify/MUESTRA-0001`;
+const NO_GUIDES: SnapResult['guides'] = { x: [], y: [] };
+
+const ALIGN_TOOLS: { mode: AlignMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'left', label: 'Align left', icon: AlignHorizontalJustifyStart },
+  { mode: 'center', label: 'Align centers horizontally', icon: AlignHorizontalJustifyCenter },
+  { mode: 'right', label: 'Align right', icon: AlignHorizontalJustifyEnd },
+  { mode: 'top', label: 'Align top', icon: AlignVerticalJustifyStart },
+  { mode: 'middle', label: 'Align centers vertically', icon: AlignVerticalJustifyCenter },
+  { mode: 'bottom', label: 'Align bottom', icon: AlignVerticalJustifyEnd }
+];
+
+const DISTRIBUTE_TOOLS: { mode: DistributeMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { mode: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter }
+];
+
+const SAMPLE_TABLE_ROWS = 3;
+
+/**
+ * Stand-in recipient for the live preview. Custom fields show their name, and tables
+ * their column labels, so every field has something to grab.
+ */
+const createSampleRecipient = (fields: TemplateField[]): Recipient => ({
+  id: 'sample',
+  name: 'María Fernanda González Rodríguez',
+  course: 'Nombre del curso',
+  issueDate: new Date().toISOString(),
+  customFields: Object.fromEntries(
+    fields
+      .filter(field => (field.type === 'text' || field.type === 'table') && field.name !== 'recipient' && field.name !== 'course')
+      .map(field => [
+        field.name,
+        field.defaultValue || (field.type === 'table'
+          ? JSON.stringify(Array.from({ length: SAMPLE_TABLE_ROWS }, () =>
+              Object.fromEntries((field.columns || []).map(column => [column.key, `[${column.label || column.key}]`]))
+            ))
+          : `[${field.name}]`)
+      ])
+  )
+});
+
+const toolButtonClass =
+  'p-1.5 rounded-md text-gray-600 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-40 disabled:hover:bg-transparent';
+
+/**
+ * WYSIWYG layout editor: the certificate is drawn by CertificateCanvas, the same
+ * component every export goes through, and the fields can be dragged, resized,
+ * aligned and nudged on top of it. Edits made in the field list are part of the undo
+ * history too.
+ */
+const TemplateDesigner: React.FC<TemplateDesignerProps> = ({ template, page, onFieldsChange }) => {
+  const { recipients, signers, fonts } = useCertificateStore();
+  const fields = getTemplatePages(template)[page].fields;
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<DragState | null>(null);
+  const [scale, setScale] = useState(1);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [guides, setGuides] = useState(NO_GUIDES);
+  const [history, setHistory] = useState<History<TemplateField[]>>(() => createHistory(fields));
+  const [sampleRecipientId, setSampleRecipientId] = useState('');
+  const [, setFontsLoaded] = useState(0);
+
+  // Field list edits arrive as new props; canvas edits are already recorded
+  useEffect(() => {
+    if (drag.current) return;
+    setHistory(current => (current.present === fields ? current : pushHistory(current, fields)));
+  }, [fields]);
+
+  useEffect(() => {
+    setSelection(current => current.filter(id => fields.some(field => field.id === id)));
+  }, [fields]);
+
+  // Text boxes are measured with the page's fonts; measure again once web fonts arrive
+  useEffect(() => {
+    const onFontsLoaded = () => setFontsLoaded(count => count + 1);
+    document.fonts?.addEventListener('loadingdone', onFontsLoaded);
+    return () => document.fonts?.removeEventListener('loadingdone', onFontsLoaded);
+  }, []);
+
+  const recipient = useMemo(
+    () => recipients.find(r => r.id === sampleRecipientId) || createSampleRecipient(getTemplateFields(template)),
+    [recipients, sampleRecipientId, template]
+  );
+  const model = useMemo(
+    () => buildRenderModel({ ...template, id: 'preview' }, recipient, { verificationUrl: SAMPLE_VERIFICATION_URL }, signers, fonts),
+    [template, recipient, signers, fonts]
+  );
+  // Follows the template's page size
+  const canvas = useMemo(() => ({ width: model.width, height: model.height }), [model.width, model.height]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(([entry]) => setScale(entry.contentRect.width / canvas.width));
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, [canvas.width]);
+
+  const bounds = useMemo(() => {
+    const rendered = new Map(model.pages[page].fields.map(field => [field.id, field]));
+    return new Map(fields.map(field => [
+      field.id,
+      getFieldBounds(field, rendered.get(field.id), canvas, createCanvasMeasurer)
+    ]));
+  }, [fields, model, page, canvas]);
+
+  const commit = (next: TemplateField[]) => {
+    setHistory(current => pushHistory(current, next));
+    onFieldsChange(next);
+  };
+
+  const undo = () => {
+    const next = undoHistory(history);
+    setHistory(next);
+    onFieldsChange(next.present);
+  };
+
+  const redo = () => {
+    const next = redoHistory(history);
+    setHistory(next);
+    onFieldsChange(next.present);
+  };
+
+  const moveSelection = (offsets: { dx: number; dy: number }[], ids = selection) =>
+    commit(fields.map(field => {
+      const index = ids.indexOf(field.id);
+      return index >= 0 ? moveField(field, offsets[index].dx, offsets[index].dy, canvas) : field;
+    }));
+
+  const align = (mode: AlignMode) => {
+    const selected = selection.map(id => bounds.get(id)!);
+    // A single field lines up with the certificate itself
+    const reference = selected.length > 1 ? unionBounds(selected) : { left: 0, top: 0, ...canvas };
+    moveSelection(getAlignOffsets(selected, reference, mode));
+  };
+
+  const distribute = (mode: DistributeMode) =>
+    moveSelection(getDistributeOffsets(selection.map(id => bounds.get(id)!), mode));
+
+  const startDrag = (event: React.PointerEvent, mode: DragState['mode'], id: string) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    stageRef.current?.focus();
+
+    let ids = [id];
+    if (mode === 'move' && event.shiftKey) {
+      if (selection.includes(id)) {
+        setSelection(selection.filter(selected => selected !== id));
+        return;
+      }
+      ids = [...selection, id];
+    } else if (mode === 'move' && selection.includes(id)) {
+      ids = selection;
+    }
+    setSelection(ids);
+
+    stageRef.current?.setPointerCapture(event.pointerId);
+    drag.current = {
+      mode,
+      ids,
+      startX: event.clientX,
+      startY: event.clientY,
+      startFields: fields,
+      startBounds: ids.map(selected => bounds.get(selected)!),
+      others: fields.filter(field => !ids.includes(field.id)).map(field => bounds.get(field.id)!),
+      fields
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const state = drag.current;
+    if (!state) return;
+    const dx = (event.clientX - state.startX) / scale;
+    const dy = (event.clientY - state.startY) / scale;
+    const threshold = SNAP_THRESHOLD / scale;
+
+    let next: TemplateField[];
+    let snap: SnapResult = { dx: 0, dy: 0, guides: NO_GUIDES };
+    if (state.mode === 'move') {
+      const start = unionBounds(state.startBounds);
+      // Alt holds snapping off for fine placement
+      if (!event.altKey) {
+        snap = snapBounds({ ...start, left: start.left + dx, top: start.top + dy }, state.others, canvas, threshold);
+      }
+      next = state.startFields.map(field =>
+        state.ids.includes(field.id) ? moveField(field, dx + snap.dx, dy + snap.dy, canvas) : field
+      );
+    } else {
+      const start = state.startBounds[0];
+      const resized = { ...start, width: start.width + dx, height: start.height + dy };
+      if (!event.altKey) snap = snapBounds(resized, state.others, canvas, threshold, 'end');
+      next = state.startFields.map(field => field.id === state.ids[0]
+        ? resizeField(field, { ...resized, width: resized.width + snap.dx, height: resized.height + snap.dy }, canvas)
+        : field
+      );
+    }
+
+    state.fields = next;
+    setGuides(snap.guides);
+    onFieldsChange(next);
+  };
+
+  const handlePointerUp = () => {
+    const state = drag.current;
+    if (!state) return;
+    drag.current = null;
+    setGuides(NO_GUIDES);
+    if (state.fields !== state.startFields) {
+      setHistory(current => pushHistory(current, state.fields, state.startFields));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const mod = event.metaKey || event.ctrlKey;
+    const key = event.key.toLowerCase();
+
+    if (mod && key === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    } else if (mod && key === 'y') {
+      event.preventDefault();
+      redo();
+    } else if (mod && key === 'a') {
+      event.preventDefault();
+      setSelection(fields.map(field => field.id));
+    } else if (event.key === 'Escape') {
+      setSelection([]);
+    } else if (event.key.startsWith('Arrow') && selection.length > 0) {
+      event.preventDefault();
+      const step = event.shiftKey ? 10 : 1;
+      const offset = {
+        ArrowLeft: { dx: -step, dy: 0 },
+        ArrowRight: { dx: step, dy: 0 },
+        ArrowUp: { dx: 0, dy: -step },
+        ArrowDown: { dx: 0, dy: step }
+      }[event.key];
+      if (offset) moveSelection(selection.map(() => offset));
+    }
+  };
+
+  const openPdfPreview = async () => {
+    // Opened right away so the browser treats it as a response to the click
+    const tab = window.open('', '_blank');
+    try {
+      const pdf = await renderModelToPDF(model, { title: `Preview - ${template.name || 'template'}` });
+      const url = URL.createObjectURL(pdf);
+      if (tab) tab.location.href = url;
+      else window.open(url, '_blank');
+    } catch (error) {
+      tab?.close();
+      console.error('Error rendering the PDF preview:', error);
+      alert(`Could not render the PDF preview: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const outline = 1 / scale;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-1">
+          <button type="button" onClick={undo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)" className={toolButtonClass}>
+            <Undo2 className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={redo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)" className={toolButtonClass}>
+            <Redo2 className="h-4 w-4" />
+          </button>
+          <span className="w-px h-5 bg-gray-200 mx-1" />
+          {ALIGN_TOOLS.map(({ mode, label, icon: Icon }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => align(mode)}
+              disabled={selection.length === 0}
+              title={selection.length > 1 ? label : `${label} (to the certificate)`}
+              className={toolButtonClass}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+          <span className="w-px h-5 bg-gray-200 mx-1" />
+          {DISTRIBUTE_TOOLS.map(({ mode, label, icon: Icon }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => distribute(mode)}
+              disabled={selection.length < 3}
+              title={label}
+              className={toolButtonClass}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2 text-sm">
+          <label htmlFor="sampleRecipient" className="text-gray-500">Preview as</label>
+          <select
+            id="sampleRecipient"
+            value={sampleRecipientId}
+            onChange={(e) => setSampleRecipientId(e.target.value)}
+            className="border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          >
+            <option value="">Sample recipient</option>
+            {recipients.map(r => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={openPdfPreview}
+            className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            <Eye className="h-3 w-3 mr-1" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      <div ref={wrapperRef} className="w-full">
+        <div
+          ref={stageRef}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onPointerDown={() => setSelection([])}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="relative overflow-hidden rounded-md border border-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 select-none touch-none"
+          style={{ width: canvas.width * scale, height: canvas.height * scale }}
+        >
+          <div style={{ width: canvas.width, height: canvas.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+            <CertificateCanvas model={model} page={page} />
+            <div style={{ position: 'absolute', inset: 0, zIndex: 20 }}>
+              {fields.map(field => {
+                const box = bounds.get(field.id)!;
+                const isSelected = selection.includes(field.id);
+                return (
+                  <div
+                    key={field.id}
+                    title={field.name}
+                    onPointerDown={(e) => startDrag(e, 'move', field.id)}
+                    className={isSelected ? '' : 'hover:bg-gray-500/10'}
+                    style={{
+                      position: 'absolute',
+                      left: box.left,
+                      top: box.top,
+                      width: box.width,
+                      height: box.height,
+                      cursor: 'move',
+                      outline: `${outline}px ${isSelected ? 'solid #374151' : 'dashed rgba(107,114,128,0.6)'}`
+                    }}
+                  >
+                    {isSelected && selection.length === 1 && (
+                      <div
+                        title="Resize"
+                        onPointerDown={(e) => startDrag(e, 'resize', field.id)}
+                        style={{
+                          position: 'absolute',
+                          right: -5 * outline,
+                          bottom: -5 * outline,
+                          width: 10 * outline,
+                          height: 10 * outline,
+                          background: '#fff',
+                          border: `${outline}px solid #374151`,
+                          cursor: 'nwse-resize'
+                        }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {guides.x.map(x => (
+                <div key={`x${x}`} style={{ position: 'absolute', left: x, top: 0, bottom: 0, width: outline, background: '#ec4899' }} />
+              ))}
+              {guides.y.map(y => (
+                <div key={`y${y}`} style={{ position: 'absolute', top: y, left: 0, right: 0, height: outline, background: '#ec4899' }} />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag fields to move them and the corner handle to resize. Shift+click selects several; arrow keys
+        nudge by 1px (Shift: 10px). Hold Alt to move without snapping.
+      </p>
+    </div>
+  );
+};
+
+export default TemplateDesigner;
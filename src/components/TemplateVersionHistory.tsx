@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { useCertificateStore } from '../store/certificateStore';
+import { diffTemplateSnapshots, getTemplateVersions, TemplateChange } from '../utils/templateVersions';
+
+interface TemplateVersionHistoryProps {
+  templateId: string;
+  onRollback: () => void; // Called after a rollback, so the edit form can close over stale content
+}
+
+const CHANGE_STYLES: Record<TemplateChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-yellow-100 text-yellow-800'
+};
+
+/**
+ * Published versions of a template, newest first. Selecting one shows what it changed
+ * from the version before; rolling back publishes its content again as a new version.
+ */
+const TemplateVersionHistory: React.FC<TemplateVersionHistoryProps> = ({ templateId, onRollback }) => {
+  const { templates, templateVersions, rollbackTemplate } = useCertificateStore();
+  const versions = getTemplateVersions(templateVersions, templateId);
+  const current = templates.find(t => t.id === templateId)?.version;
+  const [selected, setSelected] = useState<number | null>(versions[0]?.version ?? null);
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No versions yet. Saving this template publishes its first version.
+      </p>
+    );
+  }
+
+  const selectedIndex = versions.findIndex(v => v.version === selected);
+  const selectedVersion = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+  const changes = selectedVersion && previous ? diffTemplateSnapshots(previous.snapshot, selectedVersion.snapshot) : [];
+
+  const handleRollback = (version: number) => {
+    if (window.confirm(`Publish the content of version ${version} as a new version? Certificates already issued keep their version.`)) {
+      rollbackTemplate(templateId, version);
+      onRollback();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+        {versions.map(version => (
+          <li key={version.id}>
+            <button
+              type="button"
+              onClick={() => setSelected(version.version)}
+              className={`w-full text-left px-3 py-2 ${version.version === selected ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                {version.version === current && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-800 text-white">
+                    Current
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {new Date(version.createdAt).toLocaleString()}
+                {version.note && ` · ${version.note}`}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="md:col-span-2 border border-gray-200 rounded-md p-4">
+        {selectedVersion ? (
+          <>
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">
+                {previous ? `Changes from version ${previous.version}` : 'First version'}
+              </h4>
+              {selectedVersion.version !== current && (
+                <button
+                  type="button"
+                  onClick={() => handleRollback(selectedVersion.version)}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  <RotateCcw className="mr-1 h-3 w-3" aria-hidden="true" />
+                  Roll back to this version
+                </button>
+              )}
+            </div>
+            {previous && changes.length === 0 && (
+              <p className="mt-3 text-sm text-gray-500">Same content as version {previous.version}.</p>
+            )}
+            {changes.length > 0 && (
+              <ul className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+                {changes.map((change, index) => (
+                  <li key={index} className="text-sm text-gray-700">
+                    <span className={`inline-flex px-2 py-0.5 mr-2 rounded text-xs font-medium ${CHANGE_STYLES[change.kind]}`}>
+                      {change.kind}
+                    </span>
+                    {change.label}
+                    {change.property && <span className="text-gray-500"> · {change.property}</span>}
+                    {change.kind === 'changed' && (
+                      <span className="block ml-2 text-xs text-gray-500">
+                        <span className="line-through">{change.before}</span> → {change.after}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 flex items-center">
+            <History className="mr-2 h-4 w-4" aria-hidden="true" />
+            Select a version to see what it changed.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVersionHistory;
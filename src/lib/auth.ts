@@ -0,0 +1,121 @@
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseAnonKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  created_at: string;
+  user_metadata?: Record<string, unknown>;
+  app_metadata?: Record<string, unknown>;
+}
+
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number; // Unix timestamp in seconds
+  user: AuthUser;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+  user: AuthUser;
+}
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Minimal GoTrue (Supabase Auth) client over the REST API.
+ * Mirrors the fetch-based SupabaseClient so we don't pull in supabase-js for auth alone.
+ */
+class SupabaseAuthClient {
+  private url: string;
+  private key: string;
+
+  constructor(url: string, key: string) {
+    this.url = url;
+    this.key = key;
+  }
+
+  private async request(method: string, endpoint: string, body?: unknown, accessToken?: string) {
+    const response = await fetch(`${this.url}/auth/v1/${endpoint}`, {
+      method,
+      headers: {
+        'apikey': this.key,
+        'Authorization': `Bearer ${accessToken || this.key}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        const parsed = JSON.parse(text);
+        message = parsed.error_description || parsed.msg || parsed.message || text;
+      } catch {
+        // Keep raw text
+      }
+      throw new AuthError(`Supabase auth error: ${message}`, response.status);
+    }
+
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  private toSession(data: TokenResponse): AuthSession {
+    return {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token,
+      expires_at: data.expires_at ?? Math.floor(Date.now() / 1000) + data.expires_in,
+      user: data.user
+    };
+  }
+
+  async signInWithPassword(email: string, password: string): Promise<AuthSession> {
+    const data = await this.request('POST', 'token?grant_type=password', { email, password });
+    return this.toSession(data);
+  }
+
+  /**
+   * Creates a new account. Returns null when the project requires email
+   * confirmation, since GoTrue does not issue a session until then.
+   */
+  async signUp(email: string, password: string, metadata?: Record<string, unknown>): Promise<AuthSession | null> {
+    const data = await this.request('POST', 'signup', { email, password, data: metadata });
+    return data?.access_token ? this.toSession(data) : null;
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthSession> {
+    const data = await this.request('POST', 'token?grant_type=refresh_token', { refresh_token: refreshToken });
+    return this.toSession(data);
+  }
+
+  async getUser(accessToken: string): Promise<AuthUser> {
+    return this.request('GET', 'user', undefined, accessToken);
+  }
+
+  /**
+   * Revokes the session server-side so the refresh token can no longer be used.
+   */
+  async signOut(accessToken: string) {
+    return this.request('POST', 'logout', undefined, accessToken);
+  }
+}
+
+export const supabaseAuth = new SupabaseAuthClient(supabaseUrl, supabaseAnonKey);
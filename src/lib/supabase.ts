@@ -1,3 +1,6 @@
+import { FontFormat, FontStyle, PageSize, TemplateField, TemplatePage, TemplateSnapshot } from '../types';
+import type { VerifiableCredential } from '../utils/verifiableCredential';
+
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -11,6 +14,7 @@ export interface DatabaseCertificate {
   recipient_name: string;
   recipient_email: string;
   recipient_id?: string | null;
+  recipient_ref?: string | null;
   course_name: string;
   template_id: string;
   issue_date: string;
@@ -19,10 +23,96 @@ export interface DatabaseCertificate {
   duration_hours?: number | null;
   certificate_pdf_url?: string | null;
   qr_code_data?: string | null;
-  status?: 'active' | 'revoked';
+  status?: 'pending' | 'active' | 'revoked';
   metadata?: Record<string, any> | null;
   created_at?: string;
   created_by?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  revoked_by?: string | null;
+  revoked_at?: string | null;
+  revocation_reason?: string | null;
+  expires_at?: string | null;
+  renewal_of?: string | null;
+  template_version?: number | null;
+  signature?: string | null;
+  signature_key_id?: string | null;
+  credential?: VerifiableCredential | null;
+  badge_credential?: VerifiableCredential | null;
+}
+
+export interface SignCertificateResponse {
+  payload: string;
+  signature: string;
+  key_id: string;
+  qr_code_data: string;
+}
+
+export interface DatabaseTemplate {
+  id: string;
+  name: string;
+  image_url: string;
+  fields: TemplateField[];
+  width?: number | null;
+  height?: number | null;
+  validity_months?: number | null;
+  criteria?: string | null;
+  pages?: TemplatePage[] | null;
+  page_size?: PageSize | null;
+  version?: number | null;
+  deleted_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DatabaseTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  snapshot: TemplateSnapshot;
+  note?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface DatabaseSigner {
+  id: string;
+  name: string;
+  title?: string | null;
+  signature_url: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DatabaseFont {
+  id: string;
+  family: string;
+  style: FontStyle;
+  url: string;
+  format: FontFormat;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DatabaseRecipient {
+  id: string;
+  name: string;
+  email?: string | null;
+  course?: string | null;
+  issue_date: string;
+  custom_fields?: Record<string, string> | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DatabaseCollection {
+  id: string;
+  name: string;
+  description?: string | null;
+  template_id?: string | null;
+  certificate_ids: string[];
+  created_at?: string;
+  updated_at?: string;
 }
 
 export interface DatabaseCertificateClaim {
@@ -35,23 +125,54 @@ export interface DatabaseCertificateClaim {
   validation_notes?: string | null;
 }
 
+/**
+ * Returns the signed-in user's access token, or null for anonymous requests.
+ */
+export type AccessTokenProvider = () => Promise<string | null>;
+
 class SupabaseClient {
   private url: string;
   private key: string;
+  private accessTokenProvider: AccessTokenProvider | null;
 
-  constructor(url: string, key: string) {
+  constructor(url: string, key: string, accessTokenProvider?: AccessTokenProvider) {
     this.url = url;
     this.key = key;
+    this.accessTokenProvider = accessTokenProvider || null;
+  }
+
+  setAccessTokenProvider(provider: AccessTokenProvider | null) {
+    this.accessTokenProvider = provider;
+  }
+
+  /**
+   * Headers for any Supabase API call (REST or Storage). Falls back to the anon key
+   * when nobody is signed in, so public verification keeps working.
+   */
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    let accessToken: string | null = null;
+    if (this.accessTokenProvider) {
+      try {
+        accessToken = await this.accessTokenProvider();
+      } catch (error) {
+        console.error('Failed to obtain access token, using anon key:', error);
+      }
+    }
+
+    return {
+      'apikey': this.key,
+      'Authorization': `Bearer ${accessToken || this.key}`
+    };
   }
 
-  private async request(method: string, endpoint: string, body?: any) {
+  private async request(method: string, endpoint: string, body?: any, prefer = 'return=representation') {
+    const authHeaders = await this.getAuthHeaders();
     const response = await fetch(`${this.url}/rest/v1/${endpoint}`, {
       method,
       headers: {
-        'apikey': this.key,
-        'Authorization': `Bearer ${this.key}`,
+        ...authHeaders,
         'Content-Type': 'application/json',
-        'Prefer': 'return=representation'
+        'Prefer': prefer
       },
       body: body ? JSON.stringify(body) : undefined
     });
@@ -65,9 +186,17 @@ class SupabaseClient {
     return text ? JSON.parse(text) : null;
   }
 
+  /**
+   * Inserting a code that already exists is a no-op, so a retried issuance never duplicates a row.
+   */
   async insertCertificate(certificate: DatabaseCertificate) {
     try {
-      const result = await this.request('POST', 'certificates', certificate);
+      const result = await this.request(
+        'POST',
+        'certificates?on_conflict=certificate_code',
+        certificate,
+        'resolution=ignore-duplicates,return=representation'
+      );
       console.log('Certificate saved to database:', result);
       return result;
     } catch (error) {
@@ -103,32 +232,213 @@ class SupabaseClient {
     );
   }
 
-  async updateCertificatePDFUrl(certificateCode: string, pdfUrl: string) {
-    try {
-      const result = await this.request(
-        'PATCH',
-        `certificates?certificate_code=eq.${certificateCode}`,
-        { certificate_pdf_url: pdfUrl }
-      );
-      console.log('Certificate PDF URL updated:', result);
-      return result;
-    } catch (error) {
-      console.error('Failed to update certificate PDF URL:', error);
-      throw error;
+  /**
+   * Fails when no row was updated (a missing certificate, or one RLS hides), so callers
+   * never treat the PDF as linked when it isn't.
+   */
+  /**
+   * Points the certificate at its uploaded PDF. Goes through the `link-certificate-pdf`
+   * Edge Function, since issuers can't update a draft once a reviewer approved it.
+   */
+  async linkCertificatePDF(certificateCode: string): Promise<DatabaseCertificate> {
+    const response = await fetch(`${this.url}/functions/v1/link-certificate-pdf`, {
+      method: 'POST',
+      headers: {
+        ...(await this.getAuthHeaders()),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ certificate_code: certificateCode })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Linking the PDF failed: ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Approves the pending certificates among `certificateCodes` and returns the rows it
+   * approved. Codes that were already approved, revoked or deleted are left out.
+   */
+  async approveCertificates(certificateCodes: string[], reviewerId: string): Promise<DatabaseCertificate[]> {
+    const codes = certificateCodes.map(code => `"${code}"`).join(',');
+    return this.request(
+      'PATCH',
+      `certificates?certificate_code=in.(${codes})&status=eq.pending`,
+      { status: 'active', reviewed_by: reviewerId, reviewed_at: new Date().toISOString() }
+    );
+  }
+
+  async revokeCertificate(certificateCode: string, reason: string, revokedBy: string): Promise<DatabaseCertificate> {
+    const data = await this.request(
+      'PATCH',
+      `certificates?certificate_code=eq.${certificateCode}&status=neq.revoked`,
+      {
+        status: 'revoked',
+        revocation_reason: reason,
+        revoked_by: revokedBy,
+        revoked_at: new Date().toISOString()
+      }
+    );
+
+    if (!data || data.length === 0) {
+      throw new Error(`Certificate ${certificateCode} was not found or is already revoked`);
+    }
+    return data[0];
+  }
+
+  /**
+   * Signs a recorded certificate with the organization key. The key never leaves the
+   * `sign-certificate` Edge Function, which signs the row as stored in the database.
+   */
+  async signCertificate(certificateCode: string): Promise<SignCertificateResponse> {
+    const response = await fetch(`${this.url}/functions/v1/sign-certificate`, {
+      method: 'POST',
+      headers: {
+        ...(await this.getAuthHeaders()),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ certificate_code: certificateCode })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Signing failed: ${await response.text()}`);
     }
+    return response.json();
+  }
+
+  /**
+   * The certificate issued to replace `certificateCode`, if it has been renewed.
+   */
+  async getRenewalOf(certificateCode: string): Promise<DatabaseCertificate | null> {
+    const data = await this.request(
+      'GET',
+      `certificates?renewal_of=eq.${certificateCode}&status=eq.active&select=*&order=created_at.desc&limit=1`
+    );
+    return data && data.length > 0 ? data[0] : null;
   }
 
   async getAllCertificates(): Promise<DatabaseCertificate[]> {
-    const data = await this.request('GET', 'certificates?status=eq.active&select=*&order=created_at.desc');
+    const data = await this.request('GET', 'certificates?select=*&order=created_at.desc');
     return data || [];
   }
 
+  /**
+   * Hard-deletes the row. Issued certificates should be revoked instead so verification keeps explaining why.
+   */
   async deleteCertificate(certificateCode: string) {
     return this.request(
       'DELETE',
       `certificates?certificate_code=eq.${certificateCode}`
     );
   }
+
+  /**
+   * Insert-or-update by primary key, so replaying a queued offline change is idempotent.
+   */
+  private async upsert<T>(table: string, rows: T[]): Promise<T[]> {
+    const data = await this.request('POST', table, rows, 'resolution=merge-duplicates,return=representation');
+    return data || [];
+  }
+
+  async getTemplates(): Promise<DatabaseTemplate[]> {
+    const data = await this.request('GET', 'templates?deleted_at=is.null&select=*&order=created_at.asc');
+    return data || [];
+  }
+
+  async getTemplate(id: string): Promise<DatabaseTemplate | null> {
+    const data = await this.request('GET', `templates?id=eq.${encodeURIComponent(id)}&select=*`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async upsertTemplates(templates: DatabaseTemplate[]) {
+    return this.upsert('templates', templates);
+  }
+
+  /**
+   * Soft delete: the row and its versions stay, so certificates issued with the
+   * template still render and verify.
+   */
+  async deleteTemplate(id: string) {
+    return this.request('PATCH', `templates?id=eq.${encodeURIComponent(id)}`, { deleted_at: new Date().toISOString() });
+  }
+
+  async getTemplateVersions(templateId?: string): Promise<DatabaseTemplateVersion[]> {
+    const filter = templateId ? `template_id=eq.${encodeURIComponent(templateId)}&` : '';
+    const data = await this.request('GET', `template_versions?${filter}select=*&order=version.asc`);
+    return data || [];
+  }
+
+  /**
+   * Versions are immutable: inserting a version number that is already taken fails
+   * instead of overwriting or silently dropping it.
+   */
+  async insertTemplateVersions(versions: DatabaseTemplateVersion[]) {
+    if (versions.length === 0) return [];
+    return this.request('POST', 'template_versions', versions, 'return=minimal');
+  }
+
+  /**
+   * Points a recorded version's data URL images at their storage copies, the only change
+   * the database accepts to a published version. Returns no rows when the version isn't
+   * recorded yet.
+   */
+  async updateTemplateVersionImages(id: string, snapshot: TemplateSnapshot): Promise<DatabaseTemplateVersion[]> {
+    const data = await this.request('PATCH', `template_versions?id=eq.${encodeURIComponent(id)}`, { snapshot });
+    return data || [];
+  }
+
+  async getSigners(): Promise<DatabaseSigner[]> {
+    const data = await this.request('GET', 'signers?select=*&order=created_at.asc');
+    return data || [];
+  }
+
+  async upsertSigners(signers: DatabaseSigner[]) {
+    return this.upsert('signers', signers);
+  }
+
+  async deleteSigner(id: string) {
+    return this.request('DELETE', `signers?id=eq.${encodeURIComponent(id)}`);
+  }
+
+  async getFonts(): Promise<DatabaseFont[]> {
+    const data = await this.request('GET', 'fonts?select=*&order=created_at.asc');
+    return data || [];
+  }
+
+  async upsertFonts(fonts: DatabaseFont[]) {
+    return this.upsert('fonts', fonts);
+  }
+
+  async deleteFont(id: string) {
+    return this.request('DELETE', `fonts?id=eq.${encodeURIComponent(id)}`);
+  }
+
+  async getRecipients(): Promise<DatabaseRecipient[]> {
+    const data = await this.request('GET', 'recipients?select=*&order=created_at.asc');
+    return data || [];
+  }
+
+  async upsertRecipients(recipients: DatabaseRecipient[]) {
+    return this.upsert('recipients', recipients);
+  }
+
+  async deleteRecipient(id: string) {
+    return this.request('DELETE', `recipients?id=eq.${encodeURIComponent(id)}`);
+  }
+
+  async getCollections(): Promise<DatabaseCollection[]> {
+    const data = await this.request('GET', 'collections?select=*&order=created_at.asc');
+    return data || [];
+  }
+
+  async upsertCollections(collections: DatabaseCollection[]) {
+    return this.upsert('collections', collections);
+  }
+
+  async deleteCollection(id: string) {
+    return this.request('DELETE', `collections?id=eq.${encodeURIComponent(id)}`);
+  }
 }
 
 export const supabase = new SupabaseClient(supabaseUrl, supabaseAnonKey);
@@ -1,12 +1,25 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Download, ChevronUp, ChevronDown, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Download, ChevronUp, ChevronDown, Search, ChevronLeft, ChevronRight, RotateCw, Ban, Award } from 'lucide-react';
 import { useCertificateStore } from '../store/certificateStore';
-import { generateCertificatePDF, downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import { useAuthStore } from '../store/authStore';
+import { canAccessRoute, canRevokeCertificates, requiresReview } from '../utils/permissions';
+import { isCertificateExpired, isCertificateExpiringSoon } from '../utils/certificateHelpers';
+import { BulkDownloadProgress, downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import DownloadProgress from '../components/DownloadProgress';
 import { downloadCertificatePDF, getCertificatePDFUrl } from '../utils/certificateStorage';
 import { supabase } from '../lib/supabase';
+import { ISSUANCE_STAGE_LABELS, isAwaitingReview, isJobActive } from '../utils/issuanceQueue';
+import { downloadBadge } from '../utils/openBadges';
 
 const Certificates: React.FC = () => {
-  const { certificates, recipients, templates } = useCertificateStore();
+  const { certificates, recipients, templates, templateVersions, signers, fonts, issuanceJobs, retryIssuance, clearCompletedIssuance, revokeCertificate, renewCertificate } = useCertificateStore();
+  const { user } = useAuthStore();
+  const canRevoke = canRevokeCertificates(user);
+  const canRenew = canAccessRoute(user, '/dashboard/create');
+  const [revokingCertificateId, setRevokingCertificateId] = useState<string | null>(null);
+  const [revocationReason, setRevocationReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState('');
   const [sortField, setSortField] = useState<'course' | 'name' | 'date'>('date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [groupByCourse, setGroupByCourse] = useState(false);
@@ -14,9 +27,22 @@ const Certificates: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
   const [selectedCourse, setSelectedCourse] = useState<string>('');
-  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<BulkDownloadProgress | null>(null);
+  const downloadController = useRef<AbortController | null>(null);
   const [selectedCertificates, setSelectedCertificates] = useState<string[]>([]);
 
+  const jobsByCertificate = useMemo(
+    () => new Map(issuanceJobs.map(job => [job.certificateId, job])),
+    [issuanceJobs]
+  );
+  const inProgressCount = issuanceJobs.filter(job => isJobActive(job) && !isAwaitingReview(job)).length;
+  const failedCount = issuanceJobs.filter(job => job.failed).length;
+  const completedCount = issuanceJobs.filter(job => job.stage === 'linked').length;
+  const renewedIds = useMemo(
+    () => new Set(certificates.map(c => c.renewalOf).filter(Boolean)),
+    [certificates]
+  );
+
   const handleSort = (field: typeof sortField) => {
     if (sortField === field) {
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
@@ -115,6 +141,43 @@ const Certificates: React.FC = () => {
     }
   };
 
+  const handleDownloadBadge = async (certificateId: string) => {
+    try {
+      const row = await supabase.getCertificateByCode(certificateId);
+      if (!row?.badge_credential) {
+        alert('Este certificado todavía no tiene una insignia Open Badges firmada.');
+        return;
+      }
+      await downloadBadge(certificateId, row.badge_credential, 'png');
+    } catch (error) {
+      console.error('Error downloading badge:', error);
+      alert('No se pudo descargar la insignia. Por favor, inténtelo de nuevo.');
+    }
+  };
+
+  const openRevokeDialog = (certificateId: string) => {
+    setRevokingCertificateId(certificateId);
+    setRevocationReason('');
+    setRevokeError('');
+  };
+
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!revokingCertificateId || !user || !revocationReason.trim()) return;
+
+    setIsRevoking(true);
+    setRevokeError('');
+    try {
+      await revokeCertificate(revokingCertificateId, revocationReason.trim(), user.id);
+      setRevokingCertificateId(null);
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      setRevokeError('No se pudo revocar el certificado. Intenta de nuevo.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
   const toggleCertificateSelection = (certificateId: string) => {
     setSelectedCertificates(prev =>
       prev.includes(certificateId)
@@ -124,13 +187,24 @@ const Certificates: React.FC = () => {
   };
 
   const handleDownloadSelected = async () => {
-    setIsDownloading(true);
     const certsToDownload = certificates.filter(cert =>
       selectedCertificates.includes(cert.id)
-    );  
-    if (certsToDownload.length === 0) return;
-    await downloadAllCertificatesAsPDF(certsToDownload, recipients, templates);
-    setIsDownloading(false);
+    );
+    if (certsToDownload.length === 0 || downloadController.current) return;
+    const controller = new AbortController();
+    downloadController.current = controller;
+    try {
+      await downloadAllCertificatesAsPDF(certsToDownload, recipients, templates, {
+        onProgress: setDownloadProgress,
+        signal: controller.signal,
+        signers,
+        fonts,
+        templateVersions
+      });
+    } finally {
+      downloadController.current = null;
+      setDownloadProgress(null);
+    }
   };
 
   const areAllVisibleSelected = () => {
@@ -219,15 +293,42 @@ const Certificates: React.FC = () => {
         </button>
         <button
           onClick={handleDownloadSelected}
-          disabled={selectedCertificates.length === 0 || isDownloading}
+          disabled={selectedCertificates.length === 0 || downloadProgress !== null}
           className={`px-4 py-2 rounded text-white
-                      ${isDownloading ? 'bg-gray-300 cursor-wait' : 'bg-gray-600'}
+                      ${downloadProgress ? 'bg-gray-300 cursor-wait' : 'bg-gray-600'}
                       disabled:opacity-50`}
         >
-          {isDownloading ? 'Generando…' : 'Descargar certificados seleccionados'}
+          {downloadProgress ? 'Generando…' : 'Descargar certificados seleccionados'}
         </button>
       </div>
 
+      {downloadProgress && (
+        <DownloadProgress
+          progress={downloadProgress}
+          onCancel={() => downloadController.current?.abort()}
+        />
+      )}
+
+      {issuanceJobs.length > 0 && (
+        <div className={`rounded-xl p-4 border flex items-center justify-between ${
+          failedCount > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+        }`}>
+          <p className={`text-sm ${failedCount > 0 ? 'text-red-700' : 'text-gray-700'}`}>
+            {inProgressCount > 0 && `${inProgressCount} certificado(s) en proceso de emisión. `}
+            {failedCount > 0 && `${failedCount} certificado(s) no se pudieron emitir; revisa el estado y reintenta. `}
+            {inProgressCount === 0 && failedCount === 0 && 'Todos los certificados se emitieron correctamente.'}
+          </p>
+          {completedCount > 0 && (
+            <button
+              onClick={clearCompletedIssuance}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-100"
+            >
+              Limpiar completados
+            </button>
+          )}
+        </div>
+      )}
+
       {Object.entries(paginatedCertificates).map(([group, groupCertificates]) => (
         <div key={group} className="bg-white shadow-sm rounded-lg overflow-hidden">
           {groupByCourse && (
@@ -269,6 +370,9 @@ const Certificates: React.FC = () => {
                       )}
                     </div>
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Estado
+                  </th>
                   <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Acciones
                   </th>
@@ -280,6 +384,7 @@ const Certificates: React.FC = () => {
                   if (!recipient) return null;
 
                   const absoluteIndex = (currentPage - 1) * itemsPerPage + index + 1;
+                  const job = jobsByCertificate.get(certificate.id);
 
                   return (
                     <tr key={certificate.id} className="hover:bg-gray-50">
@@ -295,6 +400,48 @@ const Certificates: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {recipient.name}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {/* Certificates without a job were issued before the queue existed or already cleared */}
+                        {certificate.status === 'revoked' ? (
+                          <span
+                            className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                            title={certificate.revocation?.reason}
+                          >
+                            Revocado
+                          </span>
+                        ) : !job || job.stage === 'linked' || isAwaitingReview(job) ? (
+                          <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            {certificate.status === 'draft'
+                              ? 'Pendiente de revisión'
+                              : isCertificateExpired(certificate) ? 'Vencido' : 'Emitido'}
+                          </span>
+                        ) : job.failed ? (
+                          <span className="inline-flex items-center" title={job.lastError}>
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              Error: {ISSUANCE_STAGE_LABELS[job.stage]}
+                            </span>
+                            <button
+                              onClick={() => retryIssuance(certificate.id)}
+                              className="ml-2 p-1 text-gray-500 hover:text-gray-700"
+                              title="Reintentar"
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </button>
+                          </span>
+                        ) : (
+                          <span
+                            className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                            title={job.lastError ? `Reintentando (${job.attempts}): ${job.lastError}` : undefined}
+                          >
+                            {ISSUANCE_STAGE_LABELS[job.stage]}{job.attempts > 0 && ' · reintentando'}
+                          </span>
+                        )}
+                        {certificate.expiresAt && certificate.status !== 'revoked' && (
+                          <p className={`mt-1 text-xs ${isCertificateExpired(certificate) ? 'text-red-600' : 'text-gray-500'}`}>
+                            Válido hasta {new Date(certificate.expiresAt).toLocaleDateString('es-ES')}
+                          </p>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <input
                           type="checkbox"
@@ -309,6 +456,35 @@ const Certificates: React.FC = () => {
                           <Download className="mr-2 h-4 w-4" />
                           PDF
                         </button>
+                        {certificate.status === 'published' && (
+                          <button
+                            onClick={() => handleDownloadBadge(certificate.id)}
+                            title="Open Badge (PNG con la credencial firmada)"
+                            className="ml-2 inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                          >
+                            <Award className="mr-2 h-4 w-4" />
+                            Badge
+                          </button>
+                        )}
+                        {canRenew && certificate.status === 'published' && !renewedIds.has(certificate.id) &&
+                          (isCertificateExpired(certificate) || isCertificateExpiringSoon(certificate)) && (
+                          <button
+                            onClick={() => renewCertificate(certificate.id, { requiresReview: requiresReview(user) })}
+                            className="ml-2 inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                          >
+                            <RotateCw className="mr-2 h-4 w-4" />
+                            Renovar
+                          </button>
+                        )}
+                        {canRevoke && certificate.status !== 'revoked' && job?.stage !== 'pending' && (
+                          <button
+                            onClick={() => openRevokeDialog(certificate.id)}
+                            className="ml-2 inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                          >
+                            <Ban className="mr-2 h-4 w-4" />
+                            Revocar
+                          </button>
+                        )}
                       </td>
                     </tr>
                   );
@@ -319,6 +495,49 @@ const Certificates: React.FC = () => {
         </div>
       ))}
 
+      {revokingCertificateId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleRevoke} className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <h2 className="text-xl font-bold text-gray-900">Revocar certificado</h2>
+            <p className="text-sm text-gray-600">
+              El certificado <span className="font-mono">{revokingCertificateId}</span> seguirá apareciendo en la
+              página de verificación, marcado como revocado junto con el motivo. Esta acción no se puede deshacer.
+            </p>
+            <div>
+              <label htmlFor="revocation-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                Motivo de la revocación
+              </label>
+              <textarea
+                id="revocation-reason"
+                value={revocationReason}
+                onChange={(e) => setRevocationReason(e.target.value)}
+                rows={3}
+                required
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+              />
+            </div>
+            {revokeError && <p className="text-sm text-red-600">{revokeError}</p>}
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setRevokingCertificateId(null)}
+                disabled={isRevoking}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isRevoking || !revocationReason.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                {isRevoking ? 'Revocando…' : 'Revocar'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {totalPages > 1 && (
         <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6 rounded-lg">
           <div className="flex-1 flex justify-between sm:hidden">
@@ -2,17 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ChevronRight, Award, Save, Users, FileSpreadsheet, Share2, Download, CheckCircle, ArrowLeft, Sparkles, FileText, Plus } from 'lucide-react';
 import { useCertificateStore } from '../store/certificateStore';
+import { useAuthStore } from '../store/authStore';
+import { requiresReview } from '../utils/permissions';
 import TemplateCard from '../components/TemplateCard';
 import RecipientForm from '../components/RecipientForm';
 import CertificatePreview from '../components/CertificatePreview';
 import BulkUpload from '../components/BulkUpload';
-import { toPng } from 'html-to-image';
-import { generateCertificatePDF, downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import { downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import { buildRenderModel } from '../utils/certificateRenderer';
+import { renderModelToPNG } from '../utils/canvasRenderer';
 import { downloadCertificatePDF } from '../utils/certificateStorage';
 
 export default function CreateCertificate() {
   const {
     templates,
+    templateVersions,
+    signers,
+    fonts,
     recipients,
     certificates,
     currentTemplateId,
@@ -21,6 +27,8 @@ export default function CreateCertificate() {
     generateCertificate,
     generateBulkCertificates
   } = useCertificateStore();
+  const { user } = useAuthStore();
+  const needsReview = requiresReview(user);
   
   const [activeStep, setActiveStep] = useState(1);
   const [currentRecipientId, setCurrentRecipientId] = useState<string | null>(null);
@@ -31,6 +39,7 @@ export default function CreateCertificate() {
   const [certificateImage, setCertificateImage] = useState<string | null>(null);
   const [isSharing, setIsSharing] = useState(false);
   const [isDownloadingBulk, setIsDownloadingBulk] = useState(false);
+  const [expiresOn, setExpiresOn] = useState(''); // yyyy-mm-dd; empty uses the template's validity
   
   useEffect(() => {
     if (!currentTemplateId && templates.length > 0) {
@@ -40,6 +49,7 @@ export default function CreateCertificate() {
   
   const currentTemplate = templates.find(t => t.id === currentTemplateId);
   const currentRecipient = recipients.find(r => r.id === currentRecipientId);
+  const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined;
   
   const handleRecipientSubmit = (data: Omit<typeof currentRecipient, 'id'>) => {
     setFormData(data);
@@ -56,21 +66,16 @@ export default function CreateCertificate() {
   const handleGenerateCertificate = async () => {
     if (!currentTemplateId || !currentRecipientId) return;
     
-    const certificateId = generateCertificate(currentRecipientId, currentTemplateId);
+    const certificateId = generateCertificate(currentRecipientId, currentTemplateId, { requiresReview: needsReview, expiresAt });
     setGeneratedCertificateIds([certificateId]);
     
-    // Generate certificate image for preview
-    setTimeout(async () => {
-      const certificateElement = document.querySelector('.certificate-preview');
-      if (certificateElement) {
-        try {
-          const dataUrl = await toPng(certificateElement as HTMLElement, { quality: 0.95 });
-          setCertificateImage(dataUrl);
-        } catch (error) {
-          console.error('Error generating certificate image:', error);
-        }
-      }
-    }, 500);
+    // Generate certificate image for preview with the same renderer as the uploaded PDF
+    const certificate = useCertificateStore.getState().certificates.find(c => c.id === certificateId);
+    if (certificate && currentTemplate && currentRecipient) {
+      renderModelToPNG(buildRenderModel(currentTemplate, currentRecipient, certificate, signers, fonts))
+        .then(blob => setCertificateImage(URL.createObjectURL(blob)))
+        .catch(error => console.error('Error generating certificate image:', error));
+    }
     
     setShowSuccess(true);
   };
@@ -78,7 +83,7 @@ export default function CreateCertificate() {
   const handleBulkGenerate = (recipientIds: string[]) => {
     if (!currentTemplateId) return;
     
-    const certificateIds = generateBulkCertificates(recipientIds, currentTemplateId);
+    const certificateIds = generateBulkCertificates(recipientIds, currentTemplateId, { requiresReview: needsReview, expiresAt });
     setGeneratedCertificateIds(certificateIds);
     setShowSuccess(true);
   };
@@ -125,7 +130,7 @@ export default function CreateCertificate() {
         generatedCertificateIds.includes(cert.id)
       );
       
-      await downloadAllCertificatesAsPDF(generatedCertificates, recipients, templates);
+      await downloadAllCertificatesAsPDF(generatedCertificates, recipients, templates, { signers, fonts, templateVersions });
     } catch (error) {
       console.error('Error downloading bulk certificates:', error);
       alert('Error al descargar los certificados. Por favor, inténtelo de nuevo.');
@@ -268,6 +273,27 @@ export default function CreateCertificate() {
                   </div>
                 )}
                 
+                {templates.length > 0 && currentTemplateId && (
+                  <div className="mt-6 max-w-xs">
+                    <label htmlFor="expiresOn" className="block text-sm font-medium text-gray-700">
+                      Fecha de expiración (opcional)
+                    </label>
+                    <input
+                      type="date"
+                      id="expiresOn"
+                      value={expiresOn}
+                      min={new Date().toISOString().split('T')[0]}
+                      onChange={(e) => setExpiresOn(e.target.value)}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      {currentTemplate?.validityMonths
+                        ? `Si se deja vacía, vence a los ${currentTemplate.validityMonths} meses de la emisión.`
+                        : 'Si se deja vacía, el certificado no vence.'}
+                    </p>
+                  </div>
+                )}
+                
                 {templates.length > 0 && currentTemplateId && (
                   <div className="mt-6 flex justify-end">
                     <button
@@ -364,7 +390,7 @@ export default function CreateCertificate() {
                   <CertificatePreview
                     template={currentTemplate}
                     recipient={currentRecipient}
-                    qrCodeUrl={`${window.location.origin}/verify/preview`}
+                    verificationUrl={`${window.location.origin}/verify/preview`}
                   />
                 )}
                 
@@ -402,6 +428,7 @@ export default function CreateCertificate() {
                 ? `Se generaron ${generatedCertificateIds.length} certificados exitosamente.`
                 : 'El certificado se generó exitosamente.'
               }
+              {needsReview && ' Quedará pendiente hasta que un revisor lo apruebe para su publicación.'}
             </p>
           </div>
           <div className="p-6">
@@ -1,12 +1,26 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Award, FileSpreadsheet, FileText, Users, Download, ChevronRight, TrendingUp, Clock, CheckCircle, Plus, Shield, Search, TestTube } from 'lucide-react';
+import { Award, FileSpreadsheet, FileText, Users, Download, ChevronRight, TrendingUp, Clock, CheckCircle, Plus, Shield, Search, TestTube, RotateCw } from 'lucide-react';
 import { useCertificateStore } from '../store/certificateStore';
-import { downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import { useAuthStore } from '../store/authStore';
+import { canAccessRoute, requiresReview } from '../utils/permissions';
+import {
+  CERTIFICATE_STATUS_LABELS,
+  EXPIRING_SOON_DAYS,
+  isCertificateExpired,
+  isCertificateExpiringSoon
+} from '../utils/certificateHelpers';
+import { BulkDownloadProgress, downloadAllCertificatesAsPDF } from '../utils/certificateGenerator';
+import DownloadProgress from '../components/DownloadProgress';
 import { testStorageUpload, testPDFGeneration } from '../utils/testStorage';
 
 const Dashboard: React.FC = () => {
-  const { templates, recipients, certificates } = useCertificateStore();
+  const { templates, templateVersions, signers, fonts, recipients, certificates, renewCertificate } = useCertificateStore();
+  const { user } = useAuthStore();
+  const canCreate = canAccessRoute(user, '/dashboard/create');
+  const [certificateFilter, setCertificateFilter] = useState<'recent' | 'expiring' | 'expired'>('recent');
+  const [downloadProgress, setDownloadProgress] = useState<BulkDownloadProgress | null>(null);
+  const downloadController = useRef<AbortController | null>(null);
   
   const stats = [
     { 
@@ -41,19 +55,44 @@ const Dashboard: React.FC = () => {
     }
   ];
   
-  const latestCertificates = certificates
+  const latestCertificates = [...certificates]
     .sort((a, b) => new Date(b.issueDate).getTime() - new Date(a.issueDate).getTime())
     .slice(0, 5);
 
+  // Certificates that were already renewed no longer need attention
+  const renewedIds = new Set(certificates.map(c => c.renewalOf).filter(Boolean));
+  const needsRenewal = certificates.filter(c => c.status !== 'revoked' && !renewedIds.has(c.id));
+  const filteredCertificates = certificateFilter === 'recent'
+    ? latestCertificates
+    : needsRenewal
+        .filter(c => certificateFilter === 'expired' ? isCertificateExpired(c) : isCertificateExpiringSoon(c))
+        .sort((a, b) => new Date(a.expiresAt!).getTime() - new Date(b.expiresAt!).getTime());
+
   const recentActivity = certificates.length > 0 ? certificates.length : 0;
   const completionRate = recipients.length > 0 ? Math.round((certificates.length / recipients.length) * 100) : 0;
   
+  const handleRenew = (certificateId: string) => {
+    renewCertificate(certificateId, { requiresReview: requiresReview(user) });
+  };
+  
   const handleDownloadAll = async () => {
+    if (downloadController.current) return;
+    const controller = new AbortController();
+    downloadController.current = controller;
     try {
-      await downloadAllCertificatesAsPDF(certificates, recipients, templates);
+      await downloadAllCertificatesAsPDF(certificates, recipients, templates, {
+        onProgress: setDownloadProgress,
+        signal: controller.signal,
+        signers,
+        fonts,
+        templateVersions
+      });
     } catch (error) {
       console.error('Error al descargar los certificados:', error);
       alert('Hubo un error al descargar los certificados. Por favor, inténtelo de nuevo.');
+    } finally {
+      downloadController.current = null;
+      setDownloadProgress(null);
     }
   };
   
@@ -76,7 +115,8 @@ const Dashboard: React.FC = () => {
               {certificates.length > 0 && (
                 <button
                   onClick={handleDownloadAll}
-                  className="inline-flex items-center px-6 py-3 bg-white bg-opacity-20 backdrop-blur-sm text-white text-sm font-medium rounded-xl hover:bg-opacity-30 focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-50 transition-all duration-200"
+                  disabled={downloadProgress !== null}
+                  className="disabled:opacity-50 inline-flex items-center px-6 py-3 bg-white bg-opacity-20 backdrop-blur-sm text-white text-sm font-medium rounded-xl hover:bg-opacity-30 focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-50 transition-all duration-200"
                 >
                   <Download className="mr-2 h-5 w-5" />
                   Descargar todos los PDF
@@ -89,20 +129,30 @@ const Dashboard: React.FC = () => {
                 <Shield className="mr-2 h-5 w-5" />
                 Verificar Certificado
               </Link>
-              <Link
-                to="/dashboard/create"
-                className="inline-flex items-center px-6 py-3 bg-white text-sm font-medium rounded-xl hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
-                style={{ color: '#232831' }}
-              >
-                <Plus className="mr-2 h-5 w-5" />
-                Crear Certificado
-              </Link>
+              {canCreate && (
+                <Link
+                  to="/dashboard/create"
+                  className="inline-flex items-center px-6 py-3 bg-white text-sm font-medium rounded-xl hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+                  style={{ color: '#232831' }}
+                >
+                  <Plus className="mr-2 h-5 w-5" />
+                  Crear Certificado
+                </Link>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      {downloadProgress && (
+        <DownloadProgress
+          progress={downloadProgress}
+          onCancel={() => downloadController.current?.abort()}
+        />
+      )}
+
       {/* Diagnostic Tools */}
+      {canCreate && (
       <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-yellow-900 mb-4 flex items-center">
           <TestTube className="mr-2 h-5 w-5" />
@@ -126,6 +176,7 @@ const Dashboard: React.FC = () => {
           </button>
         </div>
       </div>
+      )}
 
       {/* Enhanced stats cards */}
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -202,21 +253,36 @@ const Dashboard: React.FC = () => {
         <div className="px-6 py-6 bg-gradient-to-r from-gray-50 to-gray-50 border-b border-gray-200 flex justify-between items-center">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">Certificados Recientes</h2>
-            <p className="text-gray-600 mt-1">Últimos certificados generados</p>
+            <p className="text-gray-600 mt-1">
+              {certificateFilter === 'recent' && 'Últimos certificados generados'}
+              {certificateFilter === 'expiring' && `Certificados que vencen en los próximos ${EXPIRING_SOON_DAYS} días`}
+              {certificateFilter === 'expired' && 'Certificados vencidos sin renovar'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={certificateFilter}
+              onChange={(e) => setCertificateFilter(e.target.value as typeof certificateFilter)}
+              className="border border-gray-300 rounded-xl py-2 px-3 text-sm text-gray-700 focus:outline-none focus:ring-gray-500 focus:border-gray-500"
+            >
+              <option value="recent">Recientes</option>
+              <option value="expiring">Por vencer</option>
+              <option value="expired">Vencidos</option>
+            </select>
+            <Link
+              to="/dashboard/certificates"
+              className="inline-flex items-center text-white px-4 py-2 text-sm font-medium rounded-xl hover:opacity-90 transition-colors duration-200 shadow-lg hover:shadow-xl"
+              style={{ backgroundColor: "#232831" }}
+            >
+              Ver todos
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Link>
           </div>
-          <Link
-            to="/dashboard/certificates"
-            className="inline-flex items-center text-white px-4 py-2 text-sm font-medium rounded-xl hover:opacity-90 transition-colors duration-200 shadow-lg hover:shadow-xl"
-            style={{ backgroundColor: "#232831" }}
-          >
-            Ver todos
-            <ChevronRight className="ml-1 h-4 w-4" />
-          </Link>
         </div>
         <div>
-          {latestCertificates.length > 0 ? (
+          {filteredCertificates.length > 0 ? (
             <ul className="divide-y divide-gray-100">
-              {latestCertificates.map((certificate) => {
+              {filteredCertificates.map((certificate) => {
                 const recipient = recipients.find(r => r.id === certificate.recipientId);
                 const template = templates.find(t => t.id === certificate.templateId);
                 
@@ -242,12 +308,30 @@ const Dashboard: React.FC = () => {
                             <p className="text-sm text-gray-500">
                               {new Date(certificate.issueDate).toLocaleDateString('es-ES')}
                             </p>
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                              {certificate.status === 'published' ? 'Publicado' : 'Borrador'}
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              certificate.status === 'revoked' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {CERTIFICATE_STATUS_LABELS[certificate.status]}
                             </span>
+                            {certificate.expiresAt && (
+                              <p className={`text-xs mt-1 ${isCertificateExpired(certificate) ? 'text-red-600' : 'text-gray-500'}`}>
+                                {isCertificateExpired(certificate) ? 'Venció el' : 'Vence el'}{' '}
+                                {new Date(certificate.expiresAt).toLocaleDateString('es-ES')}
+                              </p>
+                            )}
                           </div>
+                          {canCreate && certificateFilter !== 'recent' && (
+                            <button
+                              onClick={() => handleRenew(certificate.id)}
+                              className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-700 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                            >
+                              <RotateCw className="h-4 w-4 mr-1" />
+                              Renovar
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDownloadAll()}
+                            disabled={downloadProgress !== null}
                             className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-700 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors duration-200"
                           >
                             <Download className="h-4 w-4 mr-1" />
@@ -260,6 +344,12 @@ const Dashboard: React.FC = () => {
                 );
               })}
             </ul>
+          ) : certificateFilter !== 'recent' ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500">
+                {certificateFilter === 'expiring' ? 'Ningún certificado vence próximamente.' : 'No hay certificados vencidos sin renovar.'}
+              </p>
+            </div>
           ) : (
             <div className="text-center py-12">
               <div className="w-24 h-24 mx-auto bg-gray-100 rounded-full flex items-center justify-center mb-4">
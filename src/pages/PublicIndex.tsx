@@ -4,10 +4,12 @@ import { Shield, Award, Search, CheckCircle, User, Calendar, FileText, ExternalL
 import { useCertificateStore } from '../store/certificateStore';
 import { useAuthStore } from '../store/authStore';
 import { generateCertificatePDF } from '../utils/certificateGenerator';
+import { buildRenderModel } from '../utils/certificateRenderer';
+import { getCertificateTemplate } from '../utils/templateVersions';
 
 const PublicIndex: React.FC = () => {
   const { openLoginModal } = useAuthStore();
-  const { certificates, recipients, templates } = useCertificateStore();
+  const { certificates, recipients, templates, templateVersions, signers, fonts } = useCertificateStore();
   const [searchId, setSearchId] = useState('');
   const [searchResult, setSearchResult] = useState<any>(null);
   const [isSearching, setIsSearching] = useState(false);
@@ -77,107 +79,17 @@ const PublicIndex: React.FC = () => {
   const handleDownloadCertificate = async (certificateId: string) => {
     const certificate = certificates.find(c => c.id === certificateId);
     const recipient = recipients.find(r => r.id === certificate?.recipientId);
-    const template = templates.find(t => t.id === certificate?.templateId);
     
-    if (!certificate || !recipient || !template) return;
+    if (!certificate || !recipient) return;
     
-    // Create a temporary container for rendering the certificate
-    const container = document.createElement('div');
-    container.style.position = 'fixed';
-    container.style.left = '-9999px';
-    container.style.top = '0';
-    container.style.width = '1200px';
-    container.style.height = '848px';
-    document.body.appendChild(container);
-
     try {
-      // Create certificate preview
-      const certificateDiv = document.createElement('div');
-      certificateDiv.className = 'certificate-preview';
-      certificateDiv.style.width = '100%';
-      certificateDiv.style.height = '100%';
-      certificateDiv.style.position = 'relative';
-      certificateDiv.style.backgroundColor = 'white';
-      certificateDiv.style.overflow = 'hidden';
-
-      // Add template background
-      const img = document.createElement('img');
-      img.src = template.imageUrl;
-      img.alt = 'Certificate template';
-      img.style.position = 'absolute';
-      img.style.top = '0';
-      img.style.left = '0';
-      img.style.width = '100%';
-      img.style.height = '100%';
-      img.style.objectFit = 'cover';
-      certificateDiv.appendChild(img);
-
-      // Wait for image to load
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        setTimeout(resolve, 10000);
-      });
-
-      // Add text fields
-      template.fields.forEach(field => {
-        if (field.type === 'qrcode') return; // Skip QR code for now
-        
-        const fieldDiv = document.createElement('div');
-        fieldDiv.style.position = 'absolute';
-        fieldDiv.style.left = `${field.x}%`;
-        fieldDiv.style.top = `${field.y}%`;
-        fieldDiv.style.transform = 'translate(-50%, -50%)';
-        fieldDiv.style.textAlign = 'center';
-        fieldDiv.style.width = '100%';
-        fieldDiv.style.maxWidth = '80%';
-        fieldDiv.style.fontFamily = field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
-        fieldDiv.style.fontSize = `${field.fontSize || 16}px`;
-        // Color alineado al masivo
-        fieldDiv.style.color = field.color || '#000';
-        fieldDiv.style.zIndex = '1';
-        fieldDiv.style.fontWeight = 'bold';
-        fieldDiv.style.textShadow = '1px 1px 2px rgba(255,255,255,0.8)';
-
-        let textValue = '';
-        switch (field.type) {
-          case 'text':
-            if (field.name === 'recipient') {
-              textValue = recipient.name;
-            } else if (field.name === 'course') {
-              textValue = recipient.course || field.defaultValue || '';
-            } else if (recipient.customFields && recipient.customFields[field.name]) {
-              textValue = recipient.customFields[field.name];
-            } else {
-              textValue = field.defaultValue || '';
-            }
-            break;
-
-          case 'date':
-            textValue = new Date(recipient.issueDate).toLocaleDateString('es-ES', {
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric'
-            });
-            break;
-        }
-
-        // Set the text content
-        fieldDiv.textContent = textValue;
-        certificateDiv.appendChild(fieldDiv);
-      });
-
-      container.appendChild(certificateDiv);
-      await new Promise(resolve => setTimeout(resolve, 100));
-
+      const template = getCertificateTemplate(templates, templateVersions, certificate);
+      if (!template) return;
       const fileName = `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`;
-      await generateCertificatePDF(certificateDiv, fileName);
-
+      await generateCertificatePDF(buildRenderModel(template, recipient, certificate, signers, fonts), fileName);
     } catch (error) {
       console.error('Error downloading certificate:', error);
       alert('Error al descargar el certificado. Por favor, inténtelo de nuevo.');
-    } finally {
-      document.body.removeChild(container);
     }
   };
 
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, ClipboardCheck } from 'lucide-react';
+import { useCertificateStore } from '../store/certificateStore';
+import { useAuthStore } from '../store/authStore';
+
+const ReviewQueue: React.FC = () => {
+  const { certificates, recipients, templates, publishCertificates } = useCertificateStore();
+  const { user } = useAuthStore();
+  const [selectedCertificates, setSelectedCertificates] = useState<string[]>([]);
+  const [isApproving, setIsApproving] = useState(false);
+  const [error, setError] = useState('');
+
+  const pendingCertificates = useMemo(
+    () => certificates.filter(certificate => certificate.status === 'draft'),
+    [certificates]
+  );
+
+  // Group drafts by template so reviewers can approve a whole batch at once
+  const batches = useMemo(() => {
+    return pendingCertificates.reduce((groups, certificate) => {
+      if (!groups[certificate.templateId]) {
+        groups[certificate.templateId] = [];
+      }
+      groups[certificate.templateId].push(certificate);
+      return groups;
+    }, {} as Record<string, typeof certificates>);
+  }, [pendingCertificates]);
+
+  const toggleCertificateSelection = (certificateId: string) => {
+    setSelectedCertificates(prev =>
+      prev.includes(certificateId)
+        ? prev.filter(id => id !== certificateId)
+        : [...prev, certificateId]
+    );
+  };
+
+  const toggleBatchSelection = (batchIds: string[]) => {
+    const allSelected = batchIds.every(id => selectedCertificates.includes(id));
+    setSelectedCertificates(prev =>
+      allSelected
+        ? prev.filter(id => !batchIds.includes(id))
+        : [...prev, ...batchIds.filter(id => !prev.includes(id))]
+    );
+  };
+
+  const getRecipientName = (certificateId: string): string => {
+    const certificate = certificates.find(c => c.id === certificateId);
+    return recipients.find(r => r.id === certificate?.recipientId)?.name || certificateId;
+  };
+
+  const handleApprove = async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
+
+    setIsApproving(true);
+    setError('');
+    // Names first: certificates that weren't approved may be gone after the reload
+    const names = new Map(ids.map(id => [id, getRecipientName(id)]));
+    try {
+      const notApproved = await publishCertificates(ids, user.id);
+      setSelectedCertificates(prev => prev.filter(id => !ids.includes(id)));
+      if (notApproved.length > 0) {
+        const list = notApproved.map(id => names.get(id)).join(', ');
+        setError(notApproved.length === 1
+          ? `No se aprobó el certificado de ${list}: ya no estaba pendiente (otra persona lo aprobó, revocó o eliminó).`
+          : `No se aprobaron ${notApproved.length} certificados porque ya no estaban pendientes (otra persona los aprobó, revocó o eliminó): ${list}.`);
+      }
+    } catch (err) {
+      console.error('Error approving certificates:', err);
+      setError('No se pudieron aprobar los certificados. Intenta de nuevo.');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Revisión</h1>
+          <p className="mt-2 text-lg text-gray-600">
+            Aprueba los lotes de certificados emitidos antes de publicarlos
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <button
+            onClick={() => handleApprove(selectedCertificates)}
+            disabled={selectedCertificates.length === 0 || isApproving}
+            className="inline-flex items-center px-4 py-2 rounded text-white bg-gray-600 hover:bg-gray-700 disabled:opacity-50"
+          >
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {isApproving ? 'Aprobando…' : `Aprobar seleccionados (${selectedCertificates.length})`}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {pendingCertificates.length === 0 ? (
+        <div className="bg-white shadow-sm rounded-lg text-center py-12">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-gray-300" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No hay certificados pendientes</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Los certificados creados por emisores aparecerán aquí para su aprobación.
+          </p>
+        </div>
+      ) : (
+        Object.entries(batches).map(([templateId, batchCertificates]) => {
+          const template = templates.find(t => t.id === templateId);
+          const batchIds = batchCertificates.map(c => c.id);
+
+          return (
+            <div key={templateId} className="bg-white shadow-sm rounded-lg overflow-hidden">
+              <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">{template?.name || templateId}</h2>
+                  <p className="text-sm text-gray-500">{batchCertificates.length} pendientes</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => toggleBatchSelection(batchIds)}
+                    className="px-3 py-2 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+                  >
+                    {batchIds.every(id => selectedCertificates.includes(id)) ? 'Deseleccionar lote' : 'Seleccionar lote'}
+                  </button>
+                  <button
+                    onClick={() => handleApprove(batchIds)}
+                    disabled={isApproving}
+                    className="px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Aprobar lote
+                  </button>
+                </div>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3" />
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Nombre
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Curso
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      ID
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Fecha
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {batchCertificates.map(certificate => {
+                    const recipient = recipients.find(r => r.id === certificate.recipientId);
+                    return (
+                      <tr key={certificate.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedCertificates.includes(certificate.id)}
+                            onChange={() => toggleCertificateSelection(certificate.id)}
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {recipient?.name || '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {recipient?.course || '—'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                          {certificate.id}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(certificate.issueDate).toLocaleDateString('es-ES')}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
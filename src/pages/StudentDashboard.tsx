@@ -1,21 +1,39 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuthStore } from '../store/authStore';
-import { useCertificateStore } from '../store/certificateStore';
-import { Award, Search, CheckCircle, Calendar, User, FileText, Shield, Download, Share2, ExternalLink } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { supabase, DatabaseCertificate } from '../lib/supabase';
+import { Award, Search, CheckCircle, Calendar, User, FileText, Shield, Share2, ExternalLink, LogOut } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
 
 const StudentDashboard: React.FC = () => {
-  const { user } = useAuthStore();
-  const { certificates, recipients, templates } = useCertificateStore();
+  const { user, logout } = useAuthStore();
+  const navigate = useNavigate();
+  const [studentCertificates, setStudentCertificates] = useState<DatabaseCertificate[]>([]);
+  const [isLoadingCertificates, setIsLoadingCertificates] = useState(true);
   const [searchId, setSearchId] = useState('');
-  const [searchResult, setSearchResult] = useState<any>(null);
+  const [searchResult, setSearchResult] = useState<{ certificate?: DatabaseCertificate; error?: string } | null>(null);
   const [isSearching, setIsSearching] = useState(false);
 
-  // Get certificates for the current student (by email match)
-  const studentCertificates = certificates.filter(cert => {
-    const recipient = recipients.find(r => r.id === cert.recipientId);
-    return recipient?.email === user?.email;
-  });
+  // Students don't have the admin's local store, so their certificates come straight from Supabase
+  useEffect(() => {
+    if (!user?.email) return;
+
+    let cancelled = false;
+    setIsLoadingCertificates(true);
+    supabase.getCertificatesByEmail(user.email)
+      .then(data => {
+        if (!cancelled) setStudentCertificates(data);
+      })
+      .catch(error => {
+        console.error('Error loading student certificates:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingCertificates(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.email]);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,35 +42,29 @@ const StudentDashboard: React.FC = () => {
     setIsSearching(true);
     setSearchResult(null);
 
-    // Simulate search delay
-    setTimeout(() => {
-      const foundCertificate = certificates.find(c => 
-        c.id === searchId || c.id.slice(-4) === searchId || c.id.includes(searchId)
-      );
-      
-      if (foundCertificate) {
-        const recipient = recipients.find(r => r.id === foundCertificate.recipientId);
-        const template = templates.find(t => t.id === foundCertificate.templateId);
-        setSearchResult({ certificate: foundCertificate, recipient, template });
-      } else {
-        setSearchResult({ error: 'Certificado no encontrado' });
-      }
-      
+    try {
+      const foundCertificate = await supabase.getCertificateByCode(searchId.trim());
+      setSearchResult(foundCertificate ? { certificate: foundCertificate } : { error: 'Certificado no encontrado' });
+    } catch (error) {
+      console.error('Error verifying certificate:', error);
+      setSearchResult({ error: 'No se pudo verificar el certificado. Intenta de nuevo.' });
+    } finally {
       setIsSearching(false);
-    }, 1000);
+    }
   };
 
-  const handleShareToLinkedIn = (certificateId: string) => {
-    const certificate = certificates.find(c => c.id === certificateId);
-    const recipient = recipients.find(r => r.id === certificate?.recipientId);
-    
-    if (!certificate || !recipient) return;
-    
-    const linkedInUrl = `https://www.linkedin.com/profile/add?startTask=CERTIFICATION_NAME&name=${encodeURIComponent(recipient.course || 'Certificación Profesional')}&organizationName=${encodeURIComponent('Red Ciudadana')}&issueYear=${new Date(recipient.issueDate).getFullYear()}&issueMonth=${new Date(recipient.issueDate).getMonth() + 1}&certUrl=${encodeURIComponent(window.location.origin + '/verify/' + certificate.id)}&certId=${encodeURIComponent(certificate.id)}`;
+  const handleShareToLinkedIn = (certificate: DatabaseCertificate) => {
+    const issueDate = new Date(certificate.issue_date);
+    const linkedInUrl = `https://www.linkedin.com/profile/add?startTask=CERTIFICATION_NAME&name=${encodeURIComponent(certificate.course_name || 'Certificación Profesional')}&organizationName=${encodeURIComponent('Red Ciudadana')}&issueYear=${issueDate.getFullYear()}&issueMonth=${issueDate.getMonth() + 1}&certUrl=${encodeURIComponent(window.location.origin + '/verify/' + certificate.certificate_code)}&certId=${encodeURIComponent(certificate.certificate_code)}`;
     
     window.open(linkedInUrl, '_blank', 'width=600,height=600');
   };
 
+  const handleLogout = async () => {
+    await logout();
+    navigate('/');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
       {/* Header */}
@@ -76,6 +88,13 @@ const StudentDashboard: React.FC = () => {
               <div className="w-10 h-10 bg-gradient-to-r from-gray-500 to-gray-500 rounded-full flex items-center justify-center">
                 <User className="h-6 w-6 text-white" />
               </div>
+              <button
+                onClick={handleLogout}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+                title="Cerrar sesión"
+              >
+                <LogOut className="h-5 w-5" />
+              </button>
             </div>
           </div>
         </div>
@@ -161,6 +180,20 @@ const StudentDashboard: React.FC = () => {
                         </div>
                       </div>
                     </div>
+                  ) : searchResult.certificate?.status === 'revoked' ? (
+                    <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                      <h4 className="text-lg font-semibold text-red-800">Certificado Revocado</h4>
+                      <p className="mt-1 text-sm text-red-700">
+                        <strong>Motivo:</strong> {searchResult.certificate.revocation_reason || 'No se indicó un motivo.'}
+                      </p>
+                      <Link
+                        to={`/verify/${searchResult.certificate.certificate_code}`}
+                        className="inline-flex items-center mt-3 text-red-700 hover:text-red-600 text-sm font-medium"
+                      >
+                        Ver detalles completos
+                        <ExternalLink className="ml-1 h-4 w-4" />
+                      </Link>
+                    </div>
                   ) : (
                     <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
                       <div className="flex items-start">
@@ -168,13 +201,13 @@ const StudentDashboard: React.FC = () => {
                         <div className="ml-3 flex-1">
                           <h4 className="text-lg font-semibold text-gray-800">Certificado Válido</h4>
                           <div className="mt-2 space-y-1 text-sm text-gray-700">
-                            <p><strong>Nombre:</strong> {searchResult.recipient?.name}</p>
-                            <p><strong>Curso:</strong> {searchResult.recipient?.course}</p>
-                            <p><strong>Fecha:</strong> {new Date(searchResult.recipient?.issueDate).toLocaleDateString('es-ES')}</p>
-                            <p><strong>ID:</strong> {searchResult.certificate?.id}</p>
+                            <p><strong>Nombre:</strong> {searchResult.certificate?.recipient_name}</p>
+                            <p><strong>Curso:</strong> {searchResult.certificate?.course_name}</p>
+                            <p><strong>Fecha:</strong> {searchResult.certificate && new Date(searchResult.certificate.issue_date).toLocaleDateString('es-ES')}</p>
+                            <p><strong>ID:</strong> {searchResult.certificate?.certificate_code}</p>
                           </div>
                           <Link
-                            to={`/verify/${searchResult.certificate?.id}`}
+                            to={`/verify/${searchResult.certificate?.certificate_code}`}
                             className="inline-flex items-center mt-3 text-gray-600 hover:text-gray-500 text-sm font-medium"
                           >
                             Ver detalles completos
@@ -200,35 +233,38 @@ const StudentDashboard: React.FC = () => {
             </div>
             
             <div className="p-6">
-              {studentCertificates.length > 0 ? (
+              {isLoadingCertificates ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-transparent"></div>
+                </div>
+              ) : studentCertificates.length > 0 ? (
                 <div className="space-y-4">
                   {studentCertificates.map((certificate) => {
-                    const recipient = recipients.find(r => r.id === certificate.recipientId);
                     return (
-                      <div key={certificate.id} className="border border-gray-200 rounded-xl p-4 hover:shadow-md transition-shadow duration-200">
+                      <div key={certificate.certificate_code} className="border border-gray-200 rounded-xl p-4 hover:shadow-md transition-shadow duration-200">
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
-                            <h4 className="font-semibold text-gray-900">{recipient?.course || 'Certificación'}</h4>
+                            <h4 className="font-semibold text-gray-900">{certificate.course_name || 'Certificación'}</h4>
                             <div className="mt-2 space-y-1 text-sm text-gray-600">
                               <div className="flex items-center">
                                 <Calendar className="h-4 w-4 mr-2" />
-                                {new Date(recipient?.issueDate || certificate.issueDate).toLocaleDateString('es-ES')}
+                                {new Date(certificate.issue_date).toLocaleDateString('es-ES')}
                               </div>
                               <div className="flex items-center">
                                 <FileText className="h-4 w-4 mr-2" />
-                                ID: {certificate.id.slice(-8)}...
+                                ID: {certificate.certificate_code}
                               </div>
                             </div>
                             <div className="mt-3 flex flex-wrap gap-2">
                               <Link
-                                to={`/verify/${certificate.id}`}
+                                to={`/verify/${certificate.certificate_code}`}
                                 className="inline-flex items-center px-3 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded-full hover:bg-gray-200 transition-colors duration-200"
                               >
                                 <Shield className="mr-1 h-3 w-3" />
                                 Ver Certificado
                               </Link>
                               <button
-                                onClick={() => handleShareToLinkedIn(certificate.id)}
+                                onClick={() => handleShareToLinkedIn(certificate)}
                                 className="inline-flex items-center px-3 py-1 bg-[#0A66C2] text-white text-xs font-medium rounded-full hover:bg-[#004182] transition-colors duration-200"
                               >
                                 <Share2 className="mr-1 h-3 w-3" />
@@ -215,6 +215,12 @@ export default function StudentVerification() {
                     <p className="text-lg text-gray-700 mb-4">
                       Issued to: <span className="font-semibold">{cert.recipient_name}</span>
                     </p>
+                    {cert.status === 'revoked' && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+                        <span className="font-semibold">Revocation reason:</span> {cert.revocation_reason || 'Not specified'}
+                        {cert.revoked_at && ` (${new Date(cert.revoked_at).toLocaleDateString()})`}
+                      </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <span className="text-gray-600">Email:</span>
@@ -1,17 +1,59 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { PlusCircle, FileText, X, Upload, Link as LinkIcon } from 'lucide-react';
 import { useCertificateStore } from '../store/certificateStore';
 import TemplateCard from '../components/TemplateCard';
 import ImageUpload from '../components/ImageUpload';
-import { Template, TemplateField } from '../types';
+import SignerRegistry from '../components/SignerRegistry';
+import FontRegistry from '../components/FontRegistry';
+import TemplateDesigner from '../components/TemplateDesigner';
+import TemplateVersionHistory from '../components/TemplateVersionHistory';
+import { PageOrientation, PageSize, PageSizePreset, TableColumn, Template, TemplateField, TemplatePage } from '../types';
+import {
+  DEFAULT_BARCODE_FORMAT,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_QR_ERROR_CORRECTION,
+  DEFAULT_QR_SIZE,
+  DEFAULT_TABLE_FONT_SIZE,
+  DEFAULT_TABLE_ROW_HEIGHT,
+  DEFAULT_TABLE_WIDTH,
+  getFieldBox,
+  getTemplatePages
+} from '../utils/certificateRenderer';
+import { getTemplateVersions } from '../utils/templateVersions';
+import {
+  exportTemplatePackage,
+  importTemplatePackage,
+  TEMPLATE_PACKAGE_EXTENSION,
+  TemplatePackageError
+} from '../utils/templatePackage';
+import { saveAs } from 'file-saver';
+import { isTemplateImageUrl } from '../utils/imageStorage';
+import { ImageInfo } from '../utils/imageInfo';
+import { getFontOptions, getPrimaryFontFamily, isSystemFontStack } from '../utils/certificateFonts';
+import {
+  checkArtwork,
+  DEFAULT_PAGE_SIZE,
+  getCanvasSize,
+  getTemplatePageDimensions,
+  matchPageSize,
+  PAGE_SIZE_PRESETS
+} from '../utils/pageSize';
 import { nanoid } from 'nanoid';
 
+const isTextField = (field: TemplateField) => field.type === 'text' || field.type === 'date';
+const hasFont = (field: TemplateField) => isTextField(field) || field.type === 'table';
+
 const TemplateManager: React.FC = () => {
-  const { templates, addTemplate, updateTemplate, deleteTemplate } = useCertificateStore();
+  const { templates, templateVersions, signers, fonts, addTemplate, addFont, updateTemplate, deleteTemplate } = useCertificateStore();
   const [isCreating, setIsCreating] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
   const [uploadMethod, setUploadMethod] = useState<'url' | 'upload'>('upload');
+  const [activePage, setActivePage] = useState(0);
+  const [pageSizeNotice, setPageSizeNotice] = useState<string | null>(null);
+  const [packageMessage, setPackageMessage] = useState<{ kind: 'error' | 'warning'; lines: string[] } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const fontOptions = getFontOptions(fonts);
   
   const [formData, setFormData] = useState<Omit<Template, 'id'>>({
     name: '',
@@ -36,6 +78,8 @@ const TemplateManager: React.FC = () => {
       ]
     });
     setUploadMethod('upload');
+    setActivePage(0);
+    setPageSizeNotice(null);
     setIsCreating(true);
     setIsEditing(false);
   };
@@ -46,9 +90,17 @@ const TemplateManager: React.FC = () => {
       setFormData({
         name: template.name,
         imageUrl: template.imageUrl,
-        fields: [...template.fields]
+        fields: [...template.fields],
+        validityMonths: template.validityMonths,
+        criteria: template.criteria,
+        pages: template.pages?.map(page => ({ ...page, fields: [...page.fields] })),
+        pageSize: template.pageSize,
+        width: template.width,
+        height: template.height
       });
-      setUploadMethod(template.imageUrl.startsWith('data:') ? 'upload' : 'url');
+      setPageSizeNotice(null);
+      setUploadMethod(template.imageUrl.startsWith('data:') || isTemplateImageUrl(template.imageUrl) ? 'upload' : 'url');
+      setActivePage(0);
       setEditingTemplateId(id);
       setIsEditing(true);
       setIsCreating(false);
@@ -56,11 +108,40 @@ const TemplateManager: React.FC = () => {
   };
   
   const handleDeleteTemplate = (id: string) => {
-    if (window.confirm('Are you sure you want to delete this template?')) {
+    if (window.confirm('Are you sure you want to delete this template? Certificates already issued with it keep rendering with their version.')) {
       deleteTemplate(id);
     }
   };
   
+  const handleExportTemplate = async (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    try {
+      const blob = await exportTemplatePackage(template, fonts);
+      saveAs(blob, `${template.name.replace(/[^a-z0-9]/gi, '-').toLowerCase() || 'template'}${TEMPLATE_PACKAGE_EXTENSION}`);
+    } catch (error) {
+      console.error('Error exporting template:', error);
+      setPackageMessage({ kind: 'error', lines: [`Could not export ${template.name}: ${(error as Error).message}`] });
+    }
+  };
+  
+  const handleImportTemplate = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { template, fonts: importedFonts, warnings } = await importTemplatePackage(file, signers, fonts);
+      importedFonts.forEach(font => addFont(font));
+      addTemplate(template);
+      setPackageMessage(warnings.length > 0
+        ? { kind: 'warning', lines: [`Imported ${template.name} with warnings:`, ...warnings] }
+        : null);
+    } catch (error) {
+      if (!(error instanceof TemplatePackageError)) console.error('Error importing template:', error);
+      setPackageMessage({ kind: 'error', lines: [`Could not import ${file.name}: ${(error as Error).message}`] });
+    }
+  };
+  
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -69,37 +150,122 @@ const TemplateManager: React.FC = () => {
     }));
   };
   
+  // The first page is the template's own background and fields; the rest live in `pages`
+  const activePageData = getTemplatePages(formData)[activePage];
+  const pageDimensions = getTemplatePageDimensions(formData);
+  const canvasSize = getCanvasSize(pageDimensions);
+  
+  type PageContent = Pick<TemplatePage, 'imageUrl' | 'fields'>;
+  const updateActivePage = (update: (page: PageContent) => Partial<PageContent>) => {
+    setFormData(prev => {
+      if (activePage === 0) return { ...prev, ...update(prev) };
+      return {
+        ...prev,
+        pages: prev.pages?.map((page, index) => (index === activePage - 1 ? { ...page, ...update(page) } : page))
+      };
+    });
+  };
+  
   const handleFieldChange = (id: string, field: string, value: any) => {
-    setFormData(prev => ({
-      ...prev,
-      fields: prev.fields.map(f => 
+    updateActivePage(page => ({
+      fields: page.fields.map(f => 
         f.id === id ? { ...f, [field]: value } : f
       )
     }));
   };
   
   const handleAddField = () => {
-    setFormData(prev => ({
-      ...prev,
+    updateActivePage(page => ({
       fields: [
-        ...prev.fields,
-        { id: nanoid(), name: `field-${prev.fields.length + 1}`, type: 'text', x: 50, y: 50 }
+        ...page.fields,
+        { id: nanoid(), name: `field-${page.fields.length + 1}`, type: 'text', x: 50, y: 50 }
       ]
     }));
   };
   
   const handleRemoveField = (id: string) => {
+    updateActivePage(page => ({
+      fields: page.fields.filter(f => f.id !== id)
+    }));
+  };
+  
+  const handleFieldsChange = (fields: TemplateField[]) => {
+    updateActivePage(() => ({ fields }));
+  };
+  
+  const handleImageUploaded = (imageUrl: string, info?: ImageInfo) => {
+    updateActivePage(() => ({ imageUrl }));
+    // Artwork made for another standard page switches the template to that page
+    if (info && activePage === 0 && !checkArtwork(info.width, info.height, pageDimensions).aspectMatches) {
+      const match = matchPageSize(info.width, info.height);
+      if (match) {
+        setFormData(prev => ({ ...prev, pageSize: match }));
+        setPageSizeNotice(`Page size set to ${PAGE_SIZE_PRESETS[match.preset as keyof typeof PAGE_SIZE_PRESETS].label} ${match.orientation} to match the background.`);
+      }
+    }
+  };
+  
+  const updatePageSize = (update: Partial<PageSize>) => {
+    setFormData(prev => ({ ...prev, pageSize: { ...(prev.pageSize || DEFAULT_PAGE_SIZE), ...update } }));
+    setPageSizeNotice(null);
+  };
+  
+  const handlePresetChange = (preset: PageSizePreset) => {
+    // A custom size starts from the current page
+    updatePageSize(preset === 'custom'
+      ? { preset, width: Math.round(pageDimensions.width), height: Math.round(pageDimensions.height) }
+      : { preset, width: undefined, height: undefined });
+  };
+  
+  const handleOrientationChange = (orientation: PageOrientation) => {
+    // Custom sizes turn by swapping their sides
+    const turned = formData.pageSize?.preset === 'custom' && orientation !== formData.pageSize.orientation;
+    updatePageSize(turned ? { orientation, width: pageDimensions.height, height: pageDimensions.width } : { orientation });
+  };
+  
+  const handleCustomSizeChange = (dimension: 'width' | 'height', value: number) => {
+    const size = { width: pageDimensions.width, height: pageDimensions.height, [dimension]: value };
+    updatePageSize({ ...size, orientation: size.width >= size.height ? 'landscape' : 'portrait' });
+  };
+  
+  // Artwork that matches no standard page gets a custom page of its proportions, as long as the current one
+  const handleUseImageSize = (info: ImageInfo) => {
+    const long = Math.max(pageDimensions.width, pageDimensions.height);
+    const aspect = info.width / info.height;
+    const round = (mm: number) => Math.round(mm * 10) / 10;
+    updatePageSize({
+      preset: 'custom',
+      orientation: aspect >= 1 ? 'landscape' : 'portrait',
+      width: round(aspect >= 1 ? long : long * aspect),
+      height: round(aspect >= 1 ? long / aspect : long)
+    });
+  };
+  
+  const handleAddPage = () => {
     setFormData(prev => ({
       ...prev,
-      fields: prev.fields.filter(f => f.id !== id)
+      pages: [...(prev.pages || []), { id: nanoid(), imageUrl: '', fields: [] }]
     }));
+    setActivePage(getTemplatePages(formData).length);
   };
   
-  const handleImageUploaded = (imageUrl: string) => {
+  const handleRemovePage = () => {
+    if (activePage === 0 || !window.confirm(`Remove page ${activePage + 1} and its fields?`)) return;
     setFormData(prev => ({
       ...prev,
-      imageUrl
+      pages: prev.pages?.filter((_, index) => index !== activePage - 1)
     }));
+    setActivePage(activePage - 1);
+  };
+  
+  const handleColumnsChange = (field: TemplateField, update: (columns: TableColumn[]) => TableColumn[]) => {
+    handleFieldChange(field.id, 'columns', update(field.columns || []));
+  };
+  
+  const closeForm = () => {
+    setIsCreating(false);
+    setIsEditing(false);
+    setEditingTemplateId(null);
   };
   
   const handleSubmit = (e: React.FormEvent) => {
@@ -111,11 +277,13 @@ const TemplateManager: React.FC = () => {
       addTemplate(formData);
     }
     
-    setIsCreating(false);
-    setIsEditing(false);
-    setEditingTemplateId(null);
+    closeForm();
   };
   
+  // Saving an edit publishes a new version; issued certificates keep theirs. Templates from
+  // before versioning get their current content recorded as version 1 first.
+  const latestVersion = editingTemplateId ? getTemplateVersions(templateVersions, editingTemplateId)[0]?.version || 1 : 0;
+  
   const renderForm = () => {
     return (
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -134,6 +302,149 @@ const TemplateManager: React.FC = () => {
           />
         </div>
         
+        <div>
+          <label htmlFor="validityMonths" className="block text-sm font-medium text-gray-700">
+            Validity (months)
+          </label>
+          <input
+            type="number"
+            id="validityMonths"
+            min="1"
+            value={formData.validityMonths ?? ''}
+            onChange={(e) => setFormData(prev => ({
+              ...prev,
+              validityMonths: e.target.value ? parseInt(e.target.value) : undefined
+            }))}
+            placeholder="No expiration"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Certificates issued from this template expire after this many months. Leave empty for no expiration.
+          </p>
+        </div>
+        
+        <div>
+          <label htmlFor="criteria" className="block text-sm font-medium text-gray-700">
+            Criteria
+          </label>
+          <textarea
+            id="criteria"
+            rows={2}
+            value={formData.criteria || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, criteria: e.target.value || undefined }))}
+            placeholder="What recipients did to earn this certificate"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Shown as the achievement criteria in Open Badges exports.
+          </p>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Page Size
+          </label>
+          <div className="mt-1 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <select
+              value={formData.pageSize?.preset || DEFAULT_PAGE_SIZE.preset}
+              onChange={(e) => handlePresetChange(e.target.value as PageSizePreset)}
+              aria-label="Page size"
+              className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+            >
+              {Object.entries(PAGE_SIZE_PRESETS).map(([preset, size]) => (
+                <option key={preset} value={preset}>{size.label}</option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+            <select
+              value={formData.pageSize?.orientation || DEFAULT_PAGE_SIZE.orientation}
+              onChange={(e) => handleOrientationChange(e.target.value as PageOrientation)}
+              aria-label="Orientation"
+              className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+            {formData.pageSize?.preset === 'custom' && (
+              <>
+                <input
+                  type="number"
+                  min="20"
+                  max="1200"
+                  step="0.1"
+                  value={formData.pageSize.width ?? ''}
+                  onChange={(e) => handleCustomSizeChange('width', parseFloat(e.target.value) || 0)}
+                  title="Width (mm)"
+                  className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                />
+                <input
+                  type="number"
+                  min="20"
+                  max="1200"
+                  step="0.1"
+                  value={formData.pageSize.height ?? ''}
+                  onChange={(e) => handleCustomSizeChange('height', parseFloat(e.target.value) || 0)}
+                  title="Height (mm)"
+                  className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                />
+              </>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {Math.round(pageDimensions.width)} × {Math.round(pageDimensions.height)} mm. Every page of the template
+            and its PDF use this size; backgrounds cover the page.
+          </p>
+          {pageSizeNotice && <p className="mt-1 text-xs text-gray-700">{pageSizeNotice}</p>}
+        </div>
+        
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Pages
+            </label>
+            <div className="flex items-center space-x-2">
+              {activePage > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRemovePage}
+                  className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-red-700 bg-red-50 hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Remove Page
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleAddPage}
+                className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                <PlusCircle className="h-3 w-3 mr-1" />
+                Add Page
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {getTemplatePages(formData).map((page, index) => (
+              <button
+                key={page.id}
+                type="button"
+                onClick={() => setActivePage(index)}
+                className={`px-3 py-1 text-sm font-medium rounded-md border transition-colors duration-200 ${
+                  activePage === index
+                    ? 'bg-gray-600 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Page {index + 1}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Every page is part of the same PDF, e.g. a transcript or the course contents behind the certificate.
+            The background, layout and fields below belong to the selected page.
+          </p>
+        </div>
+        
         <div>
           <div className="space-y-4">
             <div>
@@ -172,8 +483,11 @@ const TemplateManager: React.FC = () => {
             
             {uploadMethod === 'upload' ? (
               <ImageUpload
+                key={activePage}
                 onImageUploaded={handleImageUploaded}
-                currentImageUrl={formData.imageUrl}
+                currentImageUrl={activePageData.imageUrl}
+                pageSize={pageDimensions}
+                onUseImageSize={handleUseImageSize}
               />
             ) : (
               <div>
@@ -181,19 +495,32 @@ const TemplateManager: React.FC = () => {
                   type="url"
                   id="imageUrl"
                   name="imageUrl"
-                  value={formData.imageUrl}
-                  onChange={handleInputChange}
+                  value={activePageData.imageUrl}
+                  onChange={(e) => handleImageUploaded(e.target.value)}
                   placeholder="https://ejemplo.com/imagen-certificado.jpg"
                   className="block w-full border border-gray-300 rounded-lg shadow-sm py-3 px-4 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
                 />
                 <p className="mt-2 text-xs text-gray-500">
                   Ingresa la URL de la imagen de fondo para el certificado
+                  {activePage > 0 && '. Déjala vacía para una página en blanco'}
                 </p>
               </div>
             )}
           </div>
         </div>
         
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Layout
+          </label>
+          <TemplateDesigner
+            key={`${editingTemplateId || 'new'}-${activePage}`}
+            template={formData}
+            page={activePage}
+            onFieldsChange={handleFieldsChange}
+          />
+        </div>
+        
         <div>
           <div className="flex justify-between items-center mb-2">
             <label className="block text-sm font-medium text-gray-700">
@@ -215,14 +542,14 @@ const TemplateManager: React.FC = () => {
               <div className="col-span-2">Name</div>
               <div className="col-span-1">X (%)</div>
               <div className="col-span-1">Y (%)</div>
-              <div className="col-span-2">Font Size</div>
-              <div className="col-span-2">Font Family</div>
+              <div className="col-span-2">Size</div>
+              <div className="col-span-2">Font / Options</div>
               <div className="col-span-1">Color</div>
               <div className="col-span-1">Actions</div>
             </div>
             
             <div className="divide-y divide-gray-200">
-              {formData.fields.map((field) => (
+              {activePageData.fields.map((field) => (
                 <div key={field.id} className="px-4 py-3 grid grid-cols-12 gap-4 items-center text-sm">
                   <div className="col-span-2">
                     <select
@@ -233,6 +560,10 @@ const TemplateManager: React.FC = () => {
                       <option value="text">Text</option>
                       <option value="date">Date</option>
                       <option value="qrcode">QR Code</option>
+                      <option value="image">Image</option>
+                      <option value="signature">Signature</option>
+                      <option value="barcode">Barcode</option>
+                      <option value="table">Table</option>
                     </select>
                   </div>
                   
@@ -268,7 +599,59 @@ const TemplateManager: React.FC = () => {
                   </div>
                   
                   <div className="col-span-2">
-                    {field.type !== 'qrcode' && (
+                    {field.type === 'qrcode' ? (
+                      <input
+                        type="number"
+                        min="40"
+                        max="400"
+                        value={field.size || DEFAULT_QR_SIZE}
+                        onChange={(e) => handleFieldChange(field.id, 'size', parseInt(e.target.value, 10))}
+                        title="QR code size (px)"
+                        className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                      />
+                    ) : field.type === 'table' ? (
+                      <div className="flex space-x-1">
+                        <input
+                          type="number"
+                          min="40"
+                          max={canvasSize.width}
+                          value={field.width || DEFAULT_TABLE_WIDTH}
+                          onChange={(e) => handleFieldChange(field.id, 'width', parseInt(e.target.value, 10))}
+                          title="Width (px)"
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                        <input
+                          type="number"
+                          min="12"
+                          max="120"
+                          value={field.rowHeight || DEFAULT_TABLE_ROW_HEIGHT}
+                          onChange={(e) => handleFieldChange(field.id, 'rowHeight', parseInt(e.target.value, 10))}
+                          title="Row height (px)"
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                      </div>
+                    ) : !isTextField(field) ? (
+                      <div className="flex space-x-1">
+                        <input
+                          type="number"
+                          min="10"
+                          max={canvasSize.width}
+                          value={getFieldBox(field).width}
+                          onChange={(e) => handleFieldChange(field.id, 'width', parseInt(e.target.value, 10))}
+                          title="Width (px)"
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                        <input
+                          type="number"
+                          min="10"
+                          max={canvasSize.height}
+                          value={getFieldBox(field).height}
+                          onChange={(e) => handleFieldChange(field.id, 'height', parseInt(e.target.value, 10))}
+                          title="Height (px)"
+                          className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                      </div>
+                    ) : (
                       <input
                         type="number"
                         min="8"
@@ -281,23 +664,78 @@ const TemplateManager: React.FC = () => {
                   </div>
                   
                   <div className="col-span-2">
-                    {field.type !== 'qrcode' && (
+                    {field.type === 'qrcode' && (
+                      <select
+                        value={field.errorCorrection || DEFAULT_QR_ERROR_CORRECTION}
+                        onChange={(e) => handleFieldChange(field.id, 'errorCorrection', e.target.value)}
+                        className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                      >
+                        <option value="L">Low (7%)</option>
+                        <option value="M">Medium (15%)</option>
+                        <option value="Q">Quartile (25%)</option>
+                        <option value="H">High (30%)</option>
+                      </select>
+                    )}
+                    {field.type === 'image' && (
+                      <input
+                        type="url"
+                        value={field.imageUrl || ''}
+                        onChange={(e) => handleFieldChange(field.id, 'imageUrl', e.target.value || undefined)}
+                        placeholder="https://…"
+                        title="Image URL. A recipient column with this field's name overrides it."
+                        className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                      />
+                    )}
+                    {field.type === 'signature' && (
+                      <select
+                        value={field.signerId || ''}
+                        onChange={(e) => handleFieldChange(field.id, 'signerId', e.target.value || undefined)}
+                        className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                      >
+                        <option value="">Select a signer</option>
+                        {signers.map(signer => (
+                          <option key={signer.id} value={signer.id}>{signer.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    {field.type === 'barcode' && (
+                      <select
+                        value={field.barcodeFormat || DEFAULT_BARCODE_FORMAT}
+                        onChange={(e) => handleFieldChange(field.id, 'barcodeFormat', e.target.value)}
+                        title="Encodes the certificate code"
+                        className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                      >
+                        <option value="code128">Code 128</option>
+                        <option value="pdf417">PDF417</option>
+                      </select>
+                    )}
+                    {hasFont(field) && (
                       <select
-                        value={field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif"}
+                        value={field.fontFamily || DEFAULT_FONT_FAMILY}
                         onChange={(e) => handleFieldChange(field.id, 'fontFamily', e.target.value)}
                         className="block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
                       >
-                        <option value="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif">System UI</option>
-                        <option value="serif">Serif</option>
-                        <option value="sans-serif">Sans-serif</option>
-                        <option value="monospace">Monospace</option>
-                        <option value="cursive">Cursive</option>
+                        {/* Families typed in before the list existed, or deleted from the registry */}
+                        {field.fontFamily && !fontOptions.some(group => group.options.some(option => option.value === field.fontFamily)) && (
+                          <option value={field.fontFamily}>
+                            {isSystemFontStack(field.fontFamily)
+                              ? field.fontFamily
+                              : `${getPrimaryFontFamily(field.fontFamily)} (not installed)`}
+                          </option>
+                        )}
+                        {fontOptions.map(group => (
+                          <optgroup key={group.label} label={group.label}>
+                            {group.options.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </optgroup>
+                        ))}
                       </select>
                     )}
                   </div>
                   
                   <div className="col-span-1">
-                    {field.type !== 'qrcode' && (
+                    {hasFont(field) && (
                       <input
                         type="color"
                         value={field.color || '#000000'}
@@ -316,6 +754,191 @@ const TemplateManager: React.FC = () => {
                       <X className="h-4 w-4" />
                     </button>
                   </div>
+
+                  {isTextField(field) && (
+                    <div className="col-span-12 grid grid-cols-7 gap-4 text-xs text-gray-500">
+                      <label className="block">
+                        Align
+                        <select
+                          value={field.align || 'center'}
+                          onChange={(e) => handleFieldChange(field.id, 'align', e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        >
+                          <option value="left">Left</option>
+                          <option value="center">Center</option>
+                          <option value="right">Right</option>
+                        </select>
+                      </label>
+                      <label className="block">
+                        Weight
+                        <select
+                          value={field.fontWeight || 'bold'}
+                          onChange={(e) => handleFieldChange(field.id, 'fontWeight', e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        >
+                          <option value="normal">Regular</option>
+                          <option value="bold">Bold</option>
+                        </select>
+                      </label>
+                      <label className="block">
+                        Style
+                        <select
+                          value={field.fontStyle || 'normal'}
+                          onChange={(e) => handleFieldChange(field.id, 'fontStyle', e.target.value)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        >
+                          <option value="normal">Normal</option>
+                          <option value="italic">Italic</option>
+                        </select>
+                      </label>
+                      <label className="block">
+                        Max width (px)
+                        <input
+                          type="number"
+                          min="0"
+                          max={canvasSize.width}
+                          value={field.maxWidth ?? ''}
+                          placeholder="No wrap"
+                          onChange={(e) => handleFieldChange(field.id, 'maxWidth', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                      </label>
+                      <label className="block">
+                        Max lines
+                        <input
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={field.maxLines ?? ''}
+                          placeholder="Any"
+                          onChange={(e) => handleFieldChange(field.id, 'maxLines', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                      </label>
+                      <label className="block">
+                        Letter spacing (px)
+                        <input
+                          type="number"
+                          min="-5"
+                          max="20"
+                          step="0.5"
+                          value={field.letterSpacing ?? 0}
+                          onChange={(e) => handleFieldChange(field.id, 'letterSpacing', parseFloat(e.target.value) || 0)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                        />
+                      </label>
+                      <label className="flex items-center mt-5" title="Shrink the font until the text fits the max width and lines">
+                        <input
+                          type="checkbox"
+                          checked={!!field.autoFit}
+                          disabled={!field.maxWidth}
+                          onChange={(e) => handleFieldChange(field.id, 'autoFit', e.target.checked)}
+                          className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                        />
+                        <span className="ml-2">Shrink to fit</span>
+                      </label>
+                    </div>
+                  )}
+
+                  {field.type === 'table' && (
+                    <div className="col-span-12 space-y-2 text-xs text-gray-500">
+                      <p>
+                        Rows come from the recipient column named <span className="font-mono">{field.name}</span>, holding
+                        a JSON array such as <span className="font-mono">[{'{'}"subject": "Math", "grade": "9"{'}'}]</span>.
+                        Without columns, each property of the first row becomes one.
+                      </p>
+                      <div className="grid grid-cols-7 gap-4">
+                        <label className="block">
+                          Font size
+                          <input
+                            type="number"
+                            min="8"
+                            max="48"
+                            value={field.fontSize || DEFAULT_TABLE_FONT_SIZE}
+                            onChange={(e) => handleFieldChange(field.id, 'fontSize', parseInt(e.target.value, 10))}
+                            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                          />
+                        </label>
+                        <label className="block">
+                          Max rows
+                          <input
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={field.maxRows ?? ''}
+                            placeholder="All"
+                            onChange={(e) => handleFieldChange(field.id, 'maxRows', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                          />
+                        </label>
+                      </div>
+                      {(field.columns || []).map((column, index) => (
+                        <div key={index} className="grid grid-cols-7 gap-4 items-end">
+                          <label className="block col-span-2">
+                            Key
+                            <input
+                              type="text"
+                              value={column.key}
+                              onChange={(e) => handleColumnsChange(field, columns => columns.map((c, i) => (i === index ? { ...c, key: e.target.value } : c)))}
+                              placeholder="Property or position"
+                              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                            />
+                          </label>
+                          <label className="block col-span-2">
+                            Label
+                            <input
+                              type="text"
+                              value={column.label}
+                              onChange={(e) => handleColumnsChange(field, columns => columns.map((c, i) => (i === index ? { ...c, label: e.target.value } : c)))}
+                              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                            />
+                          </label>
+                          <label className="block">
+                            Width
+                            <input
+                              type="number"
+                              min="0.1"
+                              step="0.1"
+                              value={column.width ?? 1}
+                              onChange={(e) => handleColumnsChange(field, columns => columns.map((c, i) => (i === index ? { ...c, width: parseFloat(e.target.value) || 1 } : c)))}
+                              title="Share of the table width"
+                              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                            />
+                          </label>
+                          <label className="block">
+                            Align
+                            <select
+                              value={column.align || 'left'}
+                              onChange={(e) => handleColumnsChange(field, columns => columns.map((c, i) => (i === index ? { ...c, align: e.target.value as TableColumn['align'] } : c)))}
+                              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-gray-500 focus:border-gray-500 sm:text-sm"
+                            >
+                              <option value="left">Left</option>
+                              <option value="center">Center</option>
+                              <option value="right">Right</option>
+                            </select>
+                          </label>
+                          <div className="pb-1.5 text-right">
+                            <button
+                              type="button"
+                              onClick={() => handleColumnsChange(field, columns => columns.filter((_, i) => i !== index))}
+                              className="text-red-600 hover:text-red-800"
+                              title="Remove column"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => handleColumnsChange(field, columns => [...columns, { key: '', label: '' }])}
+                        className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        <PlusCircle className="h-3 w-3 mr-1" />
+                        Add Column
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -325,11 +948,7 @@ const TemplateManager: React.FC = () => {
         <div className="flex justify-end space-x-3">
           <button
             type="button"
-            onClick={() => {
-              setIsCreating(false);
-              setIsEditing(false);
-              setEditingTemplateId(null);
-            }}
+            onClick={closeForm}
             className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
           >
             Cancel
@@ -338,7 +957,7 @@ const TemplateManager: React.FC = () => {
             type="submit"
             className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
           >
-            {isEditing ? 'Update Template' : 'Create Template'}
+            {isEditing ? `Publish Version ${latestVersion + 1}` : 'Create Template'}
           </button>
         </div>
       </form>
@@ -355,7 +974,21 @@ const TemplateManager: React.FC = () => {
           </p>
         </div>
         {!isCreating && !isEditing && (
-          <div className="mt-4 sm:mt-0">
+          <div className="mt-4 sm:mt-0 flex space-x-3">
+            <input
+              ref={importInput}
+              type="file"
+              accept={`${TEMPLATE_PACKAGE_EXTENSION},application/zip`}
+              onChange={handleImportTemplate}
+              className="hidden"
+            />
+            <button
+              onClick={() => importInput.current?.click()}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              <Upload className="mr-2 h-4 w-4" aria-hidden="true" />
+              Import Template
+            </button>
             <button
               onClick={handleCreateTemplate}
               className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
@@ -367,6 +1000,17 @@ const TemplateManager: React.FC = () => {
         )}
       </div>
       
+      {packageMessage && (
+        <div className={`rounded-md p-4 flex items-start justify-between ${packageMessage.kind === 'error' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}>
+          <ul className="text-sm space-y-1">
+            {packageMessage.lines.map((line, index) => <li key={index}>{line}</li>)}
+          </ul>
+          <button onClick={() => setPackageMessage(null)} className="ml-4" title="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      
       {(isCreating || isEditing) ? (
         <div className="bg-white shadow-sm rounded-lg overflow-hidden">
           <div className="px-4 py-5 sm:px-6">
@@ -377,6 +1021,12 @@ const TemplateManager: React.FC = () => {
           <div className="border-t border-gray-200 px-4 py-5 sm:p-6">
             {renderForm()}
           </div>
+          {isEditing && editingTemplateId && (
+            <div className="border-t border-gray-200 px-4 py-5 sm:p-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Version History</h3>
+              <TemplateVersionHistory templateId={editingTemplateId} onRollback={closeForm} />
+            </div>
+          )}
         </div>
       ) : (
         <div className="bg-white shadow-sm rounded-lg overflow-hidden">
@@ -392,6 +1042,7 @@ const TemplateManager: React.FC = () => {
                     template={template}
                     onEdit={handleEditTemplate}
                     onDelete={handleDeleteTemplate}
+                    onExport={handleExportTemplate}
                   />
                 ))}
               </div>
@@ -416,6 +1067,9 @@ const TemplateManager: React.FC = () => {
           </div>
         </div>
       )}
+      
+      {!isCreating && !isEditing && <SignerRegistry />}
+      {!isCreating && !isEditing && <FontRegistry />}
     </div>
   );
 };
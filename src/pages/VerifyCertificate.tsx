@@ -1,21 +1,46 @@
 import React, { useEffect, useState } from 'react';
-import { Template } from '../types';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useCertificateStore } from '../store/certificateStore';
-import { CheckCircle, AlertTriangle, ArrowLeft, Share2, Download, Search, Award, Shield, Clock, User, Calendar, FileText, ExternalLink } from 'lucide-react';
-import { generateCertificatePDF } from '../utils/certificateGenerator';
+import { CheckCircle, AlertTriangle, Ban, ArrowLeft, Share2, Download, Search, Award, Shield, Clock, User, Calendar, FileText, ExternalLink } from 'lucide-react';
+import { buildRenderModel, getTemplateFields } from '../utils/certificateRenderer';
 import { downloadCertificatePDF, getCertificatePDFUrl } from '../utils/certificateStorage';
 import { supabase } from '../lib/supabase';
+import { fromDatabaseFont, fromDatabaseSigner, fromDatabaseTemplate, fromDatabaseTemplateVersion, isNetworkError } from '../utils/dataSync';
+import { findEmbeddedFont, isSystemFontStack } from '../utils/certificateFonts';
+import { applyTemplateVersion } from '../utils/templateVersions';
+import { isCertificateExpired } from '../utils/certificateHelpers';
+import { CustomFont, Signer, Template } from '../types';
+import { VerifiableCredential } from '../utils/verifiableCredential';
+import { downloadBadge } from '../utils/openBadges';
+import CredentialVerifier from '../components/CredentialVerifier';
+import CertificateCanvas from '../components/CertificateCanvas';
+import { saveAs } from 'file-saver';
+import {
+  SignatureStatus,
+  decodeCertificatePayload,
+  parseSignedQrData,
+  verifyCertificateSignature,
+  verifyDatabaseCertificate
+} from '../utils/certificateSignature';
 
 const VerifyCertificate: React.FC = () => {
   const { certificateId } = useParams<{ certificateId: string }>();
   const navigate = useNavigate();
-  const { certificates, recipients, templates } = useCertificateStore();
+  const { certificates, recipients, templates, templateVersions, signers, fonts } = useCertificateStore();
   const [isLoading, setIsLoading] = useState(false);
   const [isValid, setIsValid] = useState(false);
   const [certificate, setCertificate] = useState<any>(null);
   const [recipient, setRecipient] = useState<any>(null);
   const [template, setTemplate] = useState<any>(null);
+  const [templateSigners, setTemplateSigners] = useState<Signer[]>([]);
+  const [templateFonts, setTemplateFonts] = useState<CustomFont[]>([]);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [revocation, setRevocation] = useState<{ reason: string; revokedAt: string } | null>(null);
+  const [expiration, setExpiration] = useState<{ expiresAt: string; renewedBy?: string } | null>(null);
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null);
+  const [verifiedOffline, setVerifiedOffline] = useState(false);
+  const [credential, setCredential] = useState<VerifiableCredential | null>(null);
+  const [badgeCredential, setBadgeCredential] = useState<VerifiableCredential | null>(null);
   const [searchId, setSearchId] = useState('');
   const [showVerificationSteps, setShowVerificationSteps] = useState(!certificateId);
 
@@ -30,9 +55,29 @@ const VerifyCertificate: React.FC = () => {
     setCertificate(null);
     setRecipient(null);
     setTemplate(null);
+    setTemplateError(null);
+    setRevocation(null);
+    setExpiration(null);
+    setSignatureStatus(null);
+    setVerifiedOffline(false);
+    setCredential(null);
+    setBadgeCredential(null);
+
+    // Signed QR codes carry the payload, so they can be checked even if the database is unreachable
+    const qrSignature = parseSignedQrData(window.location.search);
+    const qrPayload = qrSignature && decodeCertificatePayload(qrSignature);
+    const scannedSignature = qrPayload?.code === id ? qrSignature : null;
 
     try {
-      const dbCertificate = await supabase.getCertificateByCode(id);
+      // Only an unreachable database falls back to the QR signature; a lookup that found
+      // nothing means the certificate was deleted or isn't public
+      let databaseUnreachable = false;
+      const dbCertificate = await supabase.getCertificateByCode(id).catch(error => {
+        if (!scannedSignature || !isNetworkError(error)) throw error;
+        console.error('Database unreachable, verifying the QR signature only:', error);
+        databaseUnreachable = true;
+        return null;
+      });
 
       if (dbCertificate) {
         setCertificate({
@@ -41,11 +86,26 @@ const VerifyCertificate: React.FC = () => {
           templateId: dbCertificate.template_id,
           qrCodeUrl: dbCertificate.qr_code_data || '',
           issueDate: dbCertificate.issue_date,
-          verificationUrl: dbCertificate.qr_code_data || '',
-          status: 'published' as const,
-          pdfUrl: dbCertificate.certificate_pdf_url
+          verificationUrl: dbCertificate.qr_code_data?.split('?')[0] || '',
+          status: dbCertificate.status === 'revoked' ? 'revoked' as const : 'published' as const,
+          pdfUrl: dbCertificate.certificate_pdf_url,
+          expiresAt: dbCertificate.expires_at || undefined,
+          templateVersion: dbCertificate.template_version ?? undefined
         });
 
+        if (dbCertificate.status === 'revoked') {
+          setRevocation({
+            reason: dbCertificate.revocation_reason || '',
+            revokedAt: dbCertificate.revoked_at || ''
+          });
+        } else if (dbCertificate.expires_at && isCertificateExpired({ expiresAt: dbCertificate.expires_at })) {
+          const renewal = await supabase.getRenewalOf(dbCertificate.certificate_code).catch(() => null);
+          setExpiration({
+            expiresAt: dbCertificate.expires_at,
+            renewedBy: renewal?.certificate_code
+          });
+        }
+
         setRecipient({
           id: dbCertificate.id || '',
           name: dbCertificate.recipient_name,
@@ -55,13 +115,67 @@ const VerifyCertificate: React.FC = () => {
           customFields: dbCertificate.metadata || {}
         });
 
-        const foundTemplate = templates.find(t => t.id === dbCertificate.template_id);
+        // Public visitors have no local cache, so fall back to the shared templates table
+        const localTemplate = templates.find(t => t.id === dbCertificate.template_id);
+        const remoteTemplate = localTemplate ? null : await supabase.getTemplate(dbCertificate.template_id).catch(() => null);
+        const currentTemplate = localTemplate || (remoteTemplate && fromDatabaseTemplate(remoteTemplate));
+        // Drawn with the version the certificate was issued with, not the template's latest layout
+        const issuedVersion = dbCertificate.template_version ?? 1;
+        const hasLocalVersion = templateVersions.some(v =>
+          v.templateId === dbCertificate.template_id && v.version === issuedVersion
+        );
+        const versions = hasLocalVersion || !currentTemplate
+          ? templateVersions
+          : (await supabase.getTemplateVersions(dbCertificate.template_id).catch(() => [])).map(fromDatabaseTemplateVersion);
+        let foundTemplate: Template | undefined;
+        try {
+          if (currentTemplate) {
+            foundTemplate = applyTemplateVersion(currentTemplate, versions, dbCertificate.template_version ?? undefined);
+          }
+        } catch (error) {
+          // The certificate is still valid; only its drawing is unavailable
+          console.error('Error loading the certificate template version:', error);
+          setTemplateError(`No se encontró la versión ${issuedVersion} de la plantilla con la que se emitió este certificado.`);
+        }
         if (foundTemplate) {
           setTemplate(foundTemplate);
+          // Same for the signers its signature fields point at
+          const missingSigner = getTemplateFields(foundTemplate).some(field =>
+            field.type === 'signature' && !signers.some(signer => signer.id === field.signerId)
+          );
+          setTemplateSigners(missingSigner
+            ? (await supabase.getSigners().catch(() => [])).map(fromDatabaseSigner)
+            : signers);
+          // And the registered fonts its text uses
+          const missingFont = getTemplateFields(foundTemplate).some(field =>
+            field.fontFamily && !isSystemFontStack(field.fontFamily) && !findEmbeddedFont(field.fontFamily, 'normal', fonts)
+          );
+          setTemplateFonts(missingFont
+            ? (await supabase.getFonts().catch(() => [])).map(fromDatabaseFont)
+            : fonts);
         }
 
+        setSignatureStatus(await verifyDatabaseCertificate(dbCertificate));
+        setCredential(dbCertificate.credential || null);
+        setBadgeCredential(dbCertificate.badge_credential || null);
         setIsValid(true);
         navigate(`/verify/${dbCertificate.certificate_code}`, { replace: true });
+      } else if (databaseUnreachable && scannedSignature && qrPayload && await verifyCertificateSignature(scannedSignature) === 'valid') {
+        setCertificate({
+          id: qrPayload.code,
+          qrCodeUrl: window.location.href,
+          verificationUrl: `${window.location.origin}${window.location.pathname}`,
+          issueDate: qrPayload.issueDate,
+          status: 'published' as const,
+          expiresAt: qrPayload.expiresAt || undefined
+        });
+        setRecipient({ name: qrPayload.name, course: qrPayload.course, issueDate: qrPayload.issueDate });
+        if (qrPayload.expiresAt && isCertificateExpired({ expiresAt: qrPayload.expiresAt })) {
+          setExpiration({ expiresAt: qrPayload.expiresAt });
+        }
+        setSignatureStatus('valid');
+        setVerifiedOffline(true);
+        setIsValid(true);
       } else {
         setIsValid(false);
       }
@@ -93,114 +207,29 @@ const VerifyCertificate: React.FC = () => {
     }
   };
 
-  const handleViewOnline = () => {
-    if (!certificate) return;
-    const pdfUrl = getCertificatePDFUrl(certificate.id);
-    window.open(pdfUrl, '_blank');
+  const handleDownloadCredential = () => {
+    if (!credential || !certificate) return;
+    const blob = new Blob([JSON.stringify(credential, null, 2)], { type: 'application/ld+json' });
+    saveAs(blob, `${certificate.id}.credential.json`);
   };
 
-  const oldHandleDownloadCertificate_BACKUP = async () => {
-    if (!recipient || !template || !certificate) return;
-
-    const container = document.createElement('div');
-    container.style.position = 'fixed';
-    container.style.left = '-9999px';
-    container.style.top = '0';
-    container.style.width = '1200px';
-    container.style.height = '848px';
-    document.body.appendChild(container);
+  const handleDownloadBadge = async (format: 'png' | 'svg') => {
+    if (!badgeCredential || !certificate) return;
 
     try {
-      // Create certificate preview
-      const certificateDiv = document.createElement('div');
-      certificateDiv.className = 'certificate-preview';
-      certificateDiv.style.width = '100%';
-      certificateDiv.style.height = '100%';
-      certificateDiv.style.position = 'relative';
-      certificateDiv.style.backgroundColor = 'white';
-      certificateDiv.style.overflow = 'hidden';
-
-      // Add template background
-      const img = document.createElement('img');
-      img.src = template.imageUrl;
-      img.alt = 'Certificate template';
-      img.style.position = 'absolute';
-      img.style.top = '0';
-      img.style.left = '0';
-      img.style.width = '100%';
-      img.style.height = '100%';
-      img.style.objectFit = 'cover';
-      certificateDiv.appendChild(img);
-
-      // Wait for image to load
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        setTimeout(resolve, 10000); // Longer fallback timeout
-      });
-
-      // Add text fields
-      template.fields.forEach((field: Template['fields'][0]) => {
-        if (field.type === 'qrcode') return; // Skip QR code for now
-        
-        const fieldDiv = document.createElement('div');
-        fieldDiv.style.position = 'absolute';
-        fieldDiv.style.left = `${field.x}%`;
-        fieldDiv.style.top = `${field.y}%`;
-        fieldDiv.style.transform = 'translate(-50%, -50%)';
-        fieldDiv.style.textAlign = 'center';
-        fieldDiv.style.width = '100%';
-        fieldDiv.style.maxWidth = '80%';
-        fieldDiv.style.fontFamily = field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
-        fieldDiv.style.fontSize = `${field.fontSize || 16}px`;
-        // Color alineado al masivo
-        fieldDiv.style.color = field.color || '#000';
-        fieldDiv.style.zIndex = '1';
-        fieldDiv.style.fontWeight = 'bold';
-        fieldDiv.style.textShadow = '1px 1px 2px rgba(255,255,255,0.8)';
-
-        switch (field.type) {
-          case 'text':
-            let textValue = '';
-            if (field.name === 'recipient') {
-              textValue = recipient.name;
-            } else if (field.name === 'course') {
-              textValue = recipient.course || field.defaultValue || '';
-            } else if (recipient.customFields && recipient.customFields[field.name]) {
-              textValue = recipient.customFields[field.name];
-            } else {
-              textValue = field.defaultValue || '';
-            }
-            fieldDiv.textContent = textValue;
-            break;
-
-          case 'date':
-            fieldDiv.textContent = new Date(recipient.issueDate).toLocaleDateString('es-ES', {
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric'
-            });
-            break;
-        }
-
-        certificateDiv.appendChild(fieldDiv);
-      });
-
-      container.appendChild(certificateDiv);
-
-      // Generate PDF
-      const fileName = `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`;
-      await generateCertificatePDF(certificateDiv, fileName);
-
+      await downloadBadge(certificate.id, badgeCredential, format);
     } catch (error) {
-      console.error('Error downloading certificate:', error);
-      alert('Error al descargar el certificado. Por favor, inténtelo de nuevo.');
-    } finally {
-      // Clean up
-      document.body.removeChild(container);
+      console.error('Error downloading badge:', error);
+      alert('No se pudo generar la insignia.');
     }
   };
 
+  const handleViewOnline = () => {
+    if (!certificate) return;
+    const pdfUrl = getCertificatePDFUrl(certificate.id);
+    window.open(pdfUrl, '_blank');
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchId.trim()) {
@@ -291,6 +320,8 @@ const VerifyCertificate: React.FC = () => {
           </form>
         </div>
 
+        <CredentialVerifier />
+
         {/* Verification Steps */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
           <div className="bg-white rounded-2xl shadow-lg p-8 text-center hover:shadow-xl transition-shadow duration-300">
@@ -428,6 +459,124 @@ const VerifyCertificate: React.FC = () => {
     );
   }
   
+  // A row whose signature doesn't check out was altered or inserted without the organization key
+  if (signatureStatus === 'invalid' || signatureStatus === 'unknown-key') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-gray-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+        <div className="max-w-lg w-full">
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto bg-gradient-to-r from-red-600 to-red-500 rounded-full flex items-center justify-center mb-6">
+              <AlertTriangle className="h-10 w-10 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold text-red-700 mb-2 tracking-wide">
+              FIRMA NO VÁLIDA
+            </h2>
+            <p className="text-gray-600 mb-8">
+              {signatureStatus === 'invalid'
+                ? 'Los datos de este certificado no coinciden con la firma digital de Red Ciudadana. No lo consideres auténtico.'
+                : 'Este certificado está firmado con una clave que Red Ciudadana no ha publicado. No lo consideres auténtico.'}
+            </p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6 space-y-3 text-sm text-gray-700">
+            <p><strong>Código:</strong> <span className="font-mono">{certificate?.id}</span></p>
+          </div>
+          <Link
+            to="/"
+            className="block w-full text-center bg-white text-gray-700 py-3 px-6 rounded-xl font-semibold border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+          >
+            <ArrowLeft className="inline-block mr-2 h-4 w-4" />
+            Volver al Inicio
+          </Link>
+        </div>
+      </div>
+    );
+  }
+  
+  if (revocation) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-gray-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+        <div className="max-w-lg w-full">
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto bg-gradient-to-r from-red-600 to-red-500 rounded-full flex items-center justify-center mb-6">
+              <Ban className="h-10 w-10 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold text-red-700 mb-2 tracking-wide">
+              REVOCADO
+            </h2>
+            <p className="text-gray-600 mb-8">
+              Este certificado fue emitido por Red Ciudadana pero ha sido revocado y ya no es válido.
+            </p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6 space-y-3 text-sm text-gray-700">
+            <p><strong>Nombre:</strong> {recipient?.name}</p>
+            <p><strong>Curso:</strong> {recipient?.course}</p>
+            <p><strong>Código:</strong> <span className="font-mono">{certificate?.id}</span></p>
+            <p><strong>Emitido:</strong> {certificate && new Date(certificate.issueDate).toLocaleDateString('es-ES')}</p>
+            {revocation.revokedAt && (
+              <p><strong>Revocado:</strong> {new Date(revocation.revokedAt).toLocaleDateString('es-ES')}</p>
+            )}
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="font-semibold text-red-800 mb-1">Motivo de la revocación</p>
+              <p className="text-red-700">{revocation.reason || 'No se indicó un motivo.'}</p>
+            </div>
+          </div>
+          <Link
+            to="/"
+            className="block w-full text-center bg-white text-gray-700 py-3 px-6 rounded-xl font-semibold border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+          >
+            <ArrowLeft className="inline-block mr-2 h-4 w-4" />
+            Volver al Inicio
+          </Link>
+        </div>
+      </div>
+    );
+  }
+  
+  if (expiration) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-white to-gray-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+        <div className="max-w-lg w-full">
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto bg-gradient-to-r from-yellow-500 to-yellow-400 rounded-full flex items-center justify-center mb-6">
+              <Clock className="h-10 w-10 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold text-yellow-700 mb-2 tracking-wide">
+              EXPIRADO
+            </h2>
+            <p className="text-gray-600 mb-8">
+              Este certificado fue emitido por Red Ciudadana pero su vigencia terminó.
+            </p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6 space-y-3 text-sm text-gray-700">
+            <p><strong>Nombre:</strong> {recipient?.name}</p>
+            <p><strong>Curso:</strong> {recipient?.course}</p>
+            <p><strong>Código:</strong> <span className="font-mono">{certificate?.id}</span></p>
+            <p><strong>Emitido:</strong> {certificate && new Date(certificate.issueDate).toLocaleDateString('es-ES')}</p>
+            <p><strong>Válido hasta:</strong> {new Date(expiration.expiresAt).toLocaleDateString('es-ES')}</p>
+            {expiration.renewedBy && (
+              <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
+                <p className="font-semibold text-gray-800 mb-1">Certificado renovado</p>
+                <Link
+                  to={`/verify/${expiration.renewedBy}`}
+                  className="text-gray-700 underline font-mono"
+                >
+                  {expiration.renewedBy}
+                </Link>
+              </div>
+            )}
+          </div>
+          <Link
+            to="/"
+            className="block w-full text-center bg-white text-gray-700 py-3 px-6 rounded-xl font-semibold border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+          >
+            <ArrowLeft className="inline-block mr-2 h-4 w-4" />
+            Volver al Inicio
+          </Link>
+        </div>
+      </div>
+    );
+  }
+  
   if (certificateId === 'preview') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -470,17 +619,30 @@ const VerifyCertificate: React.FC = () => {
         <div className="bg-white rounded-2xl shadow-xl overflow-hidden mb-8">
           <div className="px-6 py-6 border-b border-gray-200 bg-gradient-to-r from-gray-50 to-gray-50 flex justify-between items-center">
             <div className="flex items-center">
-              <div className="bg-gray-100 rounded-full p-3">
-                <CheckCircle className="h-8 w-8 text-gray-600" />
+              <div className={`rounded-full p-3 ${verifiedOffline ? 'bg-yellow-100' : 'bg-gray-100'}`}>
+                {verifiedOffline
+                  ? <AlertTriangle className="h-8 w-8 text-yellow-600" />
+                  : <CheckCircle className="h-8 w-8 text-gray-600" />}
               </div>
               <div className="ml-4">
-                <h2 className="text-2xl font-bold text-gray-800">Certificado Verificado</h2>
-                <p className="text-gray-600">Este certificado es auténtico y válido</p>
+                {verifiedOffline ? (
+                  <>
+                    <h2 className="text-2xl font-bold text-gray-800">Firma Válida</h2>
+                    <p className="text-gray-600">
+                      La firma del código QR es válida, pero no se pudo comprobar si el certificado fue revocado
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <h2 className="text-2xl font-bold text-gray-800">Certificado Verificado</h2>
+                    <p className="text-gray-600">Este certificado es auténtico y válido</p>
+                  </>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-3">
-              <span className="px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-full">
-                ✓ Auténtico
+              <span className={`px-4 py-2 text-sm font-semibold rounded-full ${verifiedOffline ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'}`}>
+                {verifiedOffline ? 'Revocación no comprobada' : '✓ Auténtico'}
               </span>
               <button
                 onClick={handleDownloadCertificate}
@@ -503,73 +665,20 @@ const VerifyCertificate: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Certificate Image */}
           <div className="lg:col-span-2">
-            {template && (
+            {templateError && (
+              <div className="bg-white rounded-2xl shadow-xl p-6 flex items-start text-sm text-yellow-800">
+                <AlertTriangle className="mr-2 h-5 w-5 flex-shrink-0 text-yellow-600" />
+                {templateError}
+              </div>
+            )}
+            {template && recipient && certificate && (
               <div className="bg-white rounded-2xl shadow-xl p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
                   <FileText className="mr-2 h-5 w-5 text-gray-600" />
                   Certificado Digital
                 </h3>
                 <div className="relative bg-gray-50 rounded-xl p-4 overflow-hidden">
-                  <div 
-                    className="relative w-full"
-                    style={{
-                      paddingTop: '70.7%', // Maintain aspect ratio (A4 landscape)
-                      backgroundImage: `url(${template.imageUrl})`,
-                      backgroundSize: 'contain',
-                      backgroundRepeat: 'no-repeat',
-                      backgroundPosition: 'center'
-                    }}
-                  >
-                    {/* Render certificate fields */}
-                    {template.fields.map((field: Template['fields'][0]) => {
-                      if (field.type === 'qrcode') return null; // Skip QR code in preview
-                      
-                      const style: React.CSSProperties = {
-                        position: 'absolute',
-                        left: `${field.x}%`,
-                        top: `${field.y}%`,
-                        transform: 'translate(-50%, -50%)',
-                        fontFamily: field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
-                        fontSize: `${(field.fontSize || 16) * 0.8}px`, // Scale down for preview
-                        // Color alineado al masivo
-                        color: field.color || '#000',
-                        textAlign: 'center',
-                        width: '100%',
-                        maxWidth: '80%',
-                        fontWeight: 'bold',
-                        textShadow: '1px 1px 2px rgba(255,255,255,0.8)',
-                        zIndex: 1
-                      };
-
-                      let textValue = '';
-                      switch (field.type) {
-                        case 'text':
-                          if (field.name === 'recipient') {
-                            textValue = recipient?.name || '';
-                          } else if (field.name === 'course') {
-                            textValue = recipient?.course || field.defaultValue || '';
-                          } else if (recipient?.customFields && recipient.customFields[field.name]) {
-                            textValue = recipient.customFields[field.name];
-                          } else {
-                            textValue = field.defaultValue || '';
-                          }
-                          break;
-                        case 'date':
-                          textValue = new Date(recipient?.issueDate || certificate?.issueDate).toLocaleDateString('es-ES', {
-                            year: 'numeric',
-                            month: 'long',
-                            day: 'numeric'
-                          });
-                          break;
-                      }
-
-                      return (
-                        <div key={field.id} style={style}>
-                          {textValue}
-                        </div>
-                      );
-                    })}
-                  </div>
+                  <CertificateCanvas model={buildRenderModel(template, recipient, certificate, templateSigners, templateFonts)} scaleToFit />
                 </div>
               </div>
             )}
@@ -627,6 +736,19 @@ const VerifyCertificate: React.FC = () => {
                         })}
                   </p>
                 </div>
+                {certificate?.expiresAt && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Válido hasta</label>
+                    <p className="text-gray-900 flex items-center">
+                      <Clock className="mr-2 h-4 w-4 text-gray-400" />
+                      {new Date(certificate.expiresAt).toLocaleDateString('es-ES', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric'
+                      })}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <label className="text-sm font-medium text-gray-500">ID del Certificado</label>
                   <p className="text-gray-900 font-mono text-sm bg-gray-50 px-3 py-2 rounded-lg">
@@ -640,6 +762,20 @@ const VerifyCertificate: React.FC = () => {
                     Válido y Verificado
                   </span>
                 </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-500">Firma Digital</label>
+                  <p className="text-gray-900 flex items-center">
+                    <Shield className="mr-2 h-4 w-4 text-gray-400" />
+                    {signatureStatus === 'valid'
+                      ? 'Firmado por Red Ciudadana'
+                      : 'Sin firma digital (emitido antes de la firma de certificados)'}
+                  </p>
+                  {verifiedOffline && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Firma válida, estado de revocación no comprobado: la base de datos no estaba disponible.
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -669,6 +805,33 @@ const VerifyCertificate: React.FC = () => {
                   <Download className="inline-block mr-2 h-4 w-4" />
                   Descargar Certificado PDF
                 </button>
+                {credential && (
+                  <button
+                    onClick={handleDownloadCredential}
+                    className="w-full bg-white text-gray-700 py-3 px-4 rounded-xl font-medium border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+                  >
+                    <FileText className="inline-block mr-2 h-4 w-4" />
+                    Descargar Credencial Verificable (JSON-LD)
+                  </button>
+                )}
+                {badgeCredential && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => handleDownloadBadge('png')}
+                      className="bg-white text-gray-700 py-3 px-4 rounded-xl font-medium border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <Award className="inline-block mr-2 h-4 w-4" />
+                      Open Badge PNG
+                    </button>
+                    <button
+                      onClick={() => handleDownloadBadge('svg')}
+                      className="bg-white text-gray-700 py-3 px-4 rounded-xl font-medium border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <Award className="inline-block mr-2 h-4 w-4" />
+                      Open Badge SVG
+                    </button>
+                  </div>
+                )}
                 <button
                   onClick={() => {
                     setShowVerificationSteps(true);
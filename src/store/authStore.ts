@@ -1,134 +1,225 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: 'admin';
-  createdAt: string;
-}
+import { supabaseAuth, AuthSession, AuthUser } from '../lib/auth';
+import { supabase } from '../lib/supabase';
+import { User } from '../types';
+import { isValidRole } from '../utils/permissions';
 
 interface AuthState {
   user: User | null;
+  session: AuthSession | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   isLoginModalOpen: boolean;
-  
+
   // Actions
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
-  register: (userData: Omit<User, 'id' | 'createdAt'> & { password: string }) => Promise<boolean>;
-  checkAuth: () => void;
+  logout: () => Promise<void>;
+  register: (userData: Omit<User, 'id' | 'createdAt' | 'role'> & { password: string }) => Promise<boolean>;
+  checkAuth: () => Promise<void>;
+  refreshSession: () => Promise<boolean>;
+  getAccessToken: () => Promise<string | null>;
   openLoginModal: () => void;
   closeLoginModal: () => void;
 }
 
-// Mock users for demonstration
-const mockUsers: Array<User & { password: string }> = [
-  {
-    id: '1',
-    email: 'admin@redciudadana.org',
-    password: 'her08236',
-    name: 'Administrador Red Ciudadana',
-    role: 'admin',
-    createdAt: new Date().toISOString()
-  },
-];
+// Refresh the access token this many seconds before it expires
+const REFRESH_MARGIN_SECONDS = 60;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// Shared so concurrent requests don't each spend the (single-use) refresh token
+let refreshInFlight: Promise<boolean> | null = null;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+const mapAuthUser = (authUser: AuthUser): User => {
+  const metadataName = authUser.user_metadata?.name;
+  // Roles live in app_metadata, which only the service role can write; user_metadata is user-editable
+  const role = authUser.app_metadata?.role;
+  return {
+    id: authUser.id,
+    email: authUser.email,
+    name: typeof metadataName === 'string' && metadataName ? metadataName : authUser.email,
+    role: isValidRole(role) ? role : 'student',
+    createdAt: authUser.created_at
+  };
+};
+
+const isSessionExpired = (session: AuthSession) =>
+  session.expires_at - REFRESH_MARGIN_SECONDS <= Math.floor(Date.now() / 1000);
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set, get) => ({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      isLoginModalOpen: false,
-
-      login: async (email: string, password: string) => {
-        set({ isLoading: true });
-        
-        // Simulate API call delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        const user = mockUsers.find(u => u.email === email && u.password === password);
-        
-        if (user) {
-          const { password: _, ...userWithoutPassword } = user;
-          set({ 
-            user: userWithoutPassword, 
-            isAuthenticated: true, 
-            isLoading: false 
-          });
-          return true;
-        } else {
-          set({ isLoading: false });
-          return false;
-        }
-      },
-
-      logout: () => {
-        set({ 
-          user: null, 
-          isAuthenticated: false 
+    (set, get) => {
+      const applySession = (session: AuthSession) => {
+        set({
+          session,
+          user: mapAuthUser(session.user),
+          isAuthenticated: true
         });
-      },
-
-      register: async (userData) => {
-        set({ isLoading: true });
-        
-        // Simulate API call delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Check if user already exists
-        const existingUser = mockUsers.find(u => u.email === userData.email);
-        if (existingUser) {
-          set({ isLoading: false });
-          return false;
-        }
-        
-        // Create new user
-        const newUser: User & { password: string } = {
-          id: Date.now().toString(),
-          email: userData.email,
-          name: userData.name,
-          role: userData.role,
-          password: userData.password,
-          createdAt: new Date().toISOString()
-        };
-        
-        mockUsers.push(newUser);
-        
-        const { password: _, ...userWithoutPassword } = newUser;
-        set({ 
-          user: userWithoutPassword, 
-          isAuthenticated: true, 
-          isLoading: false 
+        scheduleRefresh(session);
+      };
+
+      const clearSession = () => {
+        clearRefreshTimer();
+        set({
+          session: null,
+          user: null,
+          isAuthenticated: false
         });
-        
-        return true;
-      },
+      };
 
-      checkAuth: () => {
-        const { user } = get();
-        set({ isAuthenticated: !!user });
-      },
+      const scheduleRefresh = (session: AuthSession) => {
+        clearRefreshTimer();
+        const delayMs = (session.expires_at - REFRESH_MARGIN_SECONDS) * 1000 - Date.now();
+        refreshTimer = setTimeout(() => {
+          get().refreshSession();
+        }, Math.max(delayMs, 0));
+      };
 
-      openLoginModal: () => {
-        set({ isLoginModalOpen: true });
-      },
+      return {
+        user: null,
+        session: null,
+        isAuthenticated: false,
+        isLoading: false,
+        isLoginModalOpen: false,
 
-      closeLoginModal: () => {
-        set({ isLoginModalOpen: false });
-      }
-    }),
+        login: async (email: string, password: string) => {
+          set({ isLoading: true });
+
+          try {
+            const session = await supabaseAuth.signInWithPassword(email, password);
+            applySession(session);
+            return true;
+          } catch (error) {
+            console.error('Error signing in:', error);
+            return false;
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        logout: async () => {
+          const { session } = get();
+          clearSession();
+
+          if (session) {
+            try {
+              await supabaseAuth.signOut(session.access_token);
+            } catch (error) {
+              // The local session is already gone; a failed revoke only leaves an orphaned refresh token
+              console.error('Error revoking session:', error);
+            }
+          }
+        },
+
+        register: async (userData) => {
+          set({ isLoading: true });
+
+          try {
+            const session = await supabaseAuth.signUp(userData.email, userData.password, {
+              name: userData.name
+            });
+            if (session) {
+              applySession(session);
+            }
+            return true;
+          } catch (error) {
+            console.error('Error registering user:', error);
+            return false;
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        checkAuth: async () => {
+          const { session } = get();
+          if (!session) {
+            clearSession();
+            return;
+          }
+
+          if (isSessionExpired(session)) {
+            await get().refreshSession();
+            return;
+          }
+
+          try {
+            const authUser = await supabaseAuth.getUser(session.access_token);
+            applySession({ ...session, user: authUser });
+          } catch (error) {
+            console.error('Stored session is no longer valid:', error);
+            clearSession();
+          }
+        },
+
+        refreshSession: async () => {
+          const { session } = get();
+          if (!session) return false;
+
+          if (!refreshInFlight) {
+            refreshInFlight = supabaseAuth.refreshSession(session.refresh_token)
+              .then(refreshed => {
+                applySession(refreshed);
+                return true;
+              })
+              .catch(error => {
+                console.error('Error refreshing session:', error);
+                clearSession();
+                return false;
+              })
+              .finally(() => {
+                refreshInFlight = null;
+              });
+          }
+
+          return refreshInFlight;
+        },
+
+        getAccessToken: async () => {
+          const { session } = get();
+          if (!session) return null;
+
+          if (isSessionExpired(session)) {
+            const refreshed = await get().refreshSession();
+            return refreshed ? get().session?.access_token || null : null;
+          }
+
+          return session.access_token;
+        },
+
+        openLoginModal: () => {
+          set({ isLoginModalOpen: true });
+        },
+
+        closeLoginModal: () => {
+          set({ isLoginModalOpen: false });
+        }
+      };
+    },
     {
       name: 'auth-store',
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
-        user: state.user,
+        session: state.session,
         isAuthenticated: state.isAuthenticated,
         isLoginModalOpen: false // Don't persist modal state
-      })
+      }),
+      // The user, and with it the role, always comes from the session's app_metadata, never from a stored copy
+      merge: (persisted, current) => {
+        const { session, isAuthenticated } = (persisted || {}) as Partial<AuthState>;
+        return session
+          ? { ...current, session, isAuthenticated: Boolean(isAuthenticated), user: mapAuthUser(session.user) }
+          : current;
+      }
     }
   )
-);
\ No newline at end of file
+);
+
+// Database and storage writes run as the signed-in user so RLS can tell admins from anonymous visitors
+supabase.setAccessTokenProvider(() => useAuthStore.getState().getAccessToken());
@@ -1,102 +1,116 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { Template, Recipient, Certificate, CertificateCollection } from '../types';
+import { Template, Recipient, Certificate, CertificateCollection, Signer, TemplateVersion, CustomFont } from '../types';
 import { nanoid } from 'nanoid';
-import { supabase, DatabaseCertificate } from '../lib/supabase';
-import { generateAndUploadCertificatePDF } from '../utils/certificateStorage';
+import { supabase } from '../lib/supabase';
+import { calculateExpiresAt } from '../utils/certificateHelpers';
+import { uploadCertificatePDF } from '../utils/certificateStorage';
+import { renderCertificatePDF } from '../utils/certificateRenderer';
+import { moveTemplateImagesToStorage, removeLegacyStoredImages } from '../utils/imageStorage';
+import {
+  createTemplateVersion,
+  getCertificateTemplate,
+  getTemplateSnapshot,
+  getTemplateVersions,
+  isSameSnapshot,
+  rebaseTemplateVersions
+} from '../utils/templateVersions';
+import {
+  IssuanceJob,
+  IssuanceStage,
+  ISSUANCE_CONCURRENCY,
+  MAX_ISSUANCE_ATTEMPTS,
+  createIssuanceJob,
+  getRetryDelay,
+  isAwaitingReview,
+  isJobActive,
+  isJobDue,
+  toDatabaseCertificate
+} from '../utils/issuanceQueue';
+import {
+  PendingChange,
+  RejectedChange,
+  SyncEntity,
+  enqueueChange,
+  enqueueReplacement,
+  isNetworkError,
+  mergeWithPending,
+  toDatabaseTemplate,
+  fromDatabaseTemplate,
+  toDatabaseTemplateVersion,
+  fromDatabaseTemplateVersion,
+  toDatabaseSigner,
+  fromDatabaseSigner,
+  toDatabaseFont,
+  fromDatabaseFont,
+  toDatabaseRecipient,
+  fromDatabaseRecipient,
+  toDatabaseCollection,
+  fromDatabaseCollection,
+  fromDatabaseCertificate
+} from '../utils/dataSync';
+import { defaultTemplates } from './defaultTemplates';
 
 // Default data for certificates that can be validated
-const defaultTemplates: Template[] = [
-  {
-    id: 'proteccion-datos-personales',
-    name: 'Certificado de Protección de Datos Personales',
-    imageUrl: '/assets/certificate-templates/proteccion-datos-personales.jpg',
-    fields: [
-      { 
-        id: nanoid(), 
-        name: 'recipient', 
-        type: 'text', 
-        x: 30, 
-        y: 40, 
-        fontSize: 28, 
-        fontFamily: "Sora, sans-serif", 
-        color: '#1a365d' 
-      }
-    ]
-  },
-  {
-    id: 'power-bi-avanzado',
-    name: 'Certificado de Power BI Avanzado',
-    imageUrl: '/assets/certificate-templates/power-bi-avanzado.jpg',
-    fields: [
-      { 
-        id: nanoid(), 
-        name: 'recipient', 
-        type: 'text', 
-        x: 30, 
-        y: 40, 
-        fontSize: 28, 
-        fontFamily: "Sora, sans-serif", 
-        color: '#1a365d' 
-      }
-    ]
-  },
-  {
-    id: 'excel-avanzado',
-    name: 'Certificado de Excel Avanzado',
-    imageUrl: '/assets/certificate-templates/excel-avanzado.jpg',
-    fields: [
-      { 
-        id: nanoid(), 
-        name: 'recipient', 
-        type: 'text', 
-        x: 30, 
-        y: 40, 
-        fontSize: 28, 
-        fontFamily: "Sora, sans-serif", 
-        color: '#1a365d' 
-      }
-    ]
-  },
-  {
-    id: 'datos-abiertos',
-    name: 'Certificado de Datos Abiertos',
-    imageUrl: '/assets/certificate-templates/datos-abiertos.jpg',
-    fields: [
-      { 
-        id: nanoid(), 
-        name: 'recipient', 
-        type: 'text', 
-        x: 30, 
-        y: 40, 
-        fontSize: 28, 
-        fontFamily: "Sora, sans-serif", 
-        color: '#1a365d' 
-      }
-    ]
-  },
-];
-
 const defaultRecipients: Recipient[] = [
 ];
 
 const defaultCertificates: Certificate[] = [
 ];
 
+interface GenerateOptions {
+  // Issue as a draft that a reviewer must approve before it becomes publicly verifiable
+  requiresReview?: boolean;
+  // Overrides the expiration derived from the template's validity period
+  expiresAt?: string;
+  // Id of the certificate this one renews
+  renewalOf?: string;
+}
+
 interface CertificateStore {
   // State
   templates: Template[];
+  templateVersions: TemplateVersion[];
+  signers: Signer[];
+  fonts: CustomFont[];
   recipients: Recipient[];
   certificates: Certificate[];
   collections: CertificateCollection[];
   currentTemplateId: string | null;
   
+  // Sync state: Supabase is the source of truth, this store is a cache of it
+  pendingChanges: PendingChange[];
+  // Refused by the server; kept with their local records until retried or discarded
+  rejectedChanges: RejectedChange[];
+  lastSyncedAt: string | null;
+  isSyncing: boolean;
+  syncError: string | null;
+  // Whether the signed-in user's role can write to the database; read-only roles queue nothing
+  canWrite: boolean;
+  userId: string | null;
+  
+  // Certificates still making their way to the database and storage
+  issuanceJobs: IssuanceJob[];
+  
   // Template actions
   addTemplate: (template: Omit<Template, 'id'>) => string;
+  // Publishes the new content as the template's next version
   updateTemplate: (id: string, template: Omit<Template, 'id'>) => void;
+  // Publishes a copy of an older version as the newest one
+  rollbackTemplate: (id: string, version: number) => void;
   deleteTemplate: (id: string) => void;
   setCurrentTemplate: (id: string) => void;
   
+  // Signer actions
+  addSigner: (signer: Omit<Signer, 'id'>) => string;
+  updateSigner: (id: string, signer: Omit<Signer, 'id'>) => void;
+  deleteSigner: (id: string) => void;
+  
+  // Font registry actions
+  // Replaces the file of a family and style that is already registered
+  addFont: (font: Omit<CustomFont, 'id'>) => string;
+  deleteFont: (id: string) => void;
+  
   // Recipient actions
   addRecipient: (recipient: Omit<Recipient, 'id'>) => string;
   addRecipients: (recipients: Omit<Recipient, 'id'>[]) => string[];
@@ -104,9 +118,16 @@ interface CertificateStore {
   deleteRecipient: (id: string) => void;
   
   // Certificate actions
-  generateCertificate: (recipientId: string, templateId: string) => string;
-  generateBulkCertificates: (recipientIds: string[], templateId: string) => string[];
+  generateCertificate: (recipientId: string, templateId: string, options?: GenerateOptions) => string;
+  generateBulkCertificates: (recipientIds: string[], templateId: string, options?: GenerateOptions) => string[];
+  renewCertificate: (id: string, options?: GenerateOptions) => string;
   updateCertificate: (id: string, certificate: Partial<Certificate>) => void;
+  enqueueIssuance: (jobs: IssuanceJob[]) => void;
+  processIssuanceQueue: () => Promise<void>;
+  retryIssuance: (certificateId: string) => void;
+  clearCompletedIssuance: () => void;
+  publishCertificates: (ids: string[], reviewerId: string) => Promise<string[]>; // Resolves to the ids that were not approved
+  revokeCertificate: (id: string, reason: string, revokedBy: string) => Promise<void>;
   deleteCertificate: (id: string) => void;
   
   // Collection actions
@@ -121,371 +142,1036 @@ interface CertificateStore {
   clearAllData: () => void;
   exportData: () => string;
   importData: (jsonData: string) => void;
+  
+  // Sync actions
+  setAccess: (access: { userId: string | null; canWrite: boolean }) => void;
+  hydrateFromDatabase: () => Promise<void>;
+  syncPendingChanges: () => Promise<void>;
+  retryRejectedChanges: () => void;
+  // Drops the rejected changes and reloads the server's copy of their records
+  discardRejectedChanges: () => Promise<void>;
+  // Uploads template images still embedded as data URLs to storage
+  migrateTemplateImages: () => Promise<void>;
 }
 
+// Rendered PDFs waiting to be uploaded. Not persisted: after a reload the upload step re-renders
+const renderedPdfs = new Map<string, Blob>();
+
+const SYNC_ERROR = 'Algunos cambios no se pudieron guardar en el servidor.';
+const READ_ONLY_ERROR = 'Tu rol no puede guardar cambios en el servidor.';
+
+// Tries at publishing a template's versions while other browsers keep taking its next numbers
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+let issuanceInFlight: Promise<void> | null = null;
+let issuanceTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Shared so overlapping writes flush the queue once, in order
+let syncInFlight: Promise<void> | null = null;
+
+const fetchRemoteData = async () => {
+  const [templates, templateVersions, signers, fonts, recipients, collections, certificates] = await Promise.all([
+    supabase.getTemplates(),
+    supabase.getTemplateVersions(),
+    supabase.getSigners(),
+    supabase.getFonts(),
+    supabase.getRecipients(),
+    supabase.getCollections(),
+    supabase.getAllCertificates()
+  ]);
+  return { templates, templateVersions, signers, fonts, recipients, collections, certificates };
+};
+
 export const useCertificateStore = create<CertificateStore>()(
   persist(
-    (set, get) => ({
-      // Initial state
-      templates: defaultTemplates,
-      recipients: defaultRecipients,
-      certificates: defaultCertificates,
-      collections: [],
-      currentTemplateId: defaultTemplates[0]?.id || null,
-      
-      // Template actions
-      addTemplate: (template) => {
-        const id = nanoid();
-        const newTemplate = { ...template, id };
+    (set, get) => {
+      const rejectChanges = (changes: PendingChange[], error: string) => {
+        const rejectedAt = new Date().toISOString();
         set(state => ({
-          templates: [...state.templates, newTemplate]
+          rejectedChanges: [
+            ...state.rejectedChanges.filter(r => !changes.some(c => c.entity === r.entity && c.recordId === r.recordId)),
+            ...changes.map(change => ({ ...change, error, rejectedAt }))
+          ],
+          syncError: SYNC_ERROR
         }));
-        return id;
-      },
-      
-      updateTemplate: (id, template) => {
+      };
+
+      const queueChanges = (update: (queue: PendingChange[]) => PendingChange[]) => {
+        const changes = update([]);
+        if (!get().canWrite) {
+          // The server would refuse them; keep the edits visible instead of queueing them
+          rejectChanges(changes, READ_ONLY_ERROR);
+          return;
+        }
         set(state => ({
-          templates: state.templates.map(t => 
-            t.id === id ? { ...template, id } : t
+          pendingChanges: update(state.pendingChanges),
+          // A new change to a record supersedes the one the server refused
+          rejectedChanges: state.rejectedChanges.filter(r =>
+            !changes.some(c => c.entity === r.entity && c.recordId === r.recordId)
           )
         }));
-      },
-      
-      deleteTemplate: (id) => {
-        set(state => ({
-          templates: state.templates.filter(t => t.id !== id),
-          currentTemplateId: state.currentTemplateId === id ? 
-            (state.templates.find(t => t.id !== id)?.id || null) : 
-            state.currentTemplateId
-        }));
-      },
-      
-      setCurrentTemplate: (id) => {
-        set({ currentTemplateId: id });
-      },
-      
-      // Recipient actions
-      addRecipient: (recipient) => {
-        const id = nanoid();
-        const newRecipient = { ...recipient, id };
-        set(state => ({
-          recipients: [...state.recipients, newRecipient]
-        }));
-        return id;
-      },
-      
-      addRecipients: (recipients) => {
-        const newRecipients = recipients.map(recipient => ({
-          ...recipient,
-          id: nanoid()
-        }));
-        set(state => ({
-          recipients: [...state.recipients, ...newRecipients]
-        }));
-        return newRecipients.map(r => r.id);
-      },
-      
-      updateRecipient: (id, recipient) => {
+        get().syncPendingChanges();
+      };
+
+      const queueChange = (entity: SyncEntity, recordId: string, operation: PendingChange['operation']) => {
+        queueChanges(queue => enqueueChange(queue, { entity, recordId, operation }));
+      };
+
+      /**
+       * Uploads a template with the versions the server hasn't recorded. When another
+       * browser published the same version numbers first, ours go after its latest one.
+       */
+      const pushTemplate = async (templateId: string) => {
+        for (let attempt = 1; ; attempt++) {
+          const remote = (await supabase.getTemplateVersions(templateId)).map(fromDatabaseTemplateVersion);
+          const { versions, renumbered } = rebaseTemplateVersions(
+            get().templateVersions.filter(v => v.templateId === templateId),
+            remote
+          );
+          const template = get().templates.find(t => t.id === templateId);
+          if (!template) return;
+          const version = template.version && (renumbered.get(template.version) ?? template.version);
+          await supabase.upsertTemplates([toDatabaseTemplate({ ...template, version })]);
+          try {
+            await supabase.insertTemplateVersions(versions.map(toDatabaseTemplateVersion));
+          } catch (error) {
+            // Someone published between the fetch and the insert: fetch their versions and renumber again
+            if (isNetworkError(error) || attempt >= MAX_PUBLISH_ATTEMPTS) throw error;
+            continue;
+          }
+
+          if (renumbered.size > 0) {
+            const isRenumbered = (templateVersion?: number) => templateVersion !== undefined && renumbered.has(templateVersion);
+            set(state => ({
+              templateVersions: [
+                ...state.templateVersions.filter(v => v.templateId !== templateId),
+                ...remote,
+                ...versions
+              ],
+              templates: state.templates.map(t =>
+                t.id === templateId && isRenumbered(t.version) ? { ...t, version: renumbered.get(t.version!) } : t
+              ),
+              // Certificates the issuance queue hasn't recorded yet follow their version to its new number
+              certificates: state.certificates.map(c =>
+                c.templateId === templateId && isRenumbered(c.templateVersion) &&
+                state.issuanceJobs.some(job => job.certificateId === c.id && job.stage === 'pending')
+                  ? { ...c, templateVersion: renumbered.get(c.templateVersion!) }
+                  : c
+              )
+            }));
+          }
+          return;
+        }
+      };
+
+      const pushChange = async ({ entity, recordId, operation }: PendingChange) => {
+        const state = get();
+
+        if (entity === 'templates') {
+          if (operation === 'delete') {
+            await supabase.deleteTemplate(recordId);
+          } else {
+            await pushTemplate(recordId);
+          }
+        } else if (entity === 'signers') {
+          const signer = state.signers.find(s => s.id === recordId);
+          if (operation === 'delete') {
+            await supabase.deleteSigner(recordId);
+          } else if (signer) {
+            await supabase.upsertSigners([toDatabaseSigner(signer)]);
+          }
+        } else if (entity === 'fonts') {
+          const font = state.fonts.find(f => f.id === recordId);
+          if (operation === 'delete') {
+            await supabase.deleteFont(recordId);
+          } else if (font) {
+            await supabase.upsertFonts([toDatabaseFont(font)]);
+          }
+        } else if (entity === 'recipients') {
+          const recipient = state.recipients.find(r => r.id === recordId);
+          if (operation === 'delete') {
+            await supabase.deleteRecipient(recordId);
+          } else if (recipient) {
+            await supabase.upsertRecipients([toDatabaseRecipient(recipient)]);
+          }
+        } else {
+          const collection = state.collections.find(c => c.id === recordId);
+          if (operation === 'delete') {
+            await supabase.deleteCollection(recordId);
+          } else if (collection) {
+            await supabase.upsertCollections([toDatabaseCollection(collection)]);
+          }
+        }
+      };
+
+      const updateJob = (certificateId: string, updates: Partial<IssuanceJob>) => {
         set(state => ({
-          recipients: state.recipients.map(r => 
-            r.id === id ? { ...recipient, id } : r
+          issuanceJobs: state.issuanceJobs.map(job =>
+            job.certificateId === certificateId
+              ? { ...job, ...updates, updatedAt: new Date().toISOString() }
+              : job
           )
         }));
-      },
-      
-      deleteRecipient: (id) => {
-        set(state => ({
-          recipients: state.recipients.filter(r => r.id !== id),
-          certificates: state.certificates.filter(c => c.recipientId !== id)
-        }));
-      },
-      
-      // Certificate actions
-      generateCertificate: (recipientId, templateId) => {
-        const id = nanoid();
-        const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
-        const verificationUrl = `${baseUrl}/verify/${id}`;
-
-        const certificate: Certificate = {
-          id,
-          recipientId,
-          templateId,
-          qrCodeUrl: verificationUrl,
-          issueDate: new Date().toISOString(),
-          verificationUrl,
-          status: 'published'
-        };
+      };
 
-        set(state => ({
-          certificates: [...state.certificates, certificate]
-        }));
+      // Runs the current step of a job and returns the stage it reached
+      const advanceJob = async (job: IssuanceJob): Promise<IssuanceStage> => {
+        const { certificates, recipients, templates, templateVersions, signers, fonts } = get();
+        const certificate = certificates.find(c => c.id === job.certificateId);
+        const recipient = recipients.find(r => r.id === job.recipientId);
+        const template = certificate && getCertificateTemplate(templates, templateVersions, certificate);
 
-        const { recipients, templates } = get();
-        const recipient = recipients.find(r => r.id === recipientId);
-        const template = templates.find(t => t.id === templateId);
-
-        if (recipient && template) {
-          const dbCertificate: DatabaseCertificate = {
-            certificate_code: id,
-            recipient_name: recipient.name,
-            recipient_email: recipient.email || '',
-            recipient_id: recipient.customFields?.studentId || null,
-            course_name: recipient.course || template.name,
-            template_id: templateId,
-            issue_date: new Date().toISOString().split('T')[0],
-            qr_code_data: verificationUrl,
-            status: 'active'
-          };
+        if (!certificate || !recipient || !template) {
+          throw new Error('Falta el certificado, el destinatario o la plantilla');
+        }
 
-          console.log('Attempting to save certificate to database:', dbCertificate);
-          supabase.insertCertificate(dbCertificate)
-            .then(async result => {
-              console.log('Certificate successfully saved to database:', result);
+        switch (job.stage) {
+          case 'pending':
+            await supabase.insertCertificate(toDatabaseCertificate(job, certificate, recipient, template));
+            return 'recorded';
+          case 'recorded': {
+            const signed = await supabase.signCertificate(job.certificateId);
+            get().updateCertificate(job.certificateId, {
+              qrCodeUrl: signed.qr_code_data,
+              signature: { payload: signed.payload, value: signed.signature, keyId: signed.key_id }
+            });
+            return 'signed';
+          }
+          case 'signed':
+            renderedPdfs.set(
+              job.certificateId,
+              await renderCertificatePDF(template, recipient, certificate, signers, fonts)
+            );
+            return 'rendered';
+          case 'rendered': {
+            const pdfBlob = renderedPdfs.get(job.certificateId) ||
+              await renderCertificatePDF(template, recipient, certificate, signers, fonts);
+            const pdfUrl = await uploadCertificatePDF(job.certificateId, pdfBlob);
+            renderedPdfs.delete(job.certificateId);
+            updateJob(job.certificateId, { pdfUrl });
+            return 'uploaded';
+          }
+          case 'uploaded':
+            await supabase.linkCertificatePDF(job.certificateId);
+            return 'linked';
+          default:
+            return job.stage;
+        }
+      };
 
-              try {
-                console.log('Generating and uploading PDF to storage...');
-                const pdfUrl = await generateAndUploadCertificatePDF(id, template, recipient);
-                console.log('PDF uploaded successfully:', pdfUrl);
+      // Advances a job until it completes or a step fails, then backs off
+      const runJob = async (certificateId: string) => {
+        for (;;) {
+          const job = get().issuanceJobs.find(j => j.certificateId === certificateId);
+          // Drafts stop once recorded; approval clears requiresReview and resumes them
+          if (!job || !isJobActive(job) || isAwaitingReview(job)) return;
 
-                await supabase.updateCertificatePDFUrl(id, pdfUrl);
-                console.log('Certificate PDF URL updated in database');
-              } catch (pdfError) {
-                console.error('Error generating/uploading PDF:', pdfError);
-              }
-            })
-            .catch(error => {
-              console.error('Error saving certificate to database:', error);
-              alert('Warning: Certificate was created but could not be saved to database. Please check console for details.');
+          try {
+            const stage = await advanceJob(job);
+            updateJob(certificateId, { stage, attempts: 0, lastError: undefined });
+          } catch (error) {
+            const attempts = job.attempts + 1;
+            console.error(`Issuance of ${certificateId} failed at stage "${job.stage}" (attempt ${attempts}):`, error);
+            updateJob(certificateId, {
+              attempts,
+              failed: attempts >= MAX_ISSUANCE_ATTEMPTS,
+              nextAttemptAt: Date.now() + getRetryDelay(attempts),
+              lastError: error instanceof Error ? error.message : String(error)
             });
-        } else {
-          console.error('Missing recipient or template data:', { recipient, template });
+            return;
+          }
         }
+      };
 
-        return id;
-      },
-      
-      generateBulkCertificates: (recipientIds, templateId) => {
-        const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
-        const { recipients, templates } = get();
-        const template = templates.find(t => t.id === templateId);
+      const scheduleNextIssuanceRun = () => {
+        if (issuanceTimer) {
+          clearTimeout(issuanceTimer);
+          issuanceTimer = null;
+        }
+
+        const waiting = get().issuanceJobs.filter(job => isJobActive(job) && !isAwaitingReview(job));
+        if (waiting.length === 0) return;
+
+        const nextAttemptAt = Math.min(...waiting.map(job => job.nextAttemptAt));
+        issuanceTimer = setTimeout(() => {
+          get().processIssuanceQueue();
+        }, Math.max(nextAttemptAt - Date.now(), 0));
+      };
+
+      /**
+       * Records a template's content as its next version, unless the latest version
+       * already holds it, and returns the template stamped with that version.
+       */
+      const publishVersion = (template: Template, note?: string): Template => {
+        const [latest] = getTemplateVersions(get().templateVersions, template.id);
+        if (latest && isSameSnapshot(latest.snapshot, getTemplateSnapshot(template))) {
+          return { ...template, version: latest.version };
+        }
+        const version = createTemplateVersion(template, get().templateVersions, note);
+        set(state => ({ templateVersions: [...state.templateVersions, version] }));
+        return { ...template, version: version.version };
+      };
+
+      // Certificates record the version they're issued with, so a template needs one before it issues
+      const getPublishedTemplate = (templateId: string): Template | undefined => {
+        const template = get().templates.find(t => t.id === templateId);
+        if (!template) return undefined;
+        const published = publishVersion(template);
+        if (published.version !== template.version) {
+          set(state => ({ templates: state.templates.map(t => (t.id === templateId ? published : t)) }));
+          queueChange('templates', templateId, 'upsert');
+        }
+        return published;
+      };
 
-        const newCertificates = recipientIds.map(recipientId => {
+      return {
+        // Initial state
+        templates: defaultTemplates,
+        templateVersions: [],
+        signers: [],
+        fonts: [],
+        recipients: defaultRecipients,
+        certificates: defaultCertificates,
+        collections: [],
+        currentTemplateId: defaultTemplates[0]?.id || null,
+        pendingChanges: [],
+        rejectedChanges: [],
+        lastSyncedAt: null,
+        isSyncing: false,
+        syncError: null,
+        canWrite: false,
+        userId: null,
+        issuanceJobs: [],
+      
+        // Template actions
+        addTemplate: (template) => {
+          const id = nanoid();
+          const newTemplate = publishVersion({ ...template, id });
+          set(state => ({
+            templates: [...state.templates, newTemplate]
+          }));
+          queueChange('templates', id, 'upsert');
+          return id;
+        },
+      
+        updateTemplate: (id, template) => {
+          // Templates from before versioning keep the layout their certificates were issued with as version 1
+          const current = get().templates.find(t => t.id === id);
+          if (current && getTemplateVersions(get().templateVersions, id).length === 0) {
+            publishVersion(current, 'Initial version');
+          }
+          const updated = publishVersion({ ...template, id });
+          set(state => ({
+            templates: state.templates.map(t => 
+              t.id === id ? updated : t
+            )
+          }));
+          queueChange('templates', id, 'upsert');
+        },
+      
+        rollbackTemplate: (id, version) => {
+          const target = get().templateVersions.find(v => v.templateId === id && v.version === version);
+          if (!target) {
+            throw new Error(`Version ${version} of template ${id} not found`);
+          }
+          const restored = publishVersion({ ...target.snapshot, id }, `Rolled back to version ${version}`);
+          set(state => ({
+            templates: state.templates.map(t => (t.id === id ? restored : t))
+          }));
+          queueChange('templates', id, 'upsert');
+        },
+      
+        deleteTemplate: (id) => {
+          set(state => ({
+            // Its versions stay: certificates issued with the template still render with them
+            templates: state.templates.filter(t => t.id !== id),
+            currentTemplateId: state.currentTemplateId === id ? 
+              (state.templates.find(t => t.id !== id)?.id || null) : 
+              state.currentTemplateId
+          }));
+          queueChange('templates', id, 'delete');
+        },
+      
+        setCurrentTemplate: (id) => {
+          set({ currentTemplateId: id });
+        },
+      
+        // Signer actions
+        addSigner: (signer) => {
+          const id = nanoid();
+          set(state => ({
+            signers: [...state.signers, { ...signer, id }]
+          }));
+          queueChange('signers', id, 'upsert');
+          return id;
+        },
+      
+        updateSigner: (id, signer) => {
+          set(state => ({
+            signers: state.signers.map(s => 
+              s.id === id ? { ...signer, id } : s
+            )
+          }));
+          queueChange('signers', id, 'upsert');
+        },
+      
+        // Signature fields that pointed at the signer are left out of renders
+        deleteSigner: (id) => {
+          set(state => ({
+            signers: state.signers.filter(s => s.id !== id)
+          }));
+          queueChange('signers', id, 'delete');
+        },
+      
+        // Font registry actions
+        addFont: (font) => {
+          const existing = get().fonts.find(f =>
+            f.family.toLowerCase() === font.family.toLowerCase() && f.style === font.style
+          );
+          const id = existing?.id || nanoid();
+          set(state => ({
+            fonts: existing
+              ? state.fonts.map(f => (f.id === id ? { ...font, id } : f))
+              : [...state.fonts, { ...font, id }]
+          }));
+          queueChange('fonts', id, 'upsert');
+          return id;
+        },
+      
+        // Text still set in the family fails to render until it is uploaded again
+        deleteFont: (id) => {
+          set(state => ({
+            fonts: state.fonts.filter(f => f.id !== id)
+          }));
+          queueChange('fonts', id, 'delete');
+        },
+      
+        // Recipient actions
+        addRecipient: (recipient) => {
           const id = nanoid();
+          const newRecipient = { ...recipient, id };
+          set(state => ({
+            recipients: [...state.recipients, newRecipient]
+          }));
+          queueChange('recipients', id, 'upsert');
+          return id;
+        },
+      
+        addRecipients: (recipients) => {
+          const newRecipients = recipients.map(recipient => ({
+            ...recipient,
+            id: nanoid()
+          }));
+          set(state => ({
+            recipients: [...state.recipients, ...newRecipients]
+          }));
+          queueChanges(queue => enqueueReplacement(queue, 'recipients', [], newRecipients));
+          return newRecipients.map(r => r.id);
+        },
+      
+        updateRecipient: (id, recipient) => {
+          set(state => ({
+            recipients: state.recipients.map(r => 
+              r.id === id ? { ...recipient, id } : r
+            )
+          }));
+          queueChange('recipients', id, 'upsert');
+        },
+      
+        deleteRecipient: (id) => {
+          set(state => ({
+            recipients: state.recipients.filter(r => r.id !== id),
+            certificates: state.certificates.filter(c => c.recipientId !== id)
+          }));
+          queueChange('recipients', id, 'delete');
+        },
+      
+        // Certificate actions
+        generateCertificate: (recipientId, templateId, options = {}) => {
+          const id = nanoid();
+          const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
           const verificationUrl = `${baseUrl}/verify/${id}`;
+          const issueDate = new Date().toISOString();
+          const template = getPublishedTemplate(templateId);
 
-          return {
+          const certificate: Certificate = {
             id,
             recipientId,
             templateId,
             qrCodeUrl: verificationUrl,
-            issueDate: new Date().toISOString(),
+            issueDate,
             verificationUrl,
-            status: 'published' as const
+            status: options.requiresReview ? 'draft' : 'published',
+            expiresAt: options.expiresAt || calculateExpiresAt(issueDate, template?.validityMonths),
+            renewalOf: options.renewalOf,
+            templateVersion: template?.version
           };
-        });
 
-        set(state => ({
-          certificates: [...state.certificates, ...newCertificates]
-        }));
+          set(state => ({
+            certificates: [...state.certificates, certificate]
+          }));
+
+          get().enqueueIssuance([createIssuanceJob(id, recipientId, templateId, !!options.requiresReview)]);
+
+          return id;
+        },
+      
+        generateBulkCertificates: (recipientIds, templateId, options = {}) => {
+          const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
+          const issueDate = new Date().toISOString();
+          const template = getPublishedTemplate(templateId);
+          const expiresAt = options.expiresAt || calculateExpiresAt(issueDate, template?.validityMonths);
+
+          const newCertificates = recipientIds.map(recipientId => {
+            const id = nanoid();
+            const verificationUrl = `${baseUrl}/verify/${id}`;
 
-        console.log(`Saving ${newCertificates.length} certificates to database...`);
-        let savedCount = 0;
-        let errorCount = 0;
-
-        const processCertificate = async (cert: typeof newCertificates[0]) => {
-          const recipient = recipients.find(r => r.id === cert.recipientId);
-
-          if (recipient && template) {
-            const dbCertificate: DatabaseCertificate = {
-              certificate_code: cert.id,
-              recipient_name: recipient.name,
-              recipient_email: recipient.email || '',
-              recipient_id: recipient.customFields?.studentId || null,
-              course_name: recipient.course || template.name,
-              template_id: templateId,
-              issue_date: new Date().toISOString().split('T')[0],
-              qr_code_data: cert.verificationUrl,
-              status: 'active'
+            return {
+              id,
+              recipientId,
+              templateId,
+              qrCodeUrl: verificationUrl,
+              issueDate,
+              verificationUrl,
+              status: options.requiresReview ? 'draft' as const : 'published' as const,
+              expiresAt,
+              templateVersion: template?.version
             };
+          });
 
-            try {
-              console.log('Saving bulk certificate:', dbCertificate);
-              await supabase.insertCertificate(dbCertificate);
-              savedCount++;
-              console.log(`Certificate ${savedCount}/${newCertificates.length} saved successfully`);
-
-              try {
-                console.log(`Generating and uploading PDF ${savedCount}/${newCertificates.length}...`);
-                const pdfUrl = await generateAndUploadCertificatePDF(cert.id, template, recipient);
-                await supabase.updateCertificatePDFUrl(cert.id, pdfUrl);
-                console.log(`PDF ${savedCount}/${newCertificates.length} uploaded successfully`);
-              } catch (pdfError) {
-                console.error(`Error uploading PDF for certificate ${cert.id}:`, pdfError);
-              }
-            } catch (error) {
-              errorCount++;
-              console.error(`Error saving certificate ${cert.id}:`, error);
-            }
-          } else {
-            console.error('Missing recipient or template for certificate:', cert.id);
-          }
-        };
+          set(state => ({
+            certificates: [...state.certificates, ...newCertificates]
+          }));
 
-        const batchSize = 3;
-        const processBatch = async (batch: typeof newCertificates) => {
-          await Promise.all(batch.map(cert => processCertificate(cert)));
-        };
+          get().enqueueIssuance(newCertificates.map(cert =>
+            createIssuanceJob(cert.id, cert.recipientId, templateId, !!options.requiresReview)
+          ));
 
-        (async () => {
-          for (let i = 0; i < newCertificates.length; i += batchSize) {
-            const batch = newCertificates.slice(i, i + batchSize);
-            await processBatch(batch);
+          return newCertificates.map(c => c.id);
+        },
+      
+        renewCertificate: (id, options = {}) => {
+          const { certificates, templates } = get();
+          const predecessor = certificates.find(c => c.id === id);
+          if (!predecessor) {
+            throw new Error(`Certificate ${id} not found`);
           }
 
-          if (errorCount > 0) {
-            alert(`Se procesaron ${savedCount} certificados exitosamente. ${errorCount} fallaron.`);
-          } else {
-            console.log(`All ${savedCount} certificates processed successfully!`);
-          }
-        })();
+          // Without a template validity period, keep the predecessor's validity length
+          const template = templates.find(t => t.id === predecessor.templateId);
+          const now = new Date();
+          const expiresAt = options.expiresAt ||
+            calculateExpiresAt(now.toISOString(), template?.validityMonths) ||
+            (predecessor.expiresAt
+              ? new Date(
+                  now.getTime() + new Date(predecessor.expiresAt).getTime() - new Date(predecessor.issueDate).getTime()
+                ).toISOString()
+              : undefined);
 
-        return newCertificates.map(c => c.id);
-      },
+          return get().generateCertificate(predecessor.recipientId, predecessor.templateId, {
+            ...options,
+            expiresAt,
+            renewalOf: id
+          });
+        },
       
-      updateCertificate: (id, updates) => {
-        set(state => ({
-          certificates: state.certificates.map(c => 
-            c.id === id ? { ...c, ...updates } : c
-          )
-        }));
-      },
+        updateCertificate: (id, updates) => {
+          set(state => ({
+            certificates: state.certificates.map(c => 
+              c.id === id ? { ...c, ...updates } : c
+            )
+          }));
+        },
       
-      deleteCertificate: (id) => {
-        set(state => ({
-          certificates: state.certificates.filter(c => c.id !== id)
-        }));
-      },
-      
-      // Collection actions
-      createCollection: (name, description, templateId) => {
-        const id = nanoid();
-        const collection: CertificateCollection = {
-          id,
-          name,
-          description,
-          templateId: templateId || '',
-          certificates: [],
-          createdAt: new Date().toISOString()
-        };
+        publishCertificates: async (ids, reviewerId) => {
+          const rows = await supabase.approveCertificates(ids, reviewerId);
+          const approved = new Set((rows || []).map(row => row.certificate_code));
+          set(state => ({
+            certificates: state.certificates.map(c =>
+              approved.has(c.id) ? { ...c, status: 'published' } : c
+            ),
+            // Approved drafts queued in this browser go on to be signed, rendered and uploaded
+            issuanceJobs: state.issuanceJobs.map(job =>
+              approved.has(job.certificateId) ? { ...job, requiresReview: false, nextAttemptAt: Date.now() } : job
+            )
+          }));
+          get().processIssuanceQueue();
+
+          const notApproved = ids.filter(id => !approved.has(id));
+          // Someone else approved, revoked or deleted them: show their current state
+          if (notApproved.length > 0) await get().hydrateFromDatabase();
+          return notApproved;
+        },
+      
+        revokeCertificate: async (id, reason, revokedBy) => {
+          const row = await supabase.revokeCertificate(id, reason, revokedBy);
+          set(state => ({
+            certificates: state.certificates.map(c =>
+              c.id === id
+                ? {
+                    ...c,
+                    status: 'revoked',
+                    revocation: {
+                      reason,
+                      revokedBy,
+                      revokedAt: row.revoked_at || new Date().toISOString()
+                    }
+                  }
+                : c
+            )
+          }));
+        },
+      
+        enqueueIssuance: (jobs) => {
+          set(state => ({
+            issuanceJobs: [...state.issuanceJobs, ...jobs]
+          }));
+          get().processIssuanceQueue();
+        },
+      
+        processIssuanceQueue: async () => {
+          if (issuanceInFlight) return issuanceInFlight;
+
+          issuanceInFlight = (async () => {
+            try {
+              let due = get().issuanceJobs.filter(job => isJobDue(job));
+              while (due.length > 0) {
+                for (let i = 0; i < due.length; i += ISSUANCE_CONCURRENCY) {
+                  const batch = due.slice(i, i + ISSUANCE_CONCURRENCY);
+                  await Promise.all(batch.map(job => runJob(job.certificateId)));
+                }
+                // Pick up jobs enqueued while this run was going
+                due = get().issuanceJobs.filter(job => isJobDue(job));
+              }
+            } finally {
+              issuanceInFlight = null;
+              scheduleNextIssuanceRun();
+            }
+          })();
+
+          return issuanceInFlight;
+        },
+      
+        retryIssuance: (certificateId) => {
+          updateJob(certificateId, {
+            failed: false,
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            lastError: undefined
+          });
+          get().processIssuanceQueue();
+        },
+      
+        clearCompletedIssuance: () => {
+          set(state => ({
+            issuanceJobs: state.issuanceJobs.filter(job => job.stage !== 'linked')
+          }));
+        },
+      
+        deleteCertificate: (id) => {
+          set(state => ({
+            certificates: state.certificates.filter(c => c.id !== id),
+            issuanceJobs: state.issuanceJobs.filter(job => job.certificateId !== id)
+          }));
+        },
+      
+        // Collection actions
+        createCollection: (name, description, templateId) => {
+          const id = nanoid();
+          const collection: CertificateCollection = {
+            id,
+            name,
+            description,
+            templateId: templateId || '',
+            certificates: [],
+            createdAt: new Date().toISOString()
+          };
         
-        set(state => ({
-          collections: [...state.collections, collection]
-        }));
+          set(state => ({
+            collections: [...state.collections, collection]
+          }));
+          queueChange('collections', id, 'upsert');
         
-        return id;
-      },
+          return id;
+        },
       
-      updateCollection: (id, updates) => {
-        set(state => ({
-          collections: state.collections.map(c => 
-            c.id === id ? { ...c, ...updates } : c
-          )
-        }));
-      },
+        updateCollection: (id, updates) => {
+          set(state => ({
+            collections: state.collections.map(c => 
+              c.id === id ? { ...c, ...updates } : c
+            )
+          }));
+          queueChange('collections', id, 'upsert');
+        },
       
-      deleteCollection: (id) => {
-        set(state => ({
-          collections: state.collections.filter(c => c.id !== id)
-        }));
-      },
+        deleteCollection: (id) => {
+          set(state => ({
+            collections: state.collections.filter(c => c.id !== id)
+          }));
+          queueChange('collections', id, 'delete');
+        },
       
-      addCertificatesToCollection: (collectionId, certificateIds) => {
-        const { certificates: allCertificates } = get();
-        const certificatesToAdd = allCertificates.filter(cert => 
-          certificateIds.includes(cert.id)
-        );
+        addCertificatesToCollection: (collectionId, certificateIds) => {
+          const { certificates: allCertificates } = get();
+          const certificatesToAdd = allCertificates.filter(cert => 
+            certificateIds.includes(cert.id)
+          );
         
-        set(state => ({
-          collections: state.collections.map(collection => 
-            collection.id === collectionId 
-              ? {
-                  ...collection,
-                  certificates: [
-                    ...collection.certificates,
-                    ...certificatesToAdd.filter(cert => 
-                      !collection.certificates.some(existing => existing.id === cert.id)
+          set(state => ({
+            collections: state.collections.map(collection => 
+              collection.id === collectionId 
+                ? {
+                    ...collection,
+                    certificates: [
+                      ...collection.certificates,
+                      ...certificatesToAdd.filter(cert => 
+                        !collection.certificates.some(existing => existing.id === cert.id)
+                      )
+                    ]
+                  }
+                : collection
+            )
+          }));
+          queueChange('collections', collectionId, 'upsert');
+        },
+      
+        removeCertificatesFromCollection: (collectionId, certificateIds) => {
+          set(state => ({
+            collections: state.collections.map(collection => 
+              collection.id === collectionId 
+                ? {
+                    ...collection,
+                    certificates: collection.certificates.filter(cert => 
+                      !certificateIds.includes(cert.id)
                     )
-                  ]
-                }
-              : collection
-          )
-        }));
-      },
+                  }
+                : collection
+            )
+          }));
+          queueChange('collections', collectionId, 'upsert');
+        },
       
-      removeCertificatesFromCollection: (collectionId, certificateIds) => {
-        set(state => ({
-          collections: state.collections.map(collection => 
-            collection.id === collectionId 
-              ? {
-                  ...collection,
-                  certificates: collection.certificates.filter(cert => 
-                    !certificateIds.includes(cert.id)
-                  )
-                }
-              : collection
-          )
-        }));
-      },
-      
-      // Utility actions
-      loadDefaultData: () => {
-        set({
-          templates: defaultTemplates,
-          recipients: defaultRecipients,
-          certificates: defaultCertificates,
-          collections: [],
-          currentTemplateId: defaultTemplates[0]?.id || null
-        });
-      },
-      
-      clearAllData: () => {
-        set({
-          templates: [],
-          recipients: [],
-          certificates: [],
-          collections: [],
-          currentTemplateId: null
-        });
-      },
-      
-      exportData: () => {
-        const state = get();
-        return JSON.stringify({
-          templates: state.templates,
-          recipients: state.recipients,
-          certificates: state.certificates,
-          collections: state.collections
-        }, null, 2);
-      },
-      
-      importData: (jsonData) => {
-        try {
-          const data = JSON.parse(jsonData);
+        // Utility actions
+        loadDefaultData: () => {
+          const previous = get();
+          set({
+            templates: defaultTemplates,
+            recipients: defaultRecipients,
+            certificates: defaultCertificates,
+            collections: [],
+            currentTemplateId: defaultTemplates[0]?.id || null
+          });
+          queueChanges(queue => {
+            queue = enqueueReplacement(queue, 'templates', previous.templates, defaultTemplates);
+            queue = enqueueReplacement(queue, 'recipients', previous.recipients, defaultRecipients);
+            return enqueueReplacement(queue, 'collections', previous.collections, []);
+          });
+        },
+      
+        clearAllData: () => {
+          const previous = get();
           set({
-            templates: data.templates || [],
-            recipients: data.recipients || [],
-            certificates: data.certificates || [],
-            collections: data.collections || [],
-            currentTemplateId: data.templates?.[0]?.id || null
+            templates: [],
+            templateVersions: [],
+            signers: [],
+            fonts: [],
+            recipients: [],
+            certificates: [],
+            collections: [],
+            currentTemplateId: null
+          });
+          queueChanges(queue => {
+            queue = enqueueReplacement(queue, 'templates', previous.templates, []);
+            queue = enqueueReplacement(queue, 'signers', previous.signers, []);
+            queue = enqueueReplacement(queue, 'fonts', previous.fonts, []);
+            queue = enqueueReplacement(queue, 'recipients', previous.recipients, []);
+            return enqueueReplacement(queue, 'collections', previous.collections, []);
           });
-        } catch (error) {
-          console.error('Error importing data:', error);
+        },
+      
+        exportData: () => {
+          const state = get();
+          return JSON.stringify({
+            templates: state.templates,
+            templateVersions: state.templateVersions,
+            signers: state.signers,
+            fonts: state.fonts,
+            recipients: state.recipients,
+            certificates: state.certificates,
+            collections: state.collections
+          }, null, 2);
+        },
+      
+        importData: (jsonData) => {
+          try {
+            const data = JSON.parse(jsonData);
+            const previous = get();
+            const templates: Template[] = data.templates || [];
+            const signers: Signer[] = data.signers || [];
+            const fonts: CustomFont[] = data.fonts || [];
+            const recipients: Recipient[] = data.recipients || [];
+            const collections: CertificateCollection[] = data.collections || [];
+            set({
+              templates,
+              templateVersions: data.templateVersions || [],
+              signers,
+              fonts,
+              recipients,
+              certificates: data.certificates || [],
+              collections,
+              currentTemplateId: data.templates?.[0]?.id || null
+            });
+            queueChanges(queue => {
+              queue = enqueueReplacement(queue, 'templates', previous.templates, templates);
+              queue = enqueueReplacement(queue, 'signers', previous.signers, signers);
+              queue = enqueueReplacement(queue, 'fonts', previous.fonts, fonts);
+              queue = enqueueReplacement(queue, 'recipients', previous.recipients, recipients);
+              return enqueueReplacement(queue, 'collections', previous.collections, collections);
+            });
+          } catch (error) {
+            console.error('Error importing data:', error);
+          }
+        },
+      
+        // Sync actions
+        setAccess: ({ userId, canWrite }) => {
+          set({ userId, canWrite });
+        },
+
+        hydrateFromDatabase: async () => {
+          if (get().canWrite) {
+            await get().migrateTemplateImages();
+            await get().syncPendingChanges();
+          } else if (get().pendingChanges.length > 0) {
+            // Queued under a role that could write; this one can't, so they wait for the user instead
+            rejectChanges(get().pendingChanges, READ_ONLY_ERROR);
+            set({ pendingChanges: [] });
+          }
+
+          try {
+            let remote = await fetchRemoteData();
+
+            if (!get().lastSyncedAt && get().canWrite) {
+              // First sync from this browser: upload records that so far only lived in localStorage
+              const { templates, signers, fonts, recipients, collections } = get();
+              const isMissing = (rows: { id: string }[]) => (record: { id: string }) =>
+                !rows.some(row => row.id === record.id);
+              queueChanges(queue => {
+                queue = enqueueReplacement(queue, 'templates', [], templates.filter(isMissing(remote.templates)));
+                queue = enqueueReplacement(queue, 'signers', [], signers.filter(isMissing(remote.signers)));
+                queue = enqueueReplacement(queue, 'fonts', [], fonts.filter(isMissing(remote.fonts)));
+                queue = enqueueReplacement(queue, 'recipients', [], recipients.filter(isMissing(remote.recipients)));
+                return enqueueReplacement(queue, 'collections', [], collections.filter(isMissing(remote.collections)));
+              });
+              await get().syncPendingChanges();
+              remote = await fetchRemoteData();
+            }
+
+            set(state => {
+              // Records with a change the server hasn't taken keep their local copy
+              const unsaved = [...state.rejectedChanges, ...state.pendingChanges];
+              const templates = mergeWithPending(
+                remote.templates.map(fromDatabaseTemplate), state.templates, 'templates', unsaved
+              );
+              // Local versions the server hasn't recorded yet go up with their template's unsaved upsert
+              const remoteVersions = remote.templateVersions.map(fromDatabaseTemplateVersion);
+              const templateVersions = [
+                ...remoteVersions,
+                ...state.templateVersions.filter(v =>
+                  !remoteVersions.some(r => r.id === v.id) &&
+                  unsaved.some(c => c.entity === 'templates' && c.recordId === v.templateId && c.operation === 'upsert')
+                )
+              ];
+              const signers = mergeWithPending(
+                remote.signers.map(fromDatabaseSigner), state.signers, 'signers', unsaved
+              );
+              const fonts = mergeWithPending(
+                remote.fonts.map(fromDatabaseFont), state.fonts, 'fonts', unsaved
+              );
+              const recipients = mergeWithPending(
+                remote.recipients.map(fromDatabaseRecipient), state.recipients, 'recipients', unsaved
+              );
+
+              const remoteCertificates = remote.certificates
+                .map(fromDatabaseCertificate)
+                .filter((c): c is Certificate => c !== null);
+              const certificates = [
+                ...remoteCertificates,
+                // Not in the database yet: the issuance queue still has to record them
+                ...state.certificates.filter(c =>
+                  state.issuanceJobs.some(job => job.certificateId === c.id && job.stage === 'pending') &&
+                  !remoteCertificates.some(r => r.id === c.id)
+                )
+              ].filter(c => recipients.some(r => r.id === c.recipientId));
+
+              // Drafts a reviewer approved since the last load resume signing, rendering and upload
+              const approved = new Set(remote.certificates.filter(row => row.status === 'active').map(row => row.certificate_code));
+              const resumedJobs = state.issuanceJobs.map(job =>
+                isAwaitingReview(job) && approved.has(job.certificateId)
+                  ? { ...job, requiresReview: false, nextAttemptAt: Date.now() }
+                  : job
+              );
+              // Approved drafts this user recorded with no job here (from the CLI or another browser)
+              const adoptedJobs = state.canWrite
+                ? remote.certificates
+                    .filter(row =>
+                      row.status === 'active' && row.reviewed_by && row.created_by === state.userId &&
+                      !row.signature && !row.certificate_pdf_url && row.recipient_ref &&
+                      !state.issuanceJobs.some(job => job.certificateId === row.certificate_code)
+                    )
+                    .map(row => ({
+                      ...createIssuanceJob(row.certificate_code, row.recipient_ref!, row.template_id, false),
+                      stage: 'recorded' as const
+                    }))
+                : [];
+
+              const collections = mergeWithPending(
+                remote.collections.map(row => fromDatabaseCollection(row, certificates)),
+                state.collections,
+                'collections',
+                unsaved
+              );
+
+              return {
+                templates,
+                templateVersions,
+                signers,
+                fonts,
+                recipients,
+                certificates,
+                collections,
+                issuanceJobs: [...resumedJobs, ...adoptedJobs],
+                currentTemplateId: templates.some(t => t.id === state.currentTemplateId)
+                  ? state.currentTemplateId
+                  : templates[0]?.id || null,
+                lastSyncedAt: new Date().toISOString()
+              };
+            });
+            get().processIssuanceQueue();
+          } catch (error) {
+            // Keep serving the cached copy; the next login or reconnect tries again
+            console.error('Error loading data from Supabase, using cached data:', error);
+          }
+        },
+      
+        migrateTemplateImages: async () => {
+          const uploads = new Map<string, Promise<string>>();
+          let failed = false;
+
+          // Rewritten in place: the images are the same, so this publishes no new versions
+          for (const version of get().templateVersions) {
+            try {
+              const snapshot = await moveTemplateImagesToStorage(version.snapshot, uploads);
+              if (!snapshot) continue;
+              await supabase.updateTemplateVersionImages(version.id, snapshot);
+              set(state => ({
+                templateVersions: state.templateVersions.map(v => (v.id === version.id ? { ...v, snapshot } : v))
+              }));
+            } catch (error) {
+              failed = true;
+              console.error(`Error moving the images of template version ${version.id} to storage:`, error);
+            }
+          }
+
+          for (const template of get().templates) {
+            try {
+              const moved = await moveTemplateImagesToStorage(template, uploads);
+              if (!moved) continue;
+              // Left for the next load if the template was edited or deleted while its images uploaded
+              if (get().templates.find(t => t.id === template.id) === template) {
+                set(state => ({ templates: state.templates.map(t => (t.id === template.id ? moved : t)) }));
+                queueChange('templates', template.id, 'upsert');
+              } else {
+                failed = true;
+              }
+            } catch (error) {
+              failed = true;
+              console.error(`Error moving the images of template ${template.id} to storage:`, error);
+            }
+          }
+
+          // The old localStorage copies can go once every template reads its images from storage
+          if (!failed) removeLegacyStoredImages();
+        },
+      
+        syncPendingChanges: async () => {
+          if (syncInFlight) return syncInFlight;
+
+          syncInFlight = (async () => {
+            set({ isSyncing: true });
+            try {
+              while (get().pendingChanges.length > 0) {
+                const change = get().pendingChanges[0];
+                try {
+                  await pushChange(change);
+                  set(state => ({ syncError: state.rejectedChanges.length > 0 ? SYNC_ERROR : null }));
+                } catch (error) {
+                  if (isNetworkError(error)) {
+                    // Offline: leave the queue intact and retry when the connection returns
+                    console.warn('Offline, keeping local changes queued:', error);
+                    return;
+                  }
+                  // The server rejected the change (e.g. RLS); retrying won't help until the user acts on it
+                  console.error(`Error syncing ${change.entity}/${change.recordId}:`, error);
+                  if (get().pendingChanges.includes(change)) {
+                    rejectChanges([change], error instanceof Error ? error.message : String(error));
+                  }
+                }
+                // Drop the flushed change unless it was replaced while in flight
+                set(state => ({
+                  pendingChanges: state.pendingChanges.filter(c => c !== change)
+                }));
+              }
+            } finally {
+              set({ isSyncing: false });
+              syncInFlight = null;
+            }
+          })();
+
+          return syncInFlight;
+        },
+
+        retryRejectedChanges: () => {
+          const { rejectedChanges } = get();
+          set({ rejectedChanges: [], syncError: null });
+          queueChanges(queue => rejectedChanges.reduce<PendingChange[]>(
+            (next, { entity, recordId, operation }) => enqueueChange(next, { entity, recordId, operation }),
+            queue
+          ));
+        },
+
+        discardRejectedChanges: async () => {
+          set({ rejectedChanges: [], syncError: null });
+          await get().hydrateFromDatabase();
         }
-      }
-    }),
+      };
+    },
     {
       name: 'certificate-store',
       storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        templates: state.templates,
+        templateVersions: state.templateVersions,
+        signers: state.signers,
+        fonts: state.fonts,
+        recipients: state.recipients,
+        certificates: state.certificates,
+        collections: state.collections,
+        currentTemplateId: state.currentTemplateId,
+        pendingChanges: state.pendingChanges,
+        rejectedChanges: state.rejectedChanges,
+        lastSyncedAt: state.lastSyncedAt,
+        issuanceJobs: state.issuanceJobs
+      })
     }
   )
-);
\ No newline at end of file
+);
+
+// Flush edits and issuance work queued while offline as soon as the connection returns
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    const { syncPendingChanges, processIssuanceQueue } = useCertificateStore.getState();
+    syncPendingChanges();
+    processIssuanceQueue();
+  });
+}
\ No newline at end of file
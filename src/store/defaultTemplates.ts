@@ -0,0 +1,76 @@
+import { nanoid } from 'nanoid';
+import { Template } from '../types';
+
+/**
+ * Templates every installation starts with. Shared by the store and the CLI.
+ */
+export const defaultTemplates: Template[] = [
+  {
+    id: 'proteccion-datos-personales',
+    name: 'Certificado de Protección de Datos Personales',
+    imageUrl: '/assets/certificate-templates/proteccion-datos-personales.jpg',
+    fields: [
+      { 
+        id: nanoid(), 
+        name: 'recipient', 
+        type: 'text', 
+        x: 30, 
+        y: 40, 
+        fontSize: 28, 
+        fontFamily: "Sora, sans-serif", 
+        color: '#1a365d' 
+      }
+    ]
+  },
+  {
+    id: 'power-bi-avanzado',
+    name: 'Certificado de Power BI Avanzado',
+    imageUrl: '/assets/certificate-templates/power-bi-avanzado.jpg',
+    fields: [
+      { 
+        id: nanoid(), 
+        name: 'recipient', 
+        type: 'text', 
+        x: 30, 
+        y: 40, 
+        fontSize: 28, 
+        fontFamily: "Sora, sans-serif", 
+        color: '#1a365d' 
+      }
+    ]
+  },
+  {
+    id: 'excel-avanzado',
+    name: 'Certificado de Excel Avanzado',
+    imageUrl: '/assets/certificate-templates/excel-avanzado.jpg',
+    fields: [
+      { 
+        id: nanoid(), 
+        name: 'recipient', 
+        type: 'text', 
+        x: 30, 
+        y: 40, 
+        fontSize: 28, 
+        fontFamily: "Sora, sans-serif", 
+        color: '#1a365d' 
+      }
+    ]
+  },
+  {
+    id: 'datos-abiertos',
+    name: 'Certificado de Datos Abiertos',
+    imageUrl: '/assets/certificate-templates/datos-abiertos.jpg',
+    fields: [
+      { 
+        id: nanoid(), 
+        name: 'recipient', 
+        type: 'text', 
+        x: 30, 
+        y: 40, 
+        fontSize: 28, 
+        fontFamily: "Sora, sans-serif", 
+        color: '#1a365d' 
+      }
+    ]
+  },
+];
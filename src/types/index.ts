@@ -14,7 +14,27 @@ export interface Certificate {
   qrCodeUrl: string;
   issueDate: string;
   verificationUrl: string;
-  status: 'draft' | 'published';
+  status: 'draft' | 'published' | 'revoked';
+  revocation?: CertificateRevocation;
+  expiresAt?: string; // No expiration when missing
+  renewalOf?: string; // Id of the certificate this one renews
+  signature?: CertificateSignature; // Missing until the issuance queue signs it
+  templateVersion?: number; // Template version it was issued with; missing for certificates from before versioning
+}
+
+/**
+ * A signed payload as carried in the QR code and the PDF metadata.
+ */
+export interface CertificateSignature {
+  payload: string; // Canonical JSON of the signed certificate fields
+  value: string; // base64url ECDSA P-256 / SHA-256 signature (raw r||s)
+  keyId: string;
+}
+
+export interface CertificateRevocation {
+  reason: string;
+  revokedBy: string;
+  revokedAt: string;
 }
 
 export interface Template {
@@ -22,22 +42,120 @@ export interface Template {
   name: string;
   imageUrl: string;
   fields: TemplateField[];
-  width?: number; // Width of the template in pixels
-  height?: number; // Height of the template in pixels
+  width?: number; // Legacy canvas width in px, used only when pageSize is not set
+  height?: number; // Legacy canvas height in px
+  pageSize?: PageSize; // Default A4 landscape
+  validityMonths?: number; // Certificates issued from this template expire after this many months
+  criteria?: string; // What a recipient did to earn it; the Open Badges achievement criteria
+  pages?: TemplatePage[]; // Pages after the first one (imageUrl and fields), e.g. a transcript
+  version?: number; // Latest published version, which new certificates are issued with
+}
+
+export type PageSizePreset = 'a4' | 'letter' | 'legal' | 'a5' | 'custom';
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+export interface PageSize {
+  preset: PageSizePreset;
+  orientation: PageOrientation;
+  width?: number; // mm, custom sizes only
+  height?: number; // mm
+}
+
+/**
+ * Everything about a template except its identity, as frozen in a version.
+ */
+export type TemplateSnapshot = Omit<Template, 'id' | 'version'>;
+
+/**
+ * An immutable published state of a template. Certificates render with the version
+ * they were issued with, so later edits never change how they look.
+ */
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  version: number; // 1, 2, … per template
+  snapshot: TemplateSnapshot;
+  note?: string; // e.g. why it was published, or the version it rolled back to
+  createdAt: string;
+}
+
+export interface TemplatePage {
+  id: string;
+  imageUrl: string; // Background; empty for a blank page
+  fields: TemplateField[];
 }
 
 export interface TemplateField {
   id: string;
   name: string;
-  type: 'text' | 'date' | 'qrcode';
+  type: 'text' | 'date' | 'qrcode' | 'image' | 'signature' | 'barcode' | 'table';
   x: number;
   y: number;
   fontSize?: number;
-  fontFamily?: string;
+  fontFamily?: string; // A bundled or registered family, or a system stack ending in a generic family
   color?: string;
   defaultValue?: string;
+  size?: number; // QR code side in px at the template's render width
+  errorCorrection?: QrErrorCorrectionLevel; // QR code error-correction level
+  align?: TextAlign; // Default center; x is the left edge, center or right edge of the text
+  fontWeight?: 'normal' | 'bold'; // Default bold
+  fontStyle?: 'normal' | 'italic';
+  maxWidth?: number; // px at the template's render width; text wraps within it
+  maxLines?: number; // Lines past this are cut with an ellipsis
+  letterSpacing?: number; // px
+  autoFit?: boolean; // Shrink the font until the text fits in maxWidth and maxLines (1 by default)
+  width?: number; // Image, signature and barcode box in px; images keep their aspect ratio inside it
+  height?: number;
+  imageUrl?: string; // Image fields: static asset, replaced per recipient by customFields[name] when set
+  signerId?: string; // Signature fields: entry of the signer registry
+  barcodeFormat?: BarcodeFormat; // Barcode fields encode the certificate code
+  columns?: TableColumn[]; // Table fields: rows come from customFields[name] as a JSON array; x/y is the top-left corner
+  rowHeight?: number; // px
+  maxRows?: number; // Rows past this are left out
+}
+
+export interface TableColumn {
+  key: string; // Property of each row object, or its position when rows are arrays
+  label: string;
+  width?: number; // Share of the table width, 1 by default
+  align?: TextAlign;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type BarcodeFormat = 'code128' | 'pdf417';
+
+/**
+ * Someone whose scanned signature templates can place on certificates. Signature fields
+ * reference the signer, so replacing a scan updates every template that uses it.
+ */
+export interface Signer {
+  id: string;
+  name: string;
+  title?: string; // Role shown to admins, e.g. "Directora Ejecutiva"
+  signatureUrl: string; // Transparent PNG works best
+}
+
+export type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+// 'truetype' includes .otf files with TrueType outlines; 'opentype' is CFF outlines
+export type FontFormat = 'truetype' | 'opentype' | 'woff2';
+
+/**
+ * An uploaded font file in the font registry. Text fields name the family; each style
+ * of a family is its own file, and renders fail when a field's family isn't installed.
+ */
+export interface CustomFont {
+  id: string;
+  family: string;
+  style: FontStyle;
+  url: string; // Object in the `fonts` storage bucket
+  format: FontFormat;
 }
 
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
 export interface CertificateCollection {
   id: string;
   name: string;
@@ -47,11 +165,20 @@ export interface CertificateCollection {
   createdAt: string;
 }
 
+/**
+ * - admin: full access, including user-facing configuration and deletions
+ * - issuer: creates templates, recipients and certificates (issued as drafts pending review)
+ * - reviewer: approves draft certificates before they are published
+ * - viewer: read-only auditor
+ * - student: sees only the certificates issued to their own email
+ */
+export type UserRole = 'admin' | 'issuer' | 'reviewer' | 'viewer' | 'student';
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'student';
+  role: UserRole;
   createdAt: string;
 }
 
@@ -0,0 +1,81 @@
+import { code128, pdf417 } from 'bwip-js/generic';
+import type { DrawingContext, RenderOptions } from 'bwip-js/generic';
+import { BarcodeFormat } from '../types';
+
+/**
+ * Barcode symbols as plain geometry, so the preview (SVG) and the PDF (vector paths)
+ * draw the same bars from the same encoder. Coordinates are in modules, origin top left.
+ */
+
+export const BARCODE_PADDING = 5; // px of white quiet zone around the symbol, like QR codes
+
+export interface BarcodeShape {
+  width: number;
+  height: number;
+  bars: { x: number; y: number; width: number; height: number }[]; // Linear symbols
+  polygons: [number, number][][]; // 2D symbols, filled even-odd
+}
+
+const ENCODERS: Record<BarcodeFormat, (options: RenderOptions, drawing: DrawingContext<BarcodeShape>) => BarcodeShape> = {
+  code128,
+  pdf417
+};
+
+/**
+ * Collects what bwip-js draws instead of painting it.
+ */
+const createShapeDrawing = (): DrawingContext<BarcodeShape> => {
+  const shape: BarcodeShape = { width: 0, height: 0, bars: [], polygons: [] };
+  const extend = (x: number, y: number) => {
+    shape.width = Math.max(shape.width, x);
+    shape.height = Math.max(shape.height, y);
+  };
+
+  return {
+    scale: () => null,
+    measure: () => ({ width: 0, ascent: 0, descent: 0 }),
+    init: () => undefined,
+    // Bars are stroked lines, split around the coordinate the way bwip-js's own raster does
+    line: (x0, y0, x1, y1, lw) => {
+      const stroke = Math.round(lw) || 1;
+      const half = Math.floor(stroke / 2);
+      const bar = x0 === x1
+        ? { x: x0 - stroke + half, y: Math.min(y0, y1), width: stroke, height: Math.abs(y1 - y0) }
+        : { x: Math.min(x0, x1), y: y0 - half, width: Math.abs(x1 - x0), height: stroke };
+      shape.bars.push(bar);
+      extend(bar.x + bar.width, bar.y + bar.height);
+    },
+    polygon: pts => {
+      shape.polygons.push(pts.map(([x, y]) => [x, y]));
+      pts.forEach(([x, y]) => extend(x, y));
+    },
+    hexagon: pts => {
+      shape.polygons.push(pts.map(([x, y]) => [x, y]));
+    },
+    ellipse: () => undefined,
+    fill: () => undefined,
+    text: () => undefined,
+    end: () => shape
+  };
+};
+
+const shapeCache = new Map<string, BarcodeShape>();
+
+export const encodeBarcode = (format: BarcodeFormat, value: string): BarcodeShape => {
+  const key = `${format}:${value}`;
+  let shape = shapeCache.get(key);
+  if (!shape) {
+    shape = ENCODERS[format]({ bcid: format, text: value, scale: 1, includetext: false }, createShapeDrawing());
+    if (shapeCache.size > 500) shapeCache.clear();
+    shapeCache.set(key, shape);
+  }
+  return shape;
+};
+
+/**
+ * SVG path data of a shape, for `<path fill-rule="evenodd">`.
+ */
+export const getBarcodePath = (shape: BarcodeShape): string => [
+  ...shape.bars.map(bar => `M${bar.x} ${bar.y}h${bar.width}v${bar.height}h${-bar.width}Z`),
+  ...shape.polygons.map(points => `M${points.map(([x, y]) => `${x} ${y}`).join('L')}Z`)
+].join('');
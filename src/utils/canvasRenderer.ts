@@ -0,0 +1,76 @@
+import { createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import html2canvas from 'html2canvas';
+import type { CertificateRenderModel } from './certificateRenderer';
+import CertificateCanvas from '../components/CertificateCanvas';
+import { loadModelFonts } from './certificateFonts';
+
+/**
+ * Raster (PNG) export of a render model, drawn by the same component as the preview.
+ * A PNG is a single image, so only the first page is drawn.
+ */
+
+const RENDER_SCALE = 3;
+const IMAGE_LOAD_TIMEOUT = 10000;
+
+export const waitForImagesToLoad = async (element: HTMLElement): Promise<void> => {
+  await Promise.all(Array.from(element.querySelectorAll('img')).map(img =>
+    img.complete
+      ? Promise.resolve()
+      : new Promise<void>(resolve => {
+          img.onload = () => resolve();
+          img.onerror = () => resolve(); // Render without the image rather than fail the export
+          setTimeout(resolve, IMAGE_LOAD_TIMEOUT);
+        })
+  ));
+
+  if (document.fonts?.ready) {
+    await document.fonts.ready;
+  }
+};
+
+/**
+ * Draws the model offscreen and rasterizes it.
+ */
+export const renderModelToCanvas = async (model: CertificateRenderModel): Promise<HTMLCanvasElement> => {
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.left = '-9999px';
+  container.style.top = '0';
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  try {
+    await loadModelFonts(model);
+    flushSync(() => root.render(createElement(CertificateCanvas, { model, page: 0 })));
+    const element = container.firstElementChild as HTMLElement;
+    await waitForImagesToLoad(element);
+
+    const background = model.pages[0].backgroundUrl ? element.querySelector('img') : null;
+    if (background && background.naturalWidth === 0) {
+      throw new Error('Failed to load template image');
+    }
+
+    return await html2canvas(element, {
+      scale: RENDER_SCALE,
+      useCORS: true,
+      allowTaint: false,
+      backgroundColor: '#ffffff',
+      logging: false,
+      width: model.width,
+      height: model.height,
+      imageTimeout: 15000
+    });
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+};
+
+export const renderModelToPNG = async (model: CertificateRenderModel): Promise<Blob> => {
+  const canvas = await renderModelToCanvas(model);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode certificate PNG'))), 'image/png')
+  );
+};
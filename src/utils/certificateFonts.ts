@@ -0,0 +1,242 @@
+import soraRegularUrl from '../assets/fonts/titulo/Sora-Regular.ttf?url';
+import soraBoldUrl from '../assets/fonts/titulo/Sora-Bold.ttf?url';
+import euclidRegularUrl from '../assets/fonts/texto/EuclidCircularA-Regular.ttf?url';
+import euclidBoldUrl from '../assets/fonts/texto/EuclidCircularA-Bold.ttf?url';
+import euclidItalicUrl from '../assets/fonts/texto/EuclidCircularA-Italic.ttf?url';
+import euclidBoldItalicUrl from '../assets/fonts/texto/EuclidCircularA-BoldItalic.ttf?url';
+import { CustomFont, FontFormat, FontStyle } from '../types';
+import type { CertificateRenderModel, RenderedTextField } from './certificateRenderer';
+import { getCssFont } from './textLayout';
+import { getTableCellField } from './tableLayout';
+
+/**
+ * Fonts certificate text is drawn with: the brand fonts bundled with the app and the
+ * ones uploaded to the font registry. Renderers load the file a field needs before
+ * drawing (as a FontFace on screen, embedded in PDFs) and fail when it is missing, so a
+ * certificate never goes out in a fallback font. Families whose CSS list ends in a
+ * generic family (`sans-serif`, `serif`…) are system stacks: they draw with whatever
+ * the device has, and with the PDF standard fonts in PDFs.
+ */
+
+export type { FontStyle };
+
+export interface EmbeddedFont {
+  family: string;
+  style: FontStyle;
+  url: string; // Bundled asset or registry file URL, for the browser
+  format: FontFormat;
+  file?: string; // Bundled fonts: path under src/assets/fonts, for the CLI
+}
+
+export interface FontOption {
+  label: string;
+  value: string; // CSS font-family
+}
+
+export const EMBEDDED_FONTS: EmbeddedFont[] = [
+  { family: 'Sora', style: 'normal', url: soraRegularUrl, format: 'truetype', file: 'titulo/Sora-Regular.ttf' },
+  { family: 'Sora', style: 'bold', url: soraBoldUrl, format: 'truetype', file: 'titulo/Sora-Bold.ttf' },
+  { family: 'Euclid Circular A', style: 'normal', url: euclidRegularUrl, format: 'truetype', file: 'texto/EuclidCircularA-Regular.ttf' },
+  { family: 'Euclid Circular A', style: 'bold', url: euclidBoldUrl, format: 'truetype', file: 'texto/EuclidCircularA-Bold.ttf' },
+  { family: 'Euclid Circular A', style: 'italic', url: euclidItalicUrl, format: 'truetype', file: 'texto/EuclidCircularA-Italic.ttf' },
+  { family: 'Euclid Circular A', style: 'bolditalic', url: euclidBoldItalicUrl, format: 'truetype', file: 'texto/EuclidCircularA-BoldItalic.ttf' }
+];
+
+/**
+ * System stacks the field editor offers.
+ */
+const SYSTEM_FONT_STACKS: FontOption[] = [
+  { label: 'System UI', value: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif" },
+  { label: 'Serif', value: 'serif' },
+  { label: 'Sans-serif', value: 'sans-serif' },
+  { label: 'Monospace', value: 'monospace' },
+  { label: 'Cursive', value: 'cursive' }
+];
+
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+/**
+ * PDF standard fonts standing in for CSS generic families.
+ */
+const STANDARD_FONTS: Record<string, string> = {
+  serif: 'times',
+  monospace: 'courier'
+};
+
+export class MissingFontError extends Error {
+  constructor(family: string) {
+    super(`The font ${family} is not installed; upload it to the font registry or pick another font.`);
+    this.name = 'MissingFontError';
+  }
+}
+
+const unquote = (family: string) => family.trim().replace(/^['"]|['"]$/g, '');
+
+/**
+ * First family of a CSS font-family list, unquoted.
+ */
+export const getPrimaryFontFamily = (fontFamily: string): string => unquote(fontFamily.split(',')[0]);
+
+/**
+ * Whether a font-family list ends in a generic family, so the device may stand in for it.
+ */
+export const isSystemFontStack = (fontFamily: string): boolean =>
+  GENERIC_FAMILIES.includes(unquote(fontFamily.split(',').pop() || '').toLowerCase());
+
+/**
+ * A family name as CSS, quoted unless it is a plain identifier.
+ */
+export const toCssFontFamily = (family: string): string =>
+  /^[a-z][a-z0-9-]*$/i.test(family) ? family : `'${family.replace(/'/g, '')}'`;
+
+/**
+ * The field editor's font list: the bundled families, the registered ones and system
+ * stacks. Registered families have no fallback, so renders fail when they go missing.
+ */
+export const getFontOptions = (fonts: CustomFont[]): { label: string; options: FontOption[] }[] => {
+  const families = (list: { family: string }[]) => [...new Set(list.map(font => font.family))];
+  const bundled = families(EMBEDDED_FONTS);
+  return [
+    { label: 'Brand fonts', options: bundled.map(family => ({ label: family, value: `${toCssFontFamily(family)}, sans-serif` })) },
+    {
+      label: 'Uploaded fonts',
+      options: families(fonts)
+        .filter(family => !bundled.some(name => name.toLowerCase() === family.toLowerCase()))
+        .sort((a, b) => a.localeCompare(b))
+        .map(family => ({ label: family, value: toCssFontFamily(family) }))
+    },
+    { label: 'System fonts', options: SYSTEM_FONT_STACKS }
+  ].filter(group => group.options.length > 0);
+};
+
+export const getFontStyle = (fontWeight: 'normal' | 'bold', fontStyle: 'normal' | 'italic'): FontStyle => {
+  const italic = fontStyle === 'italic';
+  return fontWeight === 'bold' ? (italic ? 'bolditalic' : 'bold') : (italic ? 'italic' : 'normal');
+};
+
+/**
+ * The file for a family and style among the bundled fonts and `fonts`, falling back to
+ * the family's closest style.
+ */
+export const findEmbeddedFont = (
+  fontFamily: string,
+  style: FontStyle,
+  fonts: EmbeddedFont[] = []
+): EmbeddedFont | undefined => {
+  const family = getPrimaryFontFamily(fontFamily).toLowerCase();
+  const variants = [...EMBEDDED_FONTS, ...fonts].filter(font => font.family.toLowerCase() === family);
+  return variants.find(font => font.style === style) ||
+    variants.find(font => font.style === (style.includes('bold') ? 'bold' : 'normal')) ||
+    variants[0];
+};
+
+/**
+ * The font file a text field is drawn with, or null for a system stack. Throws
+ * MissingFontError when the family is neither installed nor a system stack.
+ */
+export const resolveFieldFont = (
+  field: Pick<RenderedTextField, 'fontFamily' | 'fontWeight' | 'fontStyle'>,
+  fonts: EmbeddedFont[]
+): EmbeddedFont | null => {
+  const font = findEmbeddedFont(field.fontFamily, getFontStyle(field.fontWeight, field.fontStyle), fonts);
+  if (font) return font;
+  if (isSystemFontStack(field.fontFamily)) return null;
+  throw new MissingFontError(getPrimaryFontFamily(field.fontFamily));
+};
+
+/**
+ * The registered fonts a set of font-family values uses, so render models carry only those.
+ */
+export const getUsedFonts = (fontFamilies: string[], fonts: CustomFont[]): EmbeddedFont[] => {
+  const families = new Set(fontFamilies.map(family => getPrimaryFontFamily(family).toLowerCase()));
+  return fonts
+    .filter(font => families.has(font.family.toLowerCase()))
+    .map(({ family, style, url, format }) => ({ family, style, url, format }));
+};
+
+/**
+ * Standard font for system stacks; anything without a standard stand-in gets Helvetica.
+ */
+export const getStandardFont = (fontFamily: string): string =>
+  STANDARD_FONTS[unquote(fontFamily.split(',').pop() || '').toLowerCase()] || 'helvetica';
+
+const fontDataCache = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Base64 data of a font file, fetched once per session.
+ */
+export const loadFontData = (font: EmbeddedFont): Promise<string> => {
+  let data = fontDataCache.get(font.url);
+  if (!data) {
+    data = fetch(font.url).then(async response => {
+      if (!response.ok) throw new Error(`Failed to load font ${font.family} (${font.style})`);
+      return toBase64(await response.arrayBuffer());
+    });
+    data.catch(() => fontDataCache.delete(font.url));
+    fontDataCache.set(font.url, data);
+  }
+  return data;
+};
+
+const fontFaceCache = new Map<string, Promise<void>>();
+
+/**
+ * Adds a font to the document and waits for it, once per session, so text drawn with
+ * its family uses it. Rejects when the file can't be loaded.
+ */
+export const loadFontFace = (font: EmbeddedFont): Promise<void> => {
+  let loaded = fontFaceCache.get(font.url);
+  if (!loaded) {
+    const face = new FontFace(font.family, `url(${JSON.stringify(font.url)})`, {
+      weight: font.style.includes('bold') ? '700' : '400',
+      style: font.style.includes('italic') ? 'italic' : 'normal'
+    });
+    // Added before loading, so the document's loadingdone event announces it
+    document.fonts.add(face);
+    loaded = face.load().then(() => undefined, () => {
+      document.fonts.delete(face);
+      fontFaceCache.delete(font.url);
+      throw new Error(`Failed to load font ${font.family} (${font.style})`);
+    });
+    fontFaceCache.set(font.url, loaded);
+  }
+  return loaded;
+};
+
+/**
+ * Every text of a model as a text field, table cells included.
+ */
+export const getModelTextFields = (model: CertificateRenderModel): RenderedTextField[] =>
+  model.pages.flatMap(page => page.fields).flatMap(field => {
+    if (field.type === 'text') return [field];
+    if (field.type !== 'table' || field.columns.length === 0) return [];
+    // Header and body cells differ only in weight
+    const column = field.columns[0];
+    return [getTableCellField(field, column, column.label, true), getTableCellField(field, column, field.rows.flat().join(''), false)];
+  });
+
+/**
+ * Loads the fonts the model's text uses, so it is measured and laid out with them.
+ * Rejects with MissingFontError, or a load error, instead of drawing in a fallback font.
+ */
+export const loadModelFonts = async (model: CertificateRenderModel): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  const texts = getModelTextFields(model);
+  const files = new Map<string, EmbeddedFont>();
+  texts.forEach(field => {
+    const font = resolveFieldFont(field, model.fonts);
+    if (font) files.set(font.url, font);
+  });
+  await Promise.all([...files.values()].map(loadFontFace));
+  // System stacks: let the browser fetch whichever local faces they end up using
+  await Promise.all(texts.map(field => document.fonts.load(getCssFont(field), field.text).catch(() => [])));
+};
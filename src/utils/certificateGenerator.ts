@@ -1,50 +1,18 @@
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
 import { saveAs } from 'file-saver';
-import { Certificate, Recipient, Template } from '../types';
-import JSZip from 'jszip';
-import { toPng, toJpeg } from 'html-to-image';
-
-// Helper function to wait for all images to load
-const waitForImagesToLoad = async (element: HTMLElement): Promise<void> => {
-  const images = element.querySelectorAll('img');
-  const imagePromises = Array.from(images).map(img => {
-    if (img.complete) {
-      return Promise.resolve();
-    }
-    return new Promise<void>((resolve) => {
-      img.onload = () => resolve();
-      img.onerror = () => resolve(); // Continue even if image fails to load
-      // Fallback timeout
-      setTimeout(() => resolve(), 10000);
-    });
-  });
-  
-  // Also wait for background images
-  const elementsWithBgImages = element.querySelectorAll('*');
-  const bgImagePromises = Array.from(elementsWithBgImages).map(el => {
-    const bgImage = window.getComputedStyle(el).backgroundImage;
-    if (bgImage && bgImage !== 'none' && bgImage.includes('url(')) {
-      const imageUrl = bgImage.match(/url\(["']?([^"']*)["']?\)/)?.[1];
-      if (imageUrl) {
-        return new Promise<void>((resolve) => {
-          const img = new Image();
-          img.onload = () => resolve();
-          img.onerror = () => resolve(); // Continue even if image fails to load
-          img.src = imageUrl;
-          // Fallback timeout
-          setTimeout(() => resolve(), 10000);
-        });
-      }
-    }
-    return Promise.resolve();
-  });
-  
-  await Promise.all([...imagePromises, ...bgImagePromises]);
-  
-  // Additional wait for rendering
-  await new Promise(resolve => setTimeout(resolve, 500));
-};
+import { Certificate, CustomFont, Recipient, Signer, Template, TemplateVersion } from '../types';
+import { buildRenderModel, CertificateRenderModel, getCertificatePdfOptions } from './certificateRenderer';
+import { renderModelToPDF } from './pdfRenderer';
+import { getCertificateTemplate } from './templateVersions';
+import { renderModelToPNG } from './canvasRenderer';
+import { createRenderPool } from './renderWorkerPool';
+import { createBlobSink, createFileSink, createZipWriter } from './zipWriter';
+import {
+  deleteExportCheckpoint,
+  ExportCheckpoint,
+  loadExportCheckpoint,
+  ManifestRow,
+  saveExportCheckpoint
+} from './exportCheckpoint';
 
 export const generateStaticSite = (
   certificates: Certificate[],
@@ -223,7 +191,8 @@ const certificates = ${JSON.stringify(certificates.map(cert => {
       recipientName: recipient?.name || 'Unknown',
       course: recipient?.course || 'Unknown Course',
       issueDate: recipient?.issueDate || cert.issueDate,
-      status: cert.status
+      status: cert.status,
+      expiresAt: cert.expiresAt
     };
   }))};
 
@@ -293,8 +262,11 @@ ${header}
 
 <section class="hero" style="padding: 2rem 0;">
   <div class="container">
-    <h1 style="color: #22c55e; font-size: 2.5rem;">✓ Certificado Válido</h1>
-    <p>Este certificado es auténtico y ha sido verificado exitosamente</p>
+    ${certificate.status === 'revoked' ? `
+    <h1 style="color: #ef4444; font-size: 2.5rem;">✕ Certificado Revocado</h1>
+    <p>${certificate.revocation?.reason || 'Este certificado ha sido revocado y ya no es válido'}</p>` : `
+    <h1 id="validity-title" style="color: #22c55e; font-size: 2.5rem;">✓ Certificado Válido</h1>
+    <p id="validity-subtitle">Este certificado es auténtico y ha sido verificado exitosamente</p>`}
   </div>
 </section>
 
@@ -325,8 +297,20 @@ ${header}
       </div>
       <div class="detail-item">
         <div class="detail-label">Estado</div>
-        <div class="detail-value" style="color: #16a34a; font-weight: 600;">✓ Verificado y Válido</div>
+        ${certificate.status === 'revoked'
+          ? '<div class="detail-value" style="color: #dc2626; font-weight: 600;">✕ Revocado</div>'
+          : '<div id="validity-status" class="detail-value" style="color: #16a34a; font-weight: 600;">✓ Verificado y Válido</div>'}
+      </div>
+      ${certificate.expiresAt ? `
+      <div class="detail-item">
+        <div class="detail-label">Válido hasta</div>
+        <div class="detail-value">${new Date(certificate.expiresAt).toLocaleDateString('es-ES', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric'
+        })}</div>
       </div>
+      ` : ''}
       <div class="detail-item">
         <div class="detail-label">Institución Emisora</div>
         <div class="detail-value">Red Ciudadana</div>
@@ -355,6 +339,18 @@ ${header}
 </section>
 
 ${footer}
+${certificate.expiresAt && certificate.status !== 'revoked' ? `
+<script>
+// The site is generated once, so expiration is checked when the page is viewed
+if (Date.now() >= ${new Date(certificate.expiresAt).getTime()}) {
+  document.getElementById('validity-title').textContent = '⚠ Certificado Expirado';
+  document.getElementById('validity-title').style.color = '#d97706';
+  document.getElementById('validity-subtitle').textContent = 'Este certificado es auténtico, pero su vigencia terminó';
+  document.getElementById('validity-status').textContent = '⚠ Expirado';
+  document.getElementById('validity-status').style.color = '#d97706';
+}
+</script>
+` : ''}
 </body>
 </html>`;
     }
@@ -464,289 +460,233 @@ ErrorDocument 404 /404.html
 };
 
 export const generateCertificatePDF = async (
-  certificateRef: HTMLElement,
+  model: CertificateRenderModel,
   filename: string = 'certificate'
 ): Promise<void> => {
-  try {
-    // Generate canvas with better settings
-    const canvas = await html2canvas(certificateRef, {
-      scale: 3,
-      useCORS: true,
-      allowTaint: false,
-      backgroundColor: '#ffffff',
-      logging: false,
-      width: 1200,
-      height: 848,
-      foreignObjectRendering: false,
-      imageTimeout: 15000
-    });
-
-    const imgData = canvas.toDataURL('image/png', 1.0);
-    
-    // Check if canvas is blank
-    if (canvas.width === 0 || canvas.height === 0) {
-      throw new Error('Canvas rendering failed - empty canvas');
-    }
-    
-    const pdf = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-    
-    const imgProps = pdf.getImageProperties(imgData);
-    const pageW = pdf.internal.pageSize.getWidth();
-    const pageH = pdf.internal.pageSize.getHeight();
+  saveAs(await renderModelToPDF(model), `${filename}.pdf`);
+};
 
-    // cover = escalar para que cubra toda la hoja
-    const scale = Math.max(pageW / imgProps.width, pageH / imgProps.height);
-    const drawW = imgProps.width * scale;
-    const drawH = imgProps.height * scale;
+export interface BulkDownloadProgress {
+  total: number;
+  completed: number; // Includes certificates carried over from an interrupted export
+  failed: number;
+  resumed: number;
+}
 
-    // centrar (puede recortar arriba/abajo o izquierda/derecha)
-    const x = (pageW - drawW) / 2;
-    const y = (pageH - drawH) / 2;
+export interface BulkDownloadOptions {
+  onProgress?: (progress: BulkDownloadProgress) => void;
+  signal?: AbortSignal; // Aborting stops rendering; a file export can be resumed later
+  signers?: Signer[]; // Resolves signature fields
+  fonts?: CustomFont[]; // The font registry, for text in uploaded fonts
+  templateVersions?: TemplateVersion[]; // Renders each certificate with the version it was issued with
+}
 
-    pdf.addImage(imgData, 'PNG', x, y, drawW, drawH);
+const MANIFEST_FILE = 'manifest.csv';
+// Each checkpoint of a file export reopens the file, which copies all of it. Spacing them by
+// half the archive's size at least keeps that copying linear in the size of the export
+const MIN_CHECKPOINT_BYTES = 32 * 1024 * 1024;
+
+type ExportTarget =
+  | { kind: 'file'; handle: FileSystemFileHandle; sink: Awaited<ReturnType<typeof createFileSink>>; checkpoint: ExportCheckpoint | null }
+  | { kind: 'blob'; sink: ReturnType<typeof createBlobSink> };
+
+const sha256Hex = async (data: Uint8Array): Promise<string> =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toCsv = (rows: string[][]): string =>
+  rows
+    .map(row => row.map(value => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(','))
+    .join('\r\n') + '\r\n';
+
+/**
+ * Where the ZIP is written: straight to disk through the File System Access API,
+ * continuing an interrupted export of the same certificates when there is one, or
+ * into a Blob saved at the end where the API isn't available. Null when the user
+ * dismisses the file picker.
+ */
+const openExportTarget = async (key: string, suggestedName: string): Promise<ExportTarget | null> => {
+  if (!window.showSaveFilePicker) {
+    return { kind: 'blob', sink: createBlobSink() };
+  }
 
+  const checkpoint = await loadExportCheckpoint(key).catch(() => null);
+  if (checkpoint) {
+    try {
+      if (await checkpoint.handle.requestPermission({ mode: 'readwrite' }) === 'granted') {
+        const sink = await createFileSink(checkpoint.handle, checkpoint.zip.offset);
+        return { kind: 'file', handle: checkpoint.handle, sink, checkpoint };
+      }
+    } catch (error) {
+      console.warn('Could not resume the interrupted export:', error);
+    }
+    await deleteExportCheckpoint(key).catch(() => undefined);
+  }
 
-    
-    pdf.save(`${filename}.pdf`);
+  try {
+    const handle = await window.showSaveFilePicker({
+      suggestedName,
+      types: [{ description: 'Archivo ZIP', accept: { 'application/zip': ['.zip'] } }]
+    });
+    return { kind: 'file', handle, sink: await createFileSink(handle), checkpoint: null };
   } catch (error) {
-    console.error('Error generating certificate PDF:', error);
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
     throw error;
   }
 };
 
+/**
+ * Renders every certificate in the render worker pool and streams each PDF into the
+ * ZIP as it finishes, so memory stays flat however large the cohort is. The archive
+ * ends with a manifest.csv of file names, certificate codes, emails and SHA-256
+ * hashes. File exports are checkpointed: running the same export again after an
+ * interruption (or with failures) only renders the certificates not yet written.
+ */
 export const downloadAllCertificatesAsPDF = async (
   certificates: Certificate[],
   recipients: Recipient[],
-  templates: Template[]
+  templates: Template[],
+  { onProgress, signal, signers = [], fonts = [], templateVersions = [] }: BulkDownloadOptions = {}
 ): Promise<void> => {
   if (certificates.length === 0) {
     alert('No hay certificados para descargar.');
     return;
   }
 
-  let globalContainer: HTMLDivElement | null = null;
+  const zipName = `certificados-${new Date().toISOString().split('T')[0]}.zip`;
+  const pool = createRenderPool();
+  const key = await sha256Hex(new TextEncoder().encode(certificates.map(cert => cert.id).sort().join(',')));
+  let target: ExportTarget | null = null;
+
   try {
-    const zip = new JSZip();
-    let successCount = 0;
-    let errorCount = 0;
+    target = await openExportTarget(key, zipName);
+    if (!target) return;
+    const fileTarget = target.kind === 'file' ? target : null;
+
+    const manifest: ManifestRow[] = [...(fileTarget?.checkpoint?.manifest || [])];
+    const zip = createZipWriter(target.sink, fileTarget?.checkpoint?.zip);
+    const fileNames = new Set(manifest.map(row => row.file));
+    const written = new Set(manifest.map(row => row.certificateId));
+    const pending = certificates.filter(cert => !written.has(cert.id));
+    const progress: BulkDownloadProgress = {
+      total: certificates.length,
+      completed: certificates.length - pending.length,
+      failed: 0,
+      resumed: certificates.length - pending.length
+    };
+    const reportProgress = () => onProgress?.({ ...progress });
+    let checkpointedBytes = fileTarget?.checkpoint?.zip.offset || 0;
+    let uncheckpointedBytes = 0;
+
+    // Checkpoints run one after another so an older one never overwrites a newer one
+    let checkpoints = Promise.resolve();
+    const checkpoint = () => {
+      if (!fileTarget) return checkpoints;
+      checkpoints = checkpoints.then(async () => {
+        const state = await zip.flush();
+        const files = new Set(state.entries.map(entry => entry.name));
+        await saveExportCheckpoint({
+          key,
+          handle: fileTarget.handle,
+          zip: state,
+          manifest: manifest.filter(row => files.has(row.file)),
+          updatedAt: new Date().toISOString()
+        });
+      });
+      return checkpoints;
+    };
 
-    // Ensure fonts are loaded
-    try {
-      // @ts-ignore
-      if (document.fonts && document.fonts.ready) {
-        // @ts-ignore
-        await document.fonts.ready;
+    const addCertificate = async (cert: Certificate) => {
+      const recipient = recipients.find(r => r.id === cert.recipientId);
+      if (!recipient) {
+        progress.failed++;
+        return;
       }
-    } catch {}
-
-    // Create one reusable offscreen container for faster rendering
-    globalContainer = document.createElement('div');
-    globalContainer.style.position = 'fixed';
-    globalContainer.style.left = '-9999px';
-    globalContainer.style.top = '0';
-    globalContainer.style.width = '1200px';
-    globalContainer.style.height = '848px';
-    globalContainer.style.zIndex = '0';
-    globalContainer.style.backgroundColor = 'white';
-    document.body.appendChild(globalContainer);
-
-    const renderCertificateToBlob = async (
-      recipient: Recipient,
-      template: Template
-    ): Promise<Blob | null> => {
+
+      let pdf: Uint8Array;
       try {
-        const certificateDiv = document.createElement('div');
-        certificateDiv.className = 'certificate-preview';
-        certificateDiv.style.width = '100%';
-        certificateDiv.style.height = '100%';
-        certificateDiv.style.position = 'relative';
-        certificateDiv.style.backgroundColor = 'white';
-        certificateDiv.style.overflow = 'hidden';
-
-        const backgroundImg = document.createElement('img');
-        backgroundImg.src = template.imageUrl;
-        backgroundImg.alt = 'Certificate template';
-        backgroundImg.crossOrigin = 'anonymous';
-        backgroundImg.style.position = 'absolute';
-        backgroundImg.style.top = '0';
-        backgroundImg.style.left = '0';
-        backgroundImg.style.width = '100%';
-        backgroundImg.style.height = '100%';
-        backgroundImg.style.objectFit = 'cover';
-        backgroundImg.style.zIndex = '0';
-        certificateDiv.appendChild(backgroundImg);
-
-        await new Promise(resolve => {
-          if (backgroundImg.complete) return resolve(void 0);
-          backgroundImg.onload = () => resolve(void 0);
-          backgroundImg.onerror = () => resolve(void 0);
-          setTimeout(() => resolve(void 0), 10000);
-        });
+        // Throws when the version the certificate was issued with is missing
+        const template = getCertificateTemplate(templates, templateVersions, cert);
+        if (!template) {
+          progress.failed++;
+          return;
+        }
+        pdf = new Uint8Array(await pool.render(
+          buildRenderModel(template, recipient, cert, signers, fonts),
+          getCertificatePdfOptions(recipient, cert),
+          signal
+        ));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        progress.failed++;
+        return;
+      }
 
-        template.fields.forEach(field => {
-          if (field.type === 'qrcode') return;
-          const fieldDiv = document.createElement('div');
-          fieldDiv.style.position = 'absolute';
-          fieldDiv.style.left = `${field.x}%`;
-          fieldDiv.style.top = `${field.y}%`;
-          fieldDiv.style.transform = 'translate(-50%, -50%)';
-          fieldDiv.style.textAlign = 'center';
-          fieldDiv.style.width = '100%';
-          fieldDiv.style.maxWidth = '80%';
-          fieldDiv.style.fontFamily = field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
-          fieldDiv.style.fontSize = `${(field.fontSize || 16)}px`;
-          // Unificar color de fuente según masivo en ambos flujos
-          fieldDiv.style.color = field.color || '#000';
-          // Forzar bold como en masivo
-          fieldDiv.style.fontWeight = 'bold';
-          fieldDiv.style.textShadow = '2px 2px 4px rgba(255,255,255,0.8)';
-          fieldDiv.style.whiteSpace = 'nowrap';
-          fieldDiv.style.zIndex = '10';
-          fieldDiv.style.overflow = 'visible';
-
-          let textValue = '';
-          switch (field.type) {
-            case 'text':
-              if (field.name === 'recipient') {
-                // Usar la misma lógica del singular para el nombre
-                textValue = recipient.name;
-              } else if (field.name === 'course') {
-                textValue = recipient.course || field.defaultValue || '';
-              } else if (recipient.customFields && recipient.customFields[field.name]) {
-                textValue = recipient.customFields[field.name];
-              } else {
-                textValue = field.defaultValue || '';
-              }
-              break;
-            case 'date':
-              textValue = new Date(recipient.issueDate).toLocaleDateString('es-ES', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              });
-              break;
-          }
-          fieldDiv.textContent = textValue;
-          certificateDiv.appendChild(fieldDiv);
-        });
+      const baseName = `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate`;
+      const fileName = fileNames.has(`${baseName}.pdf`) ? `${baseName}-${cert.id}.pdf` : `${baseName}.pdf`;
+      fileNames.add(fileName);
+      manifest.push({ file: fileName, certificateId: cert.id, email: recipient.email || '', sha256: await sha256Hex(pdf) });
+      // Write errors (disk full, file removed) end the export; the last checkpoint stays valid
+      await zip.addFile(fileName, pdf);
+      progress.completed++;
+      uncheckpointedBytes += pdf.length;
+      if (uncheckpointedBytes >= Math.max(MIN_CHECKPOINT_BYTES, checkpointedBytes / 2)) {
+        checkpointedBytes += uncheckpointedBytes;
+        uncheckpointedBytes = 0;
+        await checkpoint();
+      }
+    };
 
-        if (!globalContainer) return null;
-        globalContainer.appendChild(certificateDiv);
+    // Keep every worker busy with one job queued behind it, and no more in memory
+    let next = 0;
+    const runners = Array.from({ length: pool.size * 2 }, async () => {
+      while (next < pending.length) {
+        await addCertificate(pending[next++]);
+        reportProgress();
+      }
+    });
+    reportProgress();
+    await Promise.all(runners);
 
-        await waitForImagesToLoad(certificateDiv);
+    if (manifest.length === 0) {
+      throw new Error('No se pudo generar ningún certificado PDF.');
+    }
 
-        // Render to JPEG for faster encoding and smaller files
-        const dataUrl = await toJpeg(certificateDiv, {
-          quality: 0.92,
-          pixelRatio: 1.5,
-          backgroundColor: '#ffffff',
-          cacheBust: false
-        });
+    // With failures, keep the checkpoint so running the export again only retries those
+    if (progress.failed > 0) await checkpoint();
+    else await checkpoints;
 
-        if (!dataUrl || dataUrl.length < 1000) return null;
-
-        const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4', compress: true });
-        const imgProps = pdf.getImageProperties(dataUrl);
-        const pageW = pdf.internal.pageSize.getWidth();
-        const pageH = pdf.internal.pageSize.getHeight();
-        const scale = Math.max(pageW / imgProps.width, pageH / imgProps.height);
-        const drawW = imgProps.width * scale;
-        const drawH = imgProps.height * scale;
-        const x = (pageW - drawW) / 2;
-        const y = (pageH - drawH) / 2;
-        pdf.addImage(dataUrl, 'PNG', x, y, drawW, drawH);
-        return pdf.output('blob');
-      } catch {
-        return null;
-      } finally {
-        // Clean per-certificate nodes
-        while (globalContainer && globalContainer.firstChild) {
-          globalContainer.removeChild(globalContainer.firstChild);
-        }
-      }
-    };
+    await zip.addFile(MANIFEST_FILE, new TextEncoder().encode(toCsv([
+      ['file', 'certificate_code', 'email', 'sha256'],
+      ...manifest.map(row => [row.file, row.certificateId, row.email, row.sha256])
+    ])));
+    await zip.finish();
 
-    // Concurrency tuned to CPU cores for speed without freezing the UI
-    const cores = (navigator as any).hardwareConcurrency || 4;
-    const concurrency = Math.min(8, cores * 2);
-    let pointer = 0;
-    while (pointer < certificates.length) {
-      const slice = certificates.slice(pointer, pointer + concurrency);
-      await Promise.all(
-        slice.map(async cert => {
-          const recipient = recipients.find(r => r.id === cert.recipientId);
-          const template = templates.find(t => t.id === cert.templateId);
-          if (!recipient || !template) {
-            errorCount++;
-            return;
-          }
-          const blob = await renderCertificateToBlob(recipient, template);
-          if (blob) {
-            const fileName = `${recipient.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-certificate.pdf`;
-            zip.file(fileName, blob);
-            successCount++;
-          } else {
-            errorCount++;
-          }
-        })
-      );
-      pointer += concurrency;
+    if (target.kind === 'blob') {
+      saveAs(target.sink.toBlob(), zipName);
+    } else if (progress.failed === 0) {
+      await deleteExportCheckpoint(key).catch(() => undefined);
     }
 
-    if (successCount > 0) {
-      // Use STORE (no compression) to significantly speed up zipping
-      const content = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
-      saveAs(content, `certificados-${new Date().toISOString().split('T')[0]}.zip`);
-      if (errorCount > 0) {
-        alert(`Se descargaron ${successCount} certificados exitosamente. ${errorCount} certificados fallaron.`);
-      }
-    } else {
-      throw new Error('No se pudo generar ningún certificado PDF.');
+    if (progress.failed > 0) {
+      alert(
+        `Se descargaron ${progress.completed} certificados exitosamente. ${progress.failed} certificados fallaron.` +
+        (target.kind === 'file' ? ' Vuelva a descargar la misma selección para reintentar solo los que fallaron.' : '')
+      );
     }
 
   } catch (error) {
+    if (target?.kind === 'file') await target.sink.abort().catch(() => undefined);
+    if (signal?.aborted) return;
     console.error('Error generating certificates:', error);
     alert('Hubo un error al generar los certificados. Por favor, inténtelo de nuevo.');
   } finally {
-    // Remove reusable container
-    if (globalContainer && document.body.contains(globalContainer)) {
-      document.body.removeChild(globalContainer);
-    }
+    pool.terminate();
   }
 };
 
 export const generateCertificateImage = async (
-  certificateRef: HTMLElement,
+  model: CertificateRenderModel,
   filename: string = 'certificate'
 ): Promise<void> => {
-  try {
-    // Wait for all images to load completely
-    await waitForImagesToLoad(certificateRef);
-    
-    const dataUrl = await toPng(certificateRef, { 
-      quality: 1.0,
-      pixelRatio: 3,
-      backgroundColor: '#ffffff'
-    });
-    
-    const byteString = atob(dataUrl.split(',')[1]);
-    const mimeString = dataUrl.split(',')[0].split(':')[1].split(';')[0];
-    const ab = new ArrayBuffer(byteString.length);
-    const ia = new Uint8Array(ab);
-    
-    for (let i = 0; i < byteString.length; i++) {
-      ia[i] = byteString.charCodeAt(i);
-    }
-    
-    const blob = new Blob([ab], { type: mimeString });
-    saveAs(blob, `${filename}.png`);
-  } catch (error) {
-    console.error('Error generating certificate image:', error);
-    throw error;
-  }
-};
\ No newline at end of file
+  saveAs(await renderModelToPNG(model), `${filename}.png`);
+};
@@ -202,4 +202,42 @@ export const validationHelpers = {
       course: `Course ${i + 1}`
     }));
   }
-};
\ No newline at end of file
+};
+/**
+ * Display labels for certificate statuses
+ */
+export const CERTIFICATE_STATUS_LABELS: Record<Certificate['status'], string> = {
+  draft: 'Borrador',
+  published: 'Publicado',
+  revoked: 'Revocado'
+};
+
+export const EXPIRING_SOON_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiration date for a certificate issued on `issueDate` that is valid for `validityMonths`
+ */
+export const calculateExpiresAt = (issueDate: string, validityMonths?: number): string | undefined => {
+  if (!validityMonths || validityMonths <= 0) return undefined;
+
+  const expiresAt = new Date(issueDate);
+  expiresAt.setMonth(expiresAt.getMonth() + validityMonths);
+  return expiresAt.toISOString();
+};
+
+export const isCertificateExpired = (certificate: Pick<Certificate, 'expiresAt'>, now = new Date()): boolean =>
+  !!certificate.expiresAt && new Date(certificate.expiresAt).getTime() <= now.getTime();
+
+/**
+ * Still valid, but expires within the next `days` days
+ */
+export const isCertificateExpiringSoon = (
+  certificate: Pick<Certificate, 'expiresAt'>,
+  now = new Date(),
+  days = EXPIRING_SOON_DAYS
+): boolean =>
+  !!certificate.expiresAt &&
+  !isCertificateExpired(certificate, now) &&
+  new Date(certificate.expiresAt).getTime() - now.getTime() <= days * DAY_MS;
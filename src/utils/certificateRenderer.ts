@@ -0,0 +1,377 @@
+import {
+  Template,
+  Recipient,
+  Certificate,
+  TemplateField,
+  QrErrorCorrectionLevel,
+  TextAlign,
+  Signer,
+  CustomFont,
+  BarcodeFormat,
+  TemplatePage,
+  TableColumn
+} from '../types';
+import { PdfRenderOptions, renderModelToPDF } from './pdfRenderer';
+import { getCanvasSize, getTemplatePageDimensions, PageDimensions } from './pageSize';
+import { EmbeddedFont, getUsedFonts } from './certificateFonts';
+
+/**
+ * Single render pipeline for certificates: (Template, Recipient, Certificate) becomes a
+ * render model, which the React preview draws, PNG exports rasterize (canvasRenderer)
+ * and PDF exports draw as vectors (pdfRenderer), so what admins preview is exactly what
+ * gets downloaded and uploaded. Free of DOM access so the CLI can build models too.
+ */
+
+// Canvas of the default page, A4 landscape; other page sizes scale from the same density
+export const CERTIFICATE_WIDTH = 1200;
+export const CERTIFICATE_HEIGHT = 848;
+export const DEFAULT_FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+export const DEFAULT_QR_SIZE = 100;
+export const DEFAULT_QR_ERROR_CORRECTION: QrErrorCorrectionLevel = 'L';
+export const DEFAULT_BARCODE_FORMAT: BarcodeFormat = 'code128';
+export const DEFAULT_TABLE_WIDTH = 800;
+export const DEFAULT_TABLE_ROW_HEIGHT = 28;
+export const DEFAULT_TABLE_FONT_SIZE = 14;
+export const FIRST_PAGE_ID = 'first';
+
+// Box of image, signature and barcode fields when the template doesn't set one, in px
+const DEFAULT_FIELD_BOX: Record<'image' | 'signature' | 'barcode', { width: number; height: number }> = {
+  image: { width: 160, height: 160 },
+  signature: { width: 240, height: 80 },
+  barcode: { width: 240, height: 60 }
+};
+
+export interface RenderedTextField {
+  type: 'text';
+  id: string;
+  x: number; // Anchor per `align`, percent of the width
+  y: number; // Center, percent of the height
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  align: TextAlign;
+  fontWeight: 'normal' | 'bold';
+  fontStyle: 'normal' | 'italic';
+  maxWidth?: number; // px; no wrapping without it
+  maxLines?: number;
+  letterSpacing: number; // px
+  autoFit: boolean;
+}
+
+export interface RenderedQrField {
+  type: 'qrcode';
+  id: string;
+  x: number;
+  y: number;
+  value: string;
+  size: number;
+  errorCorrection: QrErrorCorrectionLevel;
+}
+
+export interface RenderedImageField {
+  type: 'image'; // Signatures too, once their signer is resolved
+  id: string;
+  x: number; // Center, percent of the width
+  y: number; // Center, percent of the height
+  width: number; // px; the image is scaled to fit inside, keeping its aspect ratio
+  height: number;
+  url: string;
+}
+
+export interface RenderedBarcodeField {
+  type: 'barcode';
+  id: string;
+  x: number;
+  y: number;
+  width: number; // px, bars stretched to fill
+  height: number;
+  format: BarcodeFormat;
+  value: string;
+}
+
+export interface RenderedTableColumn {
+  label: string;
+  width: number; // px
+  align: TextAlign;
+}
+
+export interface RenderedTableField {
+  type: 'table';
+  id: string;
+  x: number; // Left edge, percent of the width
+  y: number; // Top edge, percent of the height
+  width: number; // px
+  rowHeight: number; // px, header included
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  columns: RenderedTableColumn[];
+  rows: string[][]; // One cell per column
+}
+
+export type RenderedField =
+  | RenderedTextField
+  | RenderedQrField
+  | RenderedImageField
+  | RenderedBarcodeField
+  | RenderedTableField;
+
+export interface RenderedPage {
+  backgroundUrl: string; // Empty for a blank page
+  fields: RenderedField[];
+}
+
+export interface CertificateRenderModel {
+  width: number; // px, every page has the same size
+  height: number; // px
+  pageSize: PageDimensions; // mm, of the PDF pages
+  pages: RenderedPage[];
+  fonts: EmbeddedFont[]; // Registered fonts the text uses; bundled ones are always there
+}
+
+/**
+ * What the certificate needs from its record. The preview has no record yet, only a verification URL.
+ */
+export type RenderableCertificate = Pick<Certificate, 'verificationUrl'> &
+  Partial<Pick<Certificate, 'id' | 'qrCodeUrl' | 'issueDate' | 'renewalOf' | 'signature'>>;
+
+export const formatCertificateDate = (date: string): string =>
+  new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+export const resolveFieldText = (
+  field: TemplateField,
+  recipient: Recipient,
+  certificate: RenderableCertificate
+): string => {
+  if (field.type === 'date') {
+    // A renewal carries its own issue date rather than the recipient's original one
+    const issueDate = certificate.renewalOf && certificate.issueDate ? certificate.issueDate : recipient.issueDate;
+    return formatCertificateDate(issueDate);
+  }
+
+  if (field.name === 'recipient') return recipient.name;
+  if (field.name === 'course') return recipient.course || field.defaultValue || '';
+  return recipient.customFields?.[field.name] || field.defaultValue || '';
+};
+
+/**
+ * QR codes encode the verification URL. Once signed, `qrCodeUrl` is that same URL plus the
+ * signature query string, which lets the QR verify offline, so it is preferred.
+ */
+export const getQrCodeValue = (certificate: RenderableCertificate): string =>
+  certificate.qrCodeUrl?.startsWith(`${certificate.verificationUrl}?`)
+    ? certificate.qrCodeUrl
+    : certificate.verificationUrl;
+
+/**
+ * Barcodes encode the certificate code, which the preview only has as the end of its verification URL.
+ */
+export const getCertificateCode = (certificate: RenderableCertificate): string =>
+  certificate.id || certificate.verificationUrl.split('/').filter(Boolean).pop() || '';
+
+/**
+ * Image fields show the recipient's own image when its custom field has one (e.g. a photo
+ * column), otherwise the template's; signature fields show their signer's signature.
+ */
+export const resolveFieldImage = (field: TemplateField, recipient: Recipient, signers: Signer[]): string =>
+  field.type === 'signature'
+    ? signers.find(signer => signer.id === field.signerId)?.signatureUrl || ''
+    : recipient.customFields?.[field.name] || field.imageUrl || '';
+
+/**
+ * Box of an image, signature or barcode field in px, falling back to its type's default.
+ */
+export const getFieldBox = (field: TemplateField): { width: number; height: number } => {
+  const fallback = DEFAULT_FIELD_BOX[field.type as keyof typeof DEFAULT_FIELD_BOX] || DEFAULT_FIELD_BOX.image;
+  return { width: field.width || fallback.width, height: field.height || fallback.height };
+};
+
+/**
+ * Every page of a template in order. The template's own background and fields are the first one.
+ */
+export const getTemplatePages = (template: Pick<Template, 'imageUrl' | 'fields' | 'pages'>): TemplatePage[] => [
+  { id: FIRST_PAGE_ID, imageUrl: template.imageUrl, fields: template.fields },
+  ...(template.pages || [])
+];
+
+/**
+ * Fields of every page of a template.
+ */
+export const getTemplateFields = (template: Pick<Template, 'imageUrl' | 'fields' | 'pages'>): TemplateField[] =>
+  getTemplatePages(template).flatMap(page => page.fields);
+
+/**
+ * Rows of a table field: the recipient's custom field of the same name holding a JSON
+ * array of objects (read by column key) or of arrays (read by column position). Anything
+ * else yields no rows.
+ */
+export const parseTableRows = (value: string | undefined): unknown[] => {
+  if (!value) return [];
+  try {
+    const rows = JSON.parse(value);
+    return Array.isArray(rows) ? rows.filter(row => row !== null && typeof row === 'object') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Columns of a table field; without any configured, one per property of the first row.
+ */
+export const getTableColumns = (field: TemplateField, rows: unknown[]): TableColumn[] => {
+  if (field.columns?.length) return field.columns;
+  const first = rows[0];
+  if (!first) return [];
+  return Array.isArray(first)
+    ? first.map((_, index) => ({ key: String(index), label: '' }))
+    : Object.keys(first).map(key => ({ key, label: key }));
+};
+
+const formatCell = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value);
+
+const buildTableField = (field: TemplateField, recipient: Recipient): RenderedTableField => {
+  const data = parseTableRows(recipient.customFields?.[field.name] || field.defaultValue);
+  const columns = getTableColumns(field, data);
+  const width = field.width || DEFAULT_TABLE_WIDTH;
+  const totalShare = columns.reduce((total, column) => total + (column.width || 1), 0) || 1;
+
+  return {
+    type: 'table',
+    id: field.id,
+    x: field.x,
+    y: field.y,
+    width,
+    rowHeight: field.rowHeight || DEFAULT_TABLE_ROW_HEIGHT,
+    fontFamily: field.fontFamily || DEFAULT_FONT_FAMILY,
+    fontSize: field.fontSize || DEFAULT_TABLE_FONT_SIZE,
+    color: field.color || '#000',
+    columns: columns.map(column => ({
+      label: column.label,
+      width: (width * (column.width || 1)) / totalShare,
+      align: column.align || 'left'
+    })),
+    rows: data
+      .slice(0, field.maxRows || undefined)
+      .map(row => columns.map(column =>
+        formatCell(Array.isArray(row) ? row[Number(column.key)] : (row as Record<string, unknown>)[column.key])
+      ))
+  };
+};
+
+const buildField = (
+  field: TemplateField,
+  recipient: Recipient,
+  certificate: RenderableCertificate,
+  signers: Signer[]
+): RenderedField | null => {
+  switch (field.type) {
+    case 'qrcode':
+      return {
+        type: 'qrcode',
+        id: field.id,
+        x: field.x,
+        y: field.y,
+        value: getQrCodeValue(certificate),
+        size: field.size || DEFAULT_QR_SIZE,
+        errorCorrection: field.errorCorrection || DEFAULT_QR_ERROR_CORRECTION
+      };
+    case 'image':
+    case 'signature': {
+      const url = resolveFieldImage(field, recipient, signers);
+      // Nothing to draw, e.g. a signer that was deleted
+      if (!url) return null;
+      return {
+        type: 'image',
+        id: field.id,
+        x: field.x,
+        y: field.y,
+        ...getFieldBox(field),
+        url
+      };
+    }
+    case 'table':
+      return buildTableField(field, recipient);
+    case 'barcode':
+      return {
+        type: 'barcode',
+        id: field.id,
+        x: field.x,
+        y: field.y,
+        ...getFieldBox(field),
+        format: field.barcodeFormat || DEFAULT_BARCODE_FORMAT,
+        value: getCertificateCode(certificate)
+      };
+    default:
+      return {
+        type: 'text',
+        id: field.id,
+        x: field.x,
+        y: field.y,
+        text: resolveFieldText(field, recipient, certificate),
+        fontFamily: field.fontFamily || DEFAULT_FONT_FAMILY,
+        fontSize: field.fontSize || 16,
+        color: field.color || '#000',
+        align: field.align || 'center',
+        fontWeight: field.fontWeight || 'bold',
+        fontStyle: field.fontStyle || 'normal',
+        maxWidth: field.maxWidth || undefined,
+        maxLines: field.maxLines || undefined,
+        letterSpacing: field.letterSpacing || 0,
+        autoFit: !!field.autoFit
+      };
+  }
+};
+
+/**
+ * `signers` resolves signature fields; without it they are left out. `fonts` is the font
+ * registry; text in a registered family that isn't in it fails to render.
+ */
+export const buildRenderModel = (
+  template: Template,
+  recipient: Recipient,
+  certificate: RenderableCertificate,
+  signers: Signer[] = [],
+  fonts: CustomFont[] = []
+): CertificateRenderModel => {
+  const pageSize = getTemplatePageDimensions(template);
+  return {
+    ...getCanvasSize(pageSize),
+    pageSize,
+    pages: getTemplatePages(template).map(page => ({
+      backgroundUrl: page.imageUrl,
+      fields: page.fields
+        .map(field => buildField(field, recipient, certificate, signers))
+        .filter((field): field is RenderedField => field !== null)
+    })),
+    fonts: getUsedFonts(getTemplateFields(template).map(field => field.fontFamily || DEFAULT_FONT_FAMILY), fonts)
+  };
+};
+
+/**
+ * Document metadata for a certificate's PDF: its title and, when signed, the signature.
+ */
+export const getCertificatePdfOptions = (
+  recipient: Recipient,
+  certificate: RenderableCertificate
+): Pick<PdfRenderOptions, 'signature' | 'title'> => ({
+  signature: certificate.signature,
+  title: `Certificado - ${recipient.name}`
+});
+
+export const renderCertificatePDF = (
+  template: Template,
+  recipient: Recipient,
+  certificate: RenderableCertificate,
+  signers: Signer[] = [],
+  fonts: CustomFont[] = []
+): Promise<Blob> =>
+  renderModelToPDF(
+    buildRenderModel(template, recipient, certificate, signers, fonts),
+    getCertificatePdfOptions(recipient, certificate)
+  );
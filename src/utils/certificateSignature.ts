@@ -0,0 +1,131 @@
+import { CertificateSignature } from '../types';
+import { DatabaseCertificate } from '../lib/supabase';
+
+/**
+ * Certificate fields covered by the organization signature.
+ * Must stay in sync with supabase/functions/sign-certificate/index.ts.
+ */
+export interface CertificatePayload {
+  v: 1;
+  code: string;
+  name: string;
+  course: string;
+  issueDate: string;
+  expiresAt: string | null;
+}
+
+/**
+ * - valid: signed by a published organization key
+ * - invalid: the signature doesn't match the certificate data
+ * - unknown-key: signed with a key that isn't published (rotated out or forged)
+ * - unsigned: issued before certificates were signed
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'unknown-key' | 'unsigned';
+
+const VERIFY_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+
+export const buildCertificatePayload = (
+  row: Pick<DatabaseCertificate, 'certificate_code' | 'recipient_name' | 'course_name' | 'issue_date' | 'expires_at'>
+): CertificatePayload => ({
+  v: 1,
+  code: row.certificate_code,
+  name: row.recipient_name,
+  course: row.course_name,
+  issueDate: row.issue_date,
+  expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null
+});
+
+/**
+ * JSON with sorted keys and no whitespace, so signer and verifier hash the same bytes.
+ */
+export const canonicalizePayload = (payload: CertificatePayload): string =>
+  JSON.stringify(payload, Object.keys(payload).sort());
+
+export const decodeCertificatePayload = (signature: CertificateSignature): CertificatePayload | null => {
+  try {
+    return JSON.parse(signature.payload) as CertificatePayload;
+  } catch {
+    return null;
+  }
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+/**
+ * Reads the signed payload from the QR data query string (`p`, `s`, `k`), which
+ * lets the certificate be checked without reaching the database.
+ */
+export const parseSignedQrData = (search: string): CertificateSignature | null => {
+  const params = new URLSearchParams(search);
+  const payload = params.get('p');
+  const value = params.get('s');
+  const keyId = params.get('k');
+  if (!payload || !value || !keyId) return null;
+
+  try {
+    return { payload: new TextDecoder().decode(fromBase64Url(payload)), value, keyId };
+  } catch {
+    return null;
+  }
+};
+
+let publicKeys: Promise<Map<string, CryptoKey>> | null = null;
+
+/**
+ * Published organization keys: a JSON array of public JWKs with a `kid`, bundled
+ * at build time so verification works offline. Old keys stay listed after rotation.
+ */
+const getPublicKeys = (): Promise<Map<string, CryptoKey>> => {
+  if (!publicKeys) {
+    publicKeys = (async () => {
+      const keys = new Map<string, CryptoKey>();
+      const raw = import.meta.env.VITE_CERTIFICATE_PUBLIC_KEYS;
+      if (!raw) return keys;
+
+      const jwks = JSON.parse(raw) as (JsonWebKey & { kid: string })[];
+      for (const jwk of jwks) {
+        keys.set(jwk.kid, await crypto.subtle.importKey('jwk', jwk, KEY_ALGORITHM, false, ['verify']));
+      }
+      return keys;
+    })();
+  }
+  return publicKeys;
+};
+
+export const getPublicKey = async (keyId: string): Promise<CryptoKey | undefined> =>
+  (await getPublicKeys()).get(keyId);
+
+export const verifyCertificateSignature = async (signature: CertificateSignature): Promise<SignatureStatus> => {
+  const key = await getPublicKey(signature.keyId);
+  if (!key) return 'unknown-key';
+
+  try {
+    const valid = await crypto.subtle.verify(
+      VERIFY_ALGORITHM,
+      key,
+      fromBase64Url(signature.value),
+      new TextEncoder().encode(signature.payload)
+    );
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+};
+
+/**
+ * Checks a database row against its stored signature. The payload is rebuilt from
+ * the row, so edits made after signing (or rows inserted without the key) fail.
+ */
+export const verifyDatabaseCertificate = async (row: DatabaseCertificate): Promise<SignatureStatus> => {
+  if (!row.signature || !row.signature_key_id) return 'unsigned';
+
+  return verifyCertificateSignature({
+    payload: canonicalizePayload(buildCertificatePayload(row)),
+    value: row.signature,
+    keyId: row.signature_key_id
+  });
+};
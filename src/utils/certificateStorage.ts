@@ -1,6 +1,6 @@
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { Template, Recipient } from '../types';
+import { Template, Recipient, Signer, CustomFont } from '../types';
+import { supabase } from '../lib/supabase';
+import { RenderableCertificate, renderCertificatePDF } from './certificateRenderer';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -26,15 +26,13 @@ export async function uploadCertificatePDF(
     try {
       const formData = new FormData();
       formData.append('file', pdfBlob, fileName);
+      const authHeaders = await supabase.getAuthHeaders();
 
       const response = await fetch(
         `${supabaseUrl}/storage/v1/object/${BUCKET_NAME}/${filePath}`,
         {
           method: 'POST',
-          headers: {
-            'apikey': supabaseAnonKey,
-            'Authorization': `Bearer ${supabaseAnonKey}`,
-          },
+          headers: authHeaders,
           body: formData,
         }
       );
@@ -48,10 +46,7 @@ export async function uploadCertificatePDF(
             `${supabaseUrl}/storage/v1/object/${BUCKET_NAME}/${filePath}`,
             {
               method: 'PUT',
-              headers: {
-                'apikey': supabaseAnonKey,
-                'Authorization': `Bearer ${supabaseAnonKey}`,
-              },
+              headers: authHeaders,
               body: formData,
             }
           );
@@ -128,10 +123,7 @@ export async function deleteCertificatePDF(certificateCode: string): Promise<voi
       `${supabaseUrl}/storage/v1/object/${BUCKET_NAME}/${filePath}`,
       {
         method: 'DELETE',
-        headers: {
-          'apikey': supabaseAnonKey,
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-        },
+        headers: await supabase.getAuthHeaders(),
       }
     );
 
@@ -149,135 +141,13 @@ export async function deleteCertificatePDF(certificateCode: string): Promise<voi
 export async function generateAndUploadCertificatePDF(
   certificateCode: string,
   template: Template,
-  recipient: Recipient
+  recipient: Recipient,
+  certificate: RenderableCertificate,
+  signers: Signer[] = [],
+  fonts: CustomFont[] = []
 ): Promise<string> {
-  try {
-    const certificateDiv = document.createElement('div');
-    certificateDiv.style.width = '1200px';
-    certificateDiv.style.height = '848px';
-    certificateDiv.style.position = 'relative';
-    certificateDiv.style.backgroundColor = 'white';
-
-    const backgroundImg = document.createElement('img');
-    backgroundImg.src = template.imageUrl;
-    backgroundImg.crossOrigin = 'anonymous';
-    backgroundImg.style.position = 'absolute';
-    backgroundImg.style.top = '0';
-    backgroundImg.style.left = '0';
-    backgroundImg.style.width = '100%';
-    backgroundImg.style.height = '100%';
-    backgroundImg.style.objectFit = 'cover';
-    backgroundImg.style.zIndex = '0';
-    certificateDiv.appendChild(backgroundImg);
-
-    await new Promise((resolve, reject) => {
-      if (backgroundImg.complete) return resolve(void 0);
-      backgroundImg.onload = () => resolve(void 0);
-      backgroundImg.onerror = () => reject(new Error('Failed to load template image'));
-      setTimeout(() => reject(new Error('Template image load timeout')), 10000);
-    });
-
-    template.fields.forEach(field => {
-      if (field.type === 'qrcode') return;
-
-      const fieldDiv = document.createElement('div');
-      fieldDiv.style.position = 'absolute';
-      fieldDiv.style.left = `${field.x}%`;
-      fieldDiv.style.top = `${field.y}%`;
-      fieldDiv.style.transform = 'translate(-50%, -50%)';
-      fieldDiv.style.textAlign = 'center';
-      fieldDiv.style.width = '100%';
-      fieldDiv.style.maxWidth = '80%';
-      fieldDiv.style.fontFamily = field.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
-      fieldDiv.style.fontSize = `${(field.fontSize || 16)}px`;
-      fieldDiv.style.color = field.color || '#000';
-      fieldDiv.style.fontWeight = 'bold';
-      fieldDiv.style.textShadow = '2px 2px 4px rgba(255,255,255,0.8)';
-      fieldDiv.style.whiteSpace = 'nowrap';
-      fieldDiv.style.zIndex = '10';
-
-      let textValue = '';
-      switch (field.type) {
-        case 'text':
-          if (field.name === 'recipient') {
-            textValue = recipient.name;
-          } else if (field.name === 'course') {
-            textValue = recipient.course || field.defaultValue || '';
-          } else if (recipient.customFields && recipient.customFields[field.name]) {
-            textValue = recipient.customFields[field.name];
-          } else {
-            textValue = field.defaultValue || '';
-          }
-          break;
-        case 'date':
-          textValue = new Date(recipient.issueDate).toLocaleDateString('es-ES', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          });
-          break;
-      }
-
-      fieldDiv.textContent = textValue;
-      certificateDiv.appendChild(fieldDiv);
-    });
-
-    const tempContainer = document.createElement('div');
-    tempContainer.style.position = 'fixed';
-    tempContainer.style.left = '-9999px';
-    tempContainer.style.top = '0';
-    tempContainer.style.width = '1200px';
-    tempContainer.style.height = '848px';
-    tempContainer.style.backgroundColor = 'white';
-    document.body.appendChild(tempContainer);
-    tempContainer.appendChild(certificateDiv);
-
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    const canvas = await html2canvas(certificateDiv, {
-      scale: 3,
-      useCORS: true,
-      allowTaint: false,
-      backgroundColor: '#ffffff',
-      logging: false,
-      width: 1200,
-      height: 848,
-      foreignObjectRendering: false,
-      imageTimeout: 15000
-    });
-
-    const imgData = canvas.toDataURL('image/png', 1.0);
-
-    const pdf = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compress: true
-    });
-
-    const imgProps = pdf.getImageProperties(imgData);
-    const pageW = pdf.internal.pageSize.getWidth();
-    const pageH = pdf.internal.pageSize.getHeight();
-    const scale = Math.max(pageW / imgProps.width, pageH / imgProps.height);
-    const drawW = imgProps.width * scale;
-    const drawH = imgProps.height * scale;
-    const x = (pageW - drawW) / 2;
-    const y = (pageH - drawH) / 2;
-
-    pdf.addImage(imgData, 'PNG', x, y, drawW, drawH);
-
-    const pdfBlob = pdf.output('blob');
-
-    document.body.removeChild(tempContainer);
-
-    const publicUrl = await uploadCertificatePDF(certificateCode, pdfBlob);
-
-    return publicUrl;
-
-  } catch (error) {
-    console.error('Error generating and uploading certificate:', error);
-    throw error;
-  }
+  const pdfBlob = await renderCertificatePDF(template, recipient, certificate, signers, fonts);
+  return uploadCertificatePDF(certificateCode, pdfBlob);
 }
 
 export async function checkCertificatePDFExists(certificateCode: string): Promise<boolean> {
@@ -0,0 +1,252 @@
+import { Template, Recipient, Certificate, CertificateCollection, Signer, TemplateVersion, CustomFont } from '../types';
+import {
+  DatabaseTemplate,
+  DatabaseTemplateVersion,
+  DatabaseSigner,
+  DatabaseFont,
+  DatabaseRecipient,
+  DatabaseCollection,
+  DatabaseCertificate
+} from '../lib/supabase';
+import { buildCertificatePayload, canonicalizePayload } from './certificateSignature';
+
+export type SyncEntity = 'templates' | 'signers' | 'fonts' | 'recipients' | 'collections';
+
+/**
+ * A local write that still has to reach Supabase. Only the record id is queued;
+ * the current record is read from the store when the change is flushed.
+ */
+export interface PendingChange {
+  entity: SyncEntity;
+  recordId: string;
+  operation: 'upsert' | 'delete';
+}
+
+/**
+ * A change the server refused (e.g. RLS). It stays, and so does the local record it
+ * would have saved, until the user retries or discards it.
+ */
+export interface RejectedChange extends PendingChange {
+  error: string;
+  rejectedAt: string;
+}
+
+/**
+ * Adds a change to the queue, replacing any earlier change to the same record.
+ */
+export const enqueueChange = (queue: PendingChange[], change: PendingChange): PendingChange[] => [
+  ...queue.filter(c => !(c.entity === change.entity && c.recordId === change.recordId)),
+  change
+];
+
+/**
+ * Queues upserts for every record in `next` and deletes for records that disappeared from `previous`.
+ */
+export const enqueueReplacement = (
+  queue: PendingChange[],
+  entity: SyncEntity,
+  previous: { id: string }[],
+  next: { id: string }[]
+): PendingChange[] => {
+  const nextIds = new Set(next.map(record => record.id));
+  const deletes = previous
+    .filter(record => !nextIds.has(record.id))
+    .map(record => ({ entity, recordId: record.id, operation: 'delete' as const }));
+  const upserts = next.map(record => ({ entity, recordId: record.id, operation: 'upsert' as const }));
+
+  return [...deletes, ...upserts].reduce(enqueueChange, queue);
+};
+
+/**
+ * fetch() rejects with a TypeError when the request never reached the server.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) || error instanceof TypeError;
+
+export const toDatabaseTemplate = (template: Template): DatabaseTemplate => ({
+  id: template.id,
+  name: template.name,
+  image_url: template.imageUrl,
+  fields: template.fields,
+  width: template.width ?? null,
+  height: template.height ?? null,
+  validity_months: template.validityMonths ?? null,
+  criteria: template.criteria || null,
+  pages: template.pages || [],
+  page_size: template.pageSize ?? null,
+  version: template.version ?? null,
+  deleted_at: null, // Upserting a template that was deleted (e.g. re-imported) restores it
+  updated_at: new Date().toISOString()
+});
+
+export const fromDatabaseTemplate = (row: DatabaseTemplate): Template => ({
+  id: row.id,
+  name: row.name,
+  imageUrl: row.image_url,
+  fields: row.fields || [],
+  width: row.width ?? undefined,
+  height: row.height ?? undefined,
+  validityMonths: row.validity_months ?? undefined,
+  criteria: row.criteria || undefined,
+  pages: row.pages?.length ? row.pages : undefined,
+  pageSize: row.page_size || undefined,
+  version: row.version ?? undefined
+});
+
+export const toDatabaseTemplateVersion = (version: TemplateVersion): DatabaseTemplateVersion => ({
+  id: version.id,
+  template_id: version.templateId,
+  version: version.version,
+  snapshot: version.snapshot,
+  note: version.note || null,
+  created_at: version.createdAt
+});
+
+export const fromDatabaseTemplateVersion = (row: DatabaseTemplateVersion): TemplateVersion => ({
+  id: row.id,
+  templateId: row.template_id,
+  version: row.version,
+  // Same normalization as templates, so an unchanged template compares equal to its version
+  snapshot: { ...row.snapshot, pages: row.snapshot.pages?.length ? row.snapshot.pages : undefined },
+  note: row.note || undefined,
+  createdAt: row.created_at || ''
+});
+
+export const toDatabaseSigner = (signer: Signer): DatabaseSigner => ({
+  id: signer.id,
+  name: signer.name,
+  title: signer.title || null,
+  signature_url: signer.signatureUrl,
+  updated_at: new Date().toISOString()
+});
+
+export const fromDatabaseSigner = (row: DatabaseSigner): Signer => ({
+  id: row.id,
+  name: row.name,
+  title: row.title || undefined,
+  signatureUrl: row.signature_url
+});
+
+export const toDatabaseFont = (font: CustomFont): DatabaseFont => ({
+  id: font.id,
+  family: font.family,
+  style: font.style,
+  url: font.url,
+  format: font.format,
+  updated_at: new Date().toISOString()
+});
+
+export const fromDatabaseFont = (row: DatabaseFont): CustomFont => ({
+  id: row.id,
+  family: row.family,
+  style: row.style,
+  url: row.url,
+  format: row.format
+});
+
+export const toDatabaseRecipient = (recipient: Recipient): DatabaseRecipient => ({
+  id: recipient.id,
+  name: recipient.name,
+  email: recipient.email || null,
+  course: recipient.course || null,
+  issue_date: recipient.issueDate,
+  custom_fields: recipient.customFields || null,
+  updated_at: new Date().toISOString()
+});
+
+export const fromDatabaseRecipient = (row: DatabaseRecipient): Recipient => ({
+  id: row.id,
+  name: row.name,
+  email: row.email || undefined,
+  course: row.course || undefined,
+  issueDate: row.issue_date,
+  customFields: row.custom_fields || undefined
+});
+
+export const toDatabaseCollection = (collection: CertificateCollection): DatabaseCollection => ({
+  id: collection.id,
+  name: collection.name,
+  description: collection.description || null,
+  template_id: collection.templateId || null,
+  certificate_ids: collection.certificates.map(c => c.id),
+  created_at: collection.createdAt,
+  updated_at: new Date().toISOString()
+});
+
+export const fromDatabaseCollection = (
+  row: DatabaseCollection,
+  certificates: Certificate[]
+): CertificateCollection => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || undefined,
+  templateId: row.template_id || '',
+  certificates: certificates.filter(c => row.certificate_ids.includes(c.id)),
+  createdAt: row.created_at || new Date().toISOString()
+});
+
+const CERTIFICATE_STATUS: Record<NonNullable<DatabaseCertificate['status']>, Certificate['status']> = {
+  pending: 'draft',
+  active: 'published',
+  revoked: 'revoked'
+};
+
+/**
+ * Maps an issued certificate back to the local shape. Returns null for rows
+ * issued before `recipient_ref` existed, which can't be matched to a recipient.
+ */
+export const fromDatabaseCertificate = (row: DatabaseCertificate): Certificate | null => {
+  if (!row.recipient_ref) return null;
+
+  // Signed QR data is the verification URL plus the signature in the query string
+  const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
+  const verificationUrl = row.qr_code_data?.split('?')[0] || `${baseUrl}/verify/${row.certificate_code}`;
+
+  return {
+    id: row.certificate_code,
+    recipientId: row.recipient_ref,
+    templateId: row.template_id,
+    qrCodeUrl: row.qr_code_data || verificationUrl,
+    issueDate: row.created_at || row.issue_date,
+    verificationUrl,
+    status: CERTIFICATE_STATUS[row.status || 'active'],
+    revocation: row.status === 'revoked'
+      ? {
+          reason: row.revocation_reason || '',
+          revokedBy: row.revoked_by || '',
+          revokedAt: row.revoked_at || ''
+        }
+      : undefined,
+    expiresAt: row.expires_at || undefined,
+    renewalOf: row.renewal_of || undefined,
+    templateVersion: row.template_version ?? undefined,
+    signature: row.signature && row.signature_key_id
+      ? {
+          payload: canonicalizePayload(buildCertificatePayload(row)),
+          value: row.signature,
+          keyId: row.signature_key_id
+        }
+      : undefined
+  };
+};
+
+/**
+ * Overlays records with unsynced local changes on top of the server copy, so a
+ * refresh never discards edits that are still waiting in the queue.
+ */
+export const mergeWithPending = <T extends { id: string }>(
+  remote: T[],
+  local: T[],
+  entity: SyncEntity,
+  queue: PendingChange[]
+): T[] => {
+  const pending = new Map(
+    queue.filter(c => c.entity === entity).map(c => [c.recordId, c.operation])
+  );
+  const localUpserts = local.filter(record => pending.get(record.id) === 'upsert');
+
+  return [
+    ...remote.filter(record => !pending.has(record.id)),
+    ...localUpserts
+  ];
+};
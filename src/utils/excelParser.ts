@@ -1,13 +1,65 @@
 import * as XLSX from 'xlsx';
 import { Recipient } from '../types';
 
-interface ParseOptions {
+export interface ParseOptions {
   nameField?: string;
   emailField?: string;
   courseField?: string;
   dateField?: string;
 }
 
+/**
+ * Convert the first sheet of a workbook (XLSX, XLS or CSV bytes) to recipient data
+ */
+export const parseWorkbook = (data: ArrayBuffer | Uint8Array, options: ParseOptions = {}): Omit<Recipient, 'id'>[] => {
+  // UTF-8 for CSV files (ignored for real workbooks); date cells as dates rather than serial numbers
+  const workbook = XLSX.read(data instanceof Uint8Array ? data : new Uint8Array(data), {
+    type: 'array',
+    codepage: 65001,
+    cellDates: true
+  });
+  
+  // Get the first sheet
+  const firstSheetName = workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[firstSheetName];
+  
+  // Convert to JSON
+  const jsonData = XLSX.utils.sheet_to_json(worksheet);
+  
+  // Map to Recipient format
+  const {
+    nameField = 'name',
+    emailField = 'email',
+    courseField = 'course',
+    dateField = 'date'
+  } = options;
+  
+  return jsonData.map((row: any) => {
+    const customFields: Record<string, string> = {};
+    
+    // Extract known fields
+    const name = row[nameField] || '';
+    const email = row[emailField] || '';
+    const course = row[courseField] || '';
+    const date = row[dateField] ? new Date(row[dateField]).toISOString() : new Date().toISOString();
+    
+    // Extract other fields as custom fields
+    Object.keys(row).forEach(key => {
+      if (![nameField, emailField, courseField, dateField].includes(key)) {
+        customFields[key] = String(row[key]);
+      }
+    });
+    
+    return {
+      name,
+      email,
+      course,
+      issueDate: date,
+      customFields: Object.keys(customFields).length > 0 ? customFields : undefined
+    };
+  });
+};
+
 /**
  * Parse Excel file and convert to recipient data
  */
@@ -22,50 +74,7 @@ export const parseExcelFile = (file: File, options: ParseOptions = {}): Promise<
           return;
         }
         
-        const data = new Uint8Array(event.target.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-        
-        // Map to Recipient format
-        const {
-          nameField = 'name',
-          emailField = 'email',
-          courseField = 'course',
-          dateField = 'date'
-        } = options;
-        
-        const recipients = jsonData.map((row: any) => {
-          const customFields: Record<string, string> = {};
-          
-          // Extract known fields
-          const name = row[nameField] || '';
-          const email = row[emailField] || '';
-          const course = row[courseField] || '';
-          const date = row[dateField] ? new Date(row[dateField]).toISOString() : new Date().toISOString();
-          
-          // Extract other fields as custom fields
-          Object.keys(row).forEach(key => {
-            if (![nameField, emailField, courseField, dateField].includes(key)) {
-              customFields[key] = String(row[key]);
-            }
-          });
-          
-          return {
-            name,
-            email,
-            course,
-            issueDate: date,
-            customFields: Object.keys(customFields).length > 0 ? customFields : undefined
-          };
-        });
-        
-        resolve(recipients);
+        resolve(parseWorkbook(event.target.result as ArrayBuffer, options));
       } catch (error) {
         reject(error);
       }
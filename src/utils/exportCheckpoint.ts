@@ -0,0 +1,62 @@
+import type { ZipState } from './zipWriter';
+
+/**
+ * Progress of bulk ZIP exports written through the File System Access API. Kept in
+ * IndexedDB because file handles can't be serialized to localStorage; an interrupted
+ * export resumes from its last checkpoint instead of starting over.
+ */
+
+export interface ManifestRow {
+  file: string;
+  certificateId: string;
+  email: string;
+  sha256: string;
+}
+
+export interface ExportCheckpoint {
+  key: string; // Identifies the set of certificates being exported
+  handle: FileSystemFileHandle;
+  zip: ZipState;
+  manifest: ManifestRow[]; // One row per entry in zip.entries
+  updatedAt: string;
+}
+
+const DB_NAME = 'certificate-exports';
+const STORE_NAME = 'checkpoints';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadExportCheckpoint = async (key: string): Promise<ExportCheckpoint | null> =>
+  (await runTransaction<ExportCheckpoint | undefined>('readonly', store => store.get(key))) || null;
+
+export const saveExportCheckpoint = async (checkpoint: ExportCheckpoint): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(checkpoint));
+};
+
+export const deleteExportCheckpoint = async (key: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(key));
+};
@@ -0,0 +1,98 @@
+import { FontFormat, FontStyle } from '../types';
+
+/**
+ * Format, family and style of an uploaded font file, read from its own tables so the
+ * font registry can fill in the form and tell which files PDFs can embed.
+ */
+
+export interface FontInfo {
+  format: FontFormat;
+  family?: string; // From the name table; WOFF2 compresses its tables, so not for those
+  style?: FontStyle;
+}
+
+export const FONT_EXTENSIONS: Record<FontFormat, string> = {
+  truetype: 'ttf',
+  opentype: 'otf',
+  woff2: 'woff2'
+};
+
+export const FONT_MIME_TYPES: Record<FontFormat, string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff2: 'font/woff2'
+};
+
+// Name ids: typographic family/subfamily when present, else the legacy family/subfamily
+const FAMILY_NAME_IDS = [16, 1];
+const SUBFAMILY_NAME_IDS = [17, 2];
+
+const readTag = (bytes: DataView, offset: number): string =>
+  String.fromCharCode(...[0, 1, 2, 3].map(i => bytes.getUint8(offset + i)));
+
+const readNameString = (bytes: DataView, offset: number, length: number, platformId: number): string => {
+  if (platformId === 0 || platformId === 3) {
+    // Unicode and Windows names are UTF-16BE
+    const chars: number[] = [];
+    for (let i = 0; i + 1 < length; i += 2) chars.push(bytes.getUint16(offset + i));
+    return String.fromCharCode(...chars);
+  }
+  return String.fromCharCode(...Array.from({ length }, (_, i) => bytes.getUint8(offset + i)));
+};
+
+const readNames = (bytes: DataView): Map<number, string> => {
+  const names = new Map<number, string>();
+  const numTables = bytes.getUint16(4);
+  for (let table = 0; table < numTables; table++) {
+    const record = 12 + table * 16;
+    if (record + 16 > bytes.byteLength || readTag(bytes, record) !== 'name') continue;
+
+    const start = bytes.getUint32(record + 8);
+    const count = bytes.getUint16(start + 2);
+    const strings = start + bytes.getUint16(start + 4);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 6 + i * 12;
+      const platformId = bytes.getUint16(entry);
+      const nameId = bytes.getUint16(entry + 6);
+      const length = bytes.getUint16(entry + 8);
+      const offset = strings + bytes.getUint16(entry + 10);
+      if (offset + length > bytes.byteLength) continue;
+      // Windows names win over Mac ones
+      if (!names.has(nameId) || platformId === 3) {
+        names.set(nameId, readNameString(bytes, offset, length, platformId).trim());
+      }
+    }
+  }
+  return names;
+};
+
+const toFontStyle = (subfamily: string): FontStyle => {
+  const bold = /bold|black|heavy/i.test(subfamily);
+  const italic = /italic|oblique/i.test(subfamily);
+  return bold ? (italic ? 'bolditalic' : 'bold') : (italic ? 'italic' : 'normal');
+};
+
+/**
+ * What kind of font a file is. Returns null for anything that isn't a TTF, OTF or
+ * WOFF2 font (including WOFF 1 and font collections).
+ */
+export const readFontInfo = (buffer: ArrayBuffer): FontInfo | null => {
+  const bytes = new DataView(buffer);
+  if (bytes.byteLength < 12) return null;
+
+  const signature = readTag(bytes, 0);
+  if (signature === 'wOF2') return { format: 'woff2' };
+  const format: FontFormat | null =
+    bytes.getUint32(0) === 0x00010000 || signature === 'true' ? 'truetype' : signature === 'OTTO' ? 'opentype' : null;
+  if (!format) return null;
+
+  try {
+    const names = readNames(bytes);
+    const family = FAMILY_NAME_IDS.map(id => names.get(id)).find(Boolean);
+    const subfamily = SUBFAMILY_NAME_IDS.map(id => names.get(id)).find(Boolean);
+    return { format, family, style: subfamily ? toFontStyle(subfamily) : undefined };
+  } catch {
+    // A damaged name table still leaves a usable font; the admin types the family
+    return { format };
+  }
+};
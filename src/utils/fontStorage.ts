@@ -0,0 +1,24 @@
+import { FontFormat } from '../types';
+import { uploadContentAddressed } from './imageStorage';
+import { FONT_EXTENSIONS, FONT_MIME_TYPES } from './fontInfo';
+
+/**
+ * Font files of the font registry, in the `fonts` Supabase Storage bucket. Like
+ * template images, objects are named after their content.
+ */
+
+const BUCKET_NAME = 'fonts';
+
+export const MAX_FONT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Uploads a font file and returns its public URL.
+ */
+export const uploadFontFile = (file: Blob, format: FontFormat): Promise<string> => {
+  if (file.size > MAX_FONT_SIZE) {
+    return Promise.reject(new Error('Font files must be smaller than 10MB.'));
+  }
+  // Browsers report font files with no type or vendor types; the bucket only takes these
+  const typed = new Blob([file], { type: FONT_MIME_TYPES[format] });
+  return uploadContentAddressed(BUCKET_NAME, typed, FONT_EXTENSIONS[format]);
+};
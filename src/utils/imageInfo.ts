@@ -0,0 +1,79 @@
+/**
+ * Pixel size and embedded resolution of uploaded artwork, so the template editor can
+ * warn before an image prints blurry or gets cropped.
+ */
+
+export interface ImageInfo {
+  width: number; // px
+  height: number; // px
+  dpi?: number; // From the file's metadata (PNG pHYs, JPEG JFIF), when it has any
+}
+
+const INCHES_PER_METER = 39.3701;
+
+const readPngDpi = (bytes: DataView): number | undefined => {
+  let offset = 8; // Signature
+  while (offset + 8 <= bytes.byteLength) {
+    const length = bytes.getUint32(offset);
+    const type = String.fromCharCode(...[4, 5, 6, 7].map(i => bytes.getUint8(offset + i)));
+    if (type === 'pHYs' && length >= 9) {
+      const pixelsPerUnit = bytes.getUint32(offset + 8);
+      const unit = bytes.getUint8(offset + 16); // 1 = meter, 0 = aspect ratio only
+      return unit === 1 ? Math.round(pixelsPerUnit / INCHES_PER_METER) : undefined;
+    }
+    if (type === 'IDAT' || type === 'IEND') return undefined; // pHYs comes before the image data
+    offset += length + 12;
+  }
+  return undefined;
+};
+
+const readJpegDpi = (bytes: DataView): number | undefined => {
+  let offset = 2; // SOI marker
+  while (offset + 4 <= bytes.byteLength && bytes.getUint8(offset) === 0xff) {
+    const marker = bytes.getUint8(offset + 1);
+    const length = bytes.getUint16(offset + 2);
+    if (marker === 0xe0 && offset + 16 <= bytes.byteLength) {
+      const id = String.fromCharCode(...[4, 5, 6, 7].map(i => bytes.getUint8(offset + i)));
+      if (id === 'JFIF') {
+        const unit = bytes.getUint8(offset + 11); // 1 = dots per inch, 2 = dots per cm
+        const density = bytes.getUint16(offset + 12);
+        if (unit === 1) return density;
+        if (unit === 2) return Math.round(density * 2.54);
+        return undefined;
+      }
+    }
+    if (marker === 0xda) return undefined; // Start of scan: no more metadata
+    offset += length + 2;
+  }
+  return undefined;
+};
+
+/**
+ * Resolution stored in a PNG or JPEG file. Many exports leave it out or at 72.
+ */
+export const readImageDpi = (buffer: ArrayBuffer): number | undefined => {
+  const bytes = new DataView(buffer);
+  if (bytes.byteLength < 24) return undefined;
+  if (bytes.getUint32(0) === 0x89504e47) return readPngDpi(bytes);
+  if (bytes.getUint16(0) === 0xffd8) return readJpegDpi(bytes);
+  return undefined;
+};
+
+export const readImageInfo = async (image: Blob): Promise<ImageInfo> => {
+  const url = URL.createObjectURL(image);
+  try {
+    const element = new Image();
+    await new Promise((resolve, reject) => {
+      element.onload = resolve;
+      element.onerror = () => reject(new Error('Failed to read image'));
+      element.src = url;
+    });
+    return {
+      width: element.naturalWidth,
+      height: element.naturalHeight,
+      dpi: readImageDpi(await image.arrayBuffer())
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -1,144 +1,131 @@
-// Utility functions for managing uploaded images in localStorage
-
-export interface StoredImage {
-  id: string;
-  name: string;
-  dataUrl: string;
-  size: number;
-  uploadDate: string;
-}
-
-const STORAGE_PREFIX = 'certificate_template_';
-const STORAGE_INDEX_KEY = 'certificate_templates_index';
+import { TemplateField, TemplateSnapshot } from '../types';
+import { supabase } from '../lib/supabase';
 
 /**
- * Store an image in localStorage and return its ID
+ * Template images in the `templates` Supabase Storage bucket. Objects are named after
+ * the SHA-256 of their content, so uploading an image twice reuses the first copy and
+ * every admin (and the CLI) reads the same file.
  */
-export const storeImage = (file: File, dataUrl: string): string => {
-  const imageId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const storageKey = `${STORAGE_PREFIX}${imageId}`;
-  
-  const imageData: StoredImage = {
-    id: imageId,
-    name: file.name,
-    dataUrl,
-    size: file.size,
-    uploadDate: new Date().toISOString()
-  };
-  
-  try {
-    // Store the image data
-    localStorage.setItem(storageKey, JSON.stringify(imageData));
-    
-    // Update the index
-    const index = getStoredImagesIndex();
-    index.push(imageId);
-    localStorage.setItem(STORAGE_INDEX_KEY, JSON.stringify(index));
-    
-    return imageId;
-  } catch (error) {
-    console.error('Error storing image:', error);
-    throw new Error('No se pudo guardar la imagen. Puede ser muy grande.');
-  }
-};
 
-/**
- * Retrieve an image by ID
- */
-export const getStoredImage = (imageId: string): StoredImage | null => {
-  try {
-    const storageKey = `${STORAGE_PREFIX}${imageId}`;
-    const data = localStorage.getItem(storageKey);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.error('Error retrieving image:', error);
-    return null;
-  }
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+const BUCKET_NAME = 'templates';
+
+// Where uploads used to be kept in localStorage: `certificate_template_<id>` entries and their index
+const LEGACY_STORAGE_PREFIX = 'certificate_template_';
+const LEGACY_STORAGE_INDEX_KEY = 'certificate_templates_index';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
 };
 
+const sha256Hex = async (data: ArrayBuffer): Promise<string> =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const getPublicUrl = (bucket: string, path: string): string =>
+  `${supabaseUrl}/storage/v1/object/public/${bucket}/${path}`;
+
+export const getTemplateImageUrl = (path: string): string => getPublicUrl(BUCKET_NAME, path);
+
+export const isTemplateImageUrl = (url: string): boolean => url.startsWith(getTemplateImageUrl(''));
+
 /**
- * Get all stored images
+ * Uploads a file to a public bucket, named after its content, and returns its public
+ * URL. A file that is already there (same content) is not uploaded again.
  */
-export const getAllStoredImages = (): StoredImage[] => {
-  const index = getStoredImagesIndex();
-  const images: StoredImage[] = [];
-  
-  index.forEach(imageId => {
-    const image = getStoredImage(imageId);
-    if (image) {
-      images.push(image);
-    }
+export const uploadContentAddressed = async (bucket: string, file: Blob, extension: string): Promise<string> => {
+  const path = `${await sha256Hex(await file.arrayBuffer())}.${extension}`;
+  const url = getPublicUrl(bucket, path);
+
+  const existing = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  if (existing?.ok) return url;
+
+  const response = await fetch(`${supabaseUrl}/storage/v1/object/${bucket}/${path}`, {
+    method: 'POST',
+    headers: {
+      ...(await supabase.getAuthHeaders()),
+      'Content-Type': file.type,
+      // The path changes whenever the content does
+      'cache-control': 'max-age=31536000'
+    },
+    body: file
   });
-  
-  return images.sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
-};
 
-/**
- * Delete a stored image
- */
-export const deleteStoredImage = (imageId: string): boolean => {
-  try {
-    const storageKey = `${STORAGE_PREFIX}${imageId}`;
-    localStorage.removeItem(storageKey);
-    
-    // Update the index
-    const index = getStoredImagesIndex();
-    const updatedIndex = index.filter(id => id !== imageId);
-    localStorage.setItem(STORAGE_INDEX_KEY, JSON.stringify(updatedIndex));
-    
-    return true;
-  } catch (error) {
-    console.error('Error deleting image:', error);
-    return false;
+  // Someone uploaded the same file between our check and the upload
+  if (!response.ok && response.status !== 409) {
+    const errorText = await response.text();
+    if (!errorText.includes('Duplicate')) {
+      throw new Error(`Upload failed: ${errorText}`);
+    }
   }
+
+  return url;
 };
 
 /**
- * Get the index of stored image IDs
+ * Uploads an image to the templates bucket and returns its public URL.
  */
-const getStoredImagesIndex = (): string[] => {
-  try {
-    const data = localStorage.getItem(STORAGE_INDEX_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (error) {
-    console.error('Error reading storage index:', error);
-    return [];
+export const uploadTemplateImage = async (image: Blob): Promise<string> => {
+  const extension = IMAGE_EXTENSIONS[image.type];
+  if (!extension) {
+    throw new Error(`Formato de imagen no soportado: ${image.type || 'desconocido'}`);
   }
+  return uploadContentAddressed(BUCKET_NAME, image, extension);
 };
 
 /**
- * Clean up orphaned images (images not in the index)
+ * Moves the data URL images of a template or version snapshot (backgrounds and image
+ * fields) to storage. Returns null when it has none. `uploads` shares uploads across
+ * templates that use the same image.
  */
-export const cleanupOrphanedImages = (): number => {
-  const index = getStoredImagesIndex();
-  let cleanedCount = 0;
-  
-  // Get all localStorage keys that match our prefix
-  const allKeys = Object.keys(localStorage);
-  const imageKeys = allKeys.filter(key => key.startsWith(STORAGE_PREFIX));
-  
-  imageKeys.forEach(key => {
-    const imageId = key.replace(STORAGE_PREFIX, '');
-    if (!index.includes(imageId)) {
-      localStorage.removeItem(key);
-      cleanedCount++;
+export const moveTemplateImagesToStorage = async <T extends TemplateSnapshot>(
+  template: T,
+  uploads: Map<string, Promise<string>> = new Map()
+): Promise<T | null> => {
+  let moved = false;
+
+  const move = async (url: string): Promise<string> => {
+    if (!url.startsWith('data:')) return url;
+    let upload = uploads.get(url);
+    if (!upload) {
+      upload = fetch(url).then(response => response.blob()).then(uploadTemplateImage);
+      uploads.set(url, upload);
     }
-  });
-  
-  return cleanedCount;
+    moved = true;
+    return upload;
+  };
+  const moveFields = (fields: TemplateField[]) =>
+    Promise.all(fields.map(async field => (field.imageUrl ? { ...field, imageUrl: await move(field.imageUrl) } : field)));
+
+  const result: T = {
+    ...template,
+    imageUrl: await move(template.imageUrl),
+    fields: await moveFields(template.fields),
+    pages: template.pages && await Promise.all(template.pages.map(async page => ({
+      ...page,
+      imageUrl: await move(page.imageUrl),
+      fields: await moveFields(page.fields)
+    })))
+  };
+
+  return moved ? result : null;
 };
 
 /**
- * Get total storage usage for images
+ * Removes the copies of uploaded images older versions kept in localStorage. Their
+ * content is also in the templates that use them, which move it to storage.
  */
-export const getStorageUsage = (): { totalSize: number; imageCount: number } => {
-  const images = getAllStoredImages();
-  const totalSize = images.reduce((sum, image) => sum + image.size, 0);
-  
-  return {
-    totalSize,
-    imageCount: images.length
-  };
+export const removeLegacyStoredImages = (): number => {
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(LEGACY_STORAGE_PREFIX));
+  keys.forEach(key => localStorage.removeItem(key));
+  localStorage.removeItem(LEGACY_STORAGE_INDEX_KEY);
+  return keys.length;
 };
 
 /**
@@ -146,10 +133,10 @@ export const getStorageUsage = (): { totalSize: number; imageCount: number } =>
  */
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
-  
+
   const k = 1024;
   const sizes = ['Bytes', 'KB', 'MB', 'GB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
-  
+
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
\ No newline at end of file
+};
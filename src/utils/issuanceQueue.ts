@@ -0,0 +1,103 @@
+import { Template, Recipient, Certificate } from '../types';
+import { DatabaseCertificate } from '../lib/supabase';
+
+/**
+ * Issuance steps, in order:
+ * - pending: created locally, not yet in the database
+ * - recorded: row inserted in `certificates`. Drafts that need review wait here until a
+ *   reviewer approves them: nothing is signed or published before that
+ * - signed: row signed with the organization key (signature and QR data stored)
+ * - rendered: PDF generated in this tab (kept in memory only)
+ * - uploaded: PDF stored in the `certificates` bucket
+ * - linked: row points at the uploaded PDF; issuance is complete
+ */
+export type IssuanceStage = 'pending' | 'recorded' | 'signed' | 'rendered' | 'uploaded' | 'linked';
+
+export interface IssuanceJob {
+  certificateId: string;
+  recipientId: string;
+  templateId: string;
+  requiresReview: boolean; // Cleared once a reviewer approves the draft
+  stage: IssuanceStage;
+  attempts: number; // Failed attempts at the current stage
+  nextAttemptAt: number; // Epoch ms
+  failed: boolean; // Gave up after MAX_ISSUANCE_ATTEMPTS; needs a manual retry
+  lastError?: string;
+  pdfUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const ISSUANCE_STAGE_LABELS: Record<IssuanceStage, string> = {
+  pending: 'En cola',
+  recorded: 'Registrado',
+  signed: 'Firmado',
+  rendered: 'PDF generado',
+  uploaded: 'PDF subido',
+  linked: 'Completado'
+};
+
+export const MAX_ISSUANCE_ATTEMPTS = 6;
+export const ISSUANCE_CONCURRENCY = 3;
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Exponential backoff: 2s, 4s, 8s... capped at five minutes.
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+
+export const createIssuanceJob = (
+  certificateId: string,
+  recipientId: string,
+  templateId: string,
+  requiresReview: boolean
+): IssuanceJob => {
+  const now = new Date().toISOString();
+  return {
+    certificateId,
+    recipientId,
+    templateId,
+    requiresReview,
+    stage: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    failed: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const isJobActive = (job: IssuanceJob): boolean => job.stage !== 'linked' && !job.failed;
+
+/**
+ * Recorded drafts waiting for a reviewer. They are still active, but not due.
+ */
+export const isAwaitingReview = (job: IssuanceJob): boolean =>
+  isJobActive(job) && job.requiresReview && job.stage === 'recorded';
+
+export const isJobDue = (job: IssuanceJob, now = Date.now()): boolean =>
+  isJobActive(job) && !isAwaitingReview(job) && job.nextAttemptAt <= now;
+
+export const toDatabaseCertificate = (
+  job: IssuanceJob,
+  certificate: Certificate,
+  recipient: Recipient,
+  template: Template
+): DatabaseCertificate => ({
+  certificate_code: job.certificateId,
+  recipient_name: recipient.name,
+  recipient_email: recipient.email || '',
+  recipient_id: recipient.customFields?.studentId || null,
+  recipient_ref: recipient.id,
+  course_name: recipient.course || template.name,
+  template_id: template.id,
+  issue_date: job.createdAt.split('T')[0],
+  qr_code_data: certificate.verificationUrl,
+  status: job.requiresReview ? 'pending' : 'active',
+  expires_at: certificate.expiresAt || null,
+  renewal_of: certificate.renewalOf || null,
+  template_version: certificate.templateVersion ?? null
+});
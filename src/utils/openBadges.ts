@@ -0,0 +1,121 @@
+import { saveAs } from 'file-saver';
+import { VerifiableCredential } from './verifiableCredential';
+import { crc32 } from './crc32';
+
+/**
+ * Open Badges 3.0 baking: the signed OpenBadgeCredential travels inside the badge
+ * image, in a PNG `iTXt` chunk or an SVG `<openbadges:credential>` element.
+ */
+
+const BADGE_SIZE = 400;
+const PNG_KEYWORD = 'openbadgecredential';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getAchievementName = (credential: VerifiableCredential): string => {
+  const achievement = credential.credentialSubject.achievement as { name?: string } | undefined;
+  return achievement?.name || 'Certificado';
+};
+
+/**
+ * Splits a title over at most three lines of roughly `width` characters.
+ */
+const wrapText = (text: string, width = 22): string[] => {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last && `${last} ${word}`.length <= width) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines.length > 3 ? [...lines.slice(0, 2), `${lines.slice(2).join(' ').slice(0, width - 1)}…`] : lines;
+};
+
+/**
+ * Badge artwork; `bakedContent` goes right after the opening <svg> tag.
+ */
+const renderBadgeSvg = (credential: VerifiableCredential, bakedContent = ''): string => {
+  const lines = wrapText(getAchievementName(credential));
+  const firstLineY = BADGE_SIZE / 2 - (lines.length - 1) * 14;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:openbadges="https://purl.imsglobal.org/ob/v3p0" width="${BADGE_SIZE}" height="${BADGE_SIZE}" viewBox="0 0 ${BADGE_SIZE} ${BADGE_SIZE}">${bakedContent}
+  <circle cx="200" cy="200" r="190" fill="#232831"/>
+  <circle cx="200" cy="200" r="170" fill="none" stroke="#ffffff" stroke-width="4"/>
+  <text x="200" y="110" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#ffffff">Red Ciudadana</text>
+  ${lines.map((line, i) =>
+    `<text x="200" y="${firstLineY + i * 28}" text-anchor="middle" font-family="sans-serif" font-size="24" font-weight="bold" fill="#ffffff">${escapeXml(line)}</text>`
+  ).join('\n  ')}
+  <text x="200" y="310" text-anchor="middle" font-family="sans-serif" font-size="16" fill="#d1d5db">${escapeXml(new Date(credential.validFrom).getFullYear().toString())}</text>
+</svg>`;
+};
+
+export const bakeBadgeSvg = (credential: VerifiableCredential): string =>
+  renderBadgeSvg(
+    credential,
+    `\n  <openbadges:credential><![CDATA[${JSON.stringify(credential).replace(/]]>/g, ']]]]><![CDATA[>')}]]></openbadges:credential>`
+  );
+
+const buildITxtChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // keyword \0, compression flag 0, compression method 0, empty language tag \0, empty translated keyword \0
+  const data = new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+  const typeAndData = new Uint8Array([...encoder.encode('iTXt'), ...data]);
+
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+/**
+ * Inserts the credential right before the IEND chunk of a PNG.
+ */
+const bakePng = (png: Uint8Array, credential: VerifiableCredential): Uint8Array => {
+  const iendOffset = png.length - 12;
+  return new Uint8Array([
+    ...png.subarray(0, iendOffset),
+    ...buildITxtChunk(PNG_KEYWORD, JSON.stringify(credential)),
+    ...png.subarray(iendOffset)
+  ]);
+};
+
+export const bakeBadgePng = async (credential: VerifiableCredential): Promise<Blob> => {
+  const svgUrl = URL.createObjectURL(new Blob([renderBadgeSvg(credential)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Failed to render badge image'));
+      image.src = svgUrl;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = BADGE_SIZE;
+    canvas.height = BADGE_SIZE;
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+
+    const png = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode badge PNG'))), 'image/png')
+    );
+    return new Blob([bakePng(new Uint8Array(await png.arrayBuffer()), credential)], { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+};
+
+export const downloadBadge = async (
+  certificateCode: string,
+  credential: VerifiableCredential,
+  format: 'png' | 'svg'
+): Promise<void> => {
+  const blob = format === 'png'
+    ? await bakeBadgePng(credential)
+    : new Blob([bakeBadgeSvg(credential)], { type: 'image/svg+xml' });
+  saveAs(blob, `${certificateCode}-badge.${format}`);
+};
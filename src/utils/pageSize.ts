@@ -0,0 +1,92 @@
+import { PageOrientation, PageSize, PageSizePreset, Template } from '../types';
+
+/**
+ * Physical page sizes of templates. Layout happens in px on a canvas proportional to
+ * the page, at a fixed density chosen so an A4 landscape page is the 1200×848 canvas
+ * every template used before page sizes existed; the PDF page gets the size in mm.
+ */
+
+export interface PageDimensions {
+  width: number; // mm
+  height: number; // mm
+}
+
+export const PAGE_SIZE_PRESETS: Record<Exclude<PageSizePreset, 'custom'>, { label: string } & PageDimensions> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  legal: { label: 'Legal', width: 215.9, height: 355.6 },
+  a5: { label: 'A5', width: 148, height: 210 }
+};
+
+export const DEFAULT_PAGE_SIZE: PageSize = { preset: 'a4', orientation: 'landscape' };
+
+export const PX_PER_MM = 1200 / 297;
+export const MM_PER_INCH = 25.4;
+const MIN_CUSTOM_SIZE = 20; // mm
+const ASPECT_TOLERANCE = 0.02; // Relative difference still considered the same proportion
+
+const orient = (size: PageDimensions, orientation: PageOrientation): PageDimensions => {
+  const long = Math.max(size.width, size.height);
+  const short = Math.min(size.width, size.height);
+  return orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+};
+
+/**
+ * A template's page in mm. Templates from before page sizes that set a px size keep
+ * it; the rest are A4 landscape.
+ */
+export const getTemplatePageDimensions = (template: Pick<Template, 'pageSize' | 'width' | 'height'>): PageDimensions => {
+  const { pageSize } = template;
+  if (!pageSize) {
+    return template.width && template.height
+      ? { width: template.width / PX_PER_MM, height: template.height / PX_PER_MM }
+      : orient(PAGE_SIZE_PRESETS.a4, 'landscape');
+  }
+  if (pageSize.preset === 'custom') {
+    return orient({
+      width: Math.max(MIN_CUSTOM_SIZE, pageSize.width || PAGE_SIZE_PRESETS.a4.width),
+      height: Math.max(MIN_CUSTOM_SIZE, pageSize.height || PAGE_SIZE_PRESETS.a4.height)
+    }, pageSize.orientation);
+  }
+  return orient(PAGE_SIZE_PRESETS[pageSize.preset], pageSize.orientation);
+};
+
+/**
+ * The px canvas fields are laid out on.
+ */
+export const getCanvasSize = (page: PageDimensions): { width: number; height: number } => ({
+  width: Math.round(page.width * PX_PER_MM),
+  height: Math.round(page.height * PX_PER_MM)
+});
+
+const sameAspect = (a: number, b: number) => Math.abs(a - b) / b <= ASPECT_TOLERANCE;
+
+/**
+ * The preset page an image's proportions match, if any.
+ */
+export const matchPageSize = (imageWidth: number, imageHeight: number): PageSize | null => {
+  const orientation: PageOrientation = imageWidth >= imageHeight ? 'landscape' : 'portrait';
+  const aspect = imageWidth / imageHeight;
+  const preset = (Object.keys(PAGE_SIZE_PRESETS) as (keyof typeof PAGE_SIZE_PRESETS)[]).find(key => {
+    const page = orient(PAGE_SIZE_PRESETS[key], orientation);
+    return sameAspect(aspect, page.width / page.height);
+  });
+  return preset ? { preset, orientation } : null;
+};
+
+export interface ArtworkCheck {
+  aspectMatches: boolean; // False when the background will be cropped to cover the page
+  effectiveDpi: number; // Resolution the image prints at when covering the page
+}
+
+/**
+ * How an image of `imageWidth`×`imageHeight` px fits a page.
+ */
+export const checkArtwork = (imageWidth: number, imageHeight: number, page: PageDimensions): ArtworkCheck => ({
+  aspectMatches: sameAspect(imageWidth / imageHeight, page.width / page.height),
+  // Covering scales the image by the larger ratio, so the smaller dpi is what prints
+  effectiveDpi: Math.round(Math.min(
+    imageWidth / (page.width / MM_PER_INCH),
+    imageHeight / (page.height / MM_PER_INCH)
+  ))
+});
@@ -0,0 +1,359 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+import { jsPDF } from 'jspdf';
+import { Certificate } from '../types';
+import type {
+  CertificateRenderModel,
+  RenderedBarcodeField,
+  RenderedImageField,
+  RenderedQrField,
+  RenderedTableField,
+  RenderedTextField
+} from './certificateRenderer';
+import { EmbeddedFont, FontStyle, getFontStyle, getStandardFont, loadFontData, resolveFieldFont } from './certificateFonts';
+import { layoutText } from './textLayout';
+import { BARCODE_PADDING, encodeBarcode } from './barcode';
+import { getTableCellField, layoutTable, TABLE_RULE_COLOR } from './tableLayout';
+
+/**
+ * Vector PDF export of a render model: the template image as the page background,
+ * fields as real (selectable, searchable) text in embedded fonts, QR codes and barcodes
+ * as vector shapes. Mirrors the layout CertificateCanvas draws on screen.
+ */
+
+const PT_PER_MM = 72 / 25.4;
+export const QR_PADDING = 5; // px, the white quiet zone CertificateCanvas draws around the code
+const QR_RADIUS = 4;
+
+export interface PdfImage {
+  data: string; // data: URL
+  format: 'PNG' | 'JPEG';
+}
+
+/**
+ * Where template images and font files come from. The browser fetches them by URL;
+ * the CLI reads them from disk.
+ */
+export interface PdfAssets {
+  loadImage: (url: string) => Promise<PdfImage>;
+  loadFont: (font: EmbeddedFont) => Promise<string>; // Base64 font file
+}
+
+export interface PdfRenderOptions {
+  signature?: Certificate['signature'];
+  title?: string;
+  assets?: PdfAssets;
+}
+
+interface QrModules {
+  count: number;
+  runs: { x: number; y: number; length: number }[]; // Horizontal runs of dark modules
+}
+
+/**
+ * Dark modules of a QR code, read back from qrcode.react's SVG path (one `M x y h n v1 H x z`
+ * subpath per horizontal run) so the PDF and the on-screen QR come from the same encoder.
+ */
+const getQrModules = (field: RenderedQrField): QrModules => {
+  const svg = renderToStaticMarkup(createElement(QRCodeSVG, {
+    value: field.value,
+    level: field.errorCorrection,
+    includeMargin: false
+  }));
+
+  const count = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1]);
+  const paths = Array.from(svg.matchAll(/<path[^>]* d="([^"]*)"/g), match => match[1]);
+  const modulesPath = paths[paths.length - 1];
+  if (!count || !modulesPath) throw new Error('Failed to encode QR code');
+
+  const runs = Array.from(
+    modulesPath.matchAll(/M(\d+)[ ,](\d+)\s*h(\d+)v1H\d+z/g),
+    ([, x, y, length]) => ({ x: Number(x), y: Number(y), length: Number(length) })
+  );
+  return { count, runs };
+};
+
+const loadImageAsDataUrl = async (url: string): Promise<PdfImage> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to load template image');
+  const blob = await response.blob();
+
+  if (blob.type === 'image/png' || blob.type === 'image/jpeg') {
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to load template image'));
+      reader.readAsDataURL(blob);
+    });
+    return { data, format: blob.type === 'image/png' ? 'PNG' : 'JPEG' };
+  }
+
+  // jsPDF only takes PNG and JPEG; draw anything else (SVG, WebP) through a canvas
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Failed to load template image'));
+      image.src = objectUrl;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth || 1200;
+    canvas.height = image.naturalHeight || 848;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { data: canvas.toDataURL('image/png'), format: 'PNG' };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+type Mapper = (value: number) => number;
+
+/**
+ * Draws an image field scaled to fit its box, centered, like `object-fit: contain`.
+ */
+const drawImageField = async (
+  pdf: jsPDF,
+  field: RenderedImageField,
+  assets: PdfAssets,
+  scale: number,
+  toX: Mapper,
+  toY: Mapper
+): Promise<void> => {
+  const image = await assets.loadImage(field.url);
+  const props = pdf.getImageProperties(image.data);
+  const fit = Math.min(field.width / props.width, field.height / props.height) * scale;
+  const drawW = props.width * fit;
+  const drawH = props.height * fit;
+  pdf.addImage(image.data, image.format, toX(field.x) - drawW / 2, toY(field.y) - drawH / 2, drawW, drawH);
+};
+
+/**
+ * Draws a barcode on its white quiet zone, stretched to the field box like the preview's SVG.
+ */
+const drawBarcodeField = (pdf: jsPDF, field: RenderedBarcodeField, scale: number, toX: Mapper, toY: Mapper) => {
+  if (!field.value) return;
+  const shape = encodeBarcode(field.format, field.value);
+  const padding = BARCODE_PADDING * scale;
+  const left = toX(field.x) - (field.width * scale) / 2 - padding;
+  const top = toY(field.y) - (field.height * scale) / 2 - padding;
+  const moduleX = (field.width * scale) / shape.width;
+  const moduleY = (field.height * scale) / shape.height;
+  const pointX = (x: number) => left + padding + x * moduleX;
+  const pointY = (y: number) => top + padding + y * moduleY;
+
+  pdf.setFillColor('#ffffff');
+  pdf.roundedRect(
+    left, top, (field.width + BARCODE_PADDING * 2) * scale, (field.height + BARCODE_PADDING * 2) * scale,
+    QR_RADIUS * scale, QR_RADIUS * scale, 'F'
+  );
+  pdf.setFillColor('#000000');
+  shape.bars.forEach(bar => {
+    pdf.rect(pointX(bar.x), pointY(bar.y), bar.width * moduleX, bar.height * moduleY, 'F');
+  });
+  if (shape.polygons.length > 0) {
+    // One path of closed subpaths, so holes in 2D symbols stay clear
+    shape.polygons.forEach(points => {
+      points.forEach(([x, y], index) => {
+        if (index === 0) pdf.moveTo(pointX(x), pointY(y));
+        else pdf.lineTo(pointX(x), pointY(y));
+      });
+      pdf.close();
+    });
+    pdf.fillEvenOdd();
+  }
+};
+
+export const browserAssets: PdfAssets = {
+  loadImage: loadImageAsDataUrl,
+  loadFont: loadFontData
+};
+
+/**
+ * The embedded font for a text field, registered with jsPDF on first use, or a
+ * standard PDF font for system stacks. Throws when the field's font is missing or
+ * is a file jsPDF can't embed.
+ */
+const loadFieldFont = async (
+  pdf: jsPDF,
+  field: RenderedTextField,
+  modelFonts: EmbeddedFont[],
+  assets: PdfAssets,
+  registered: Set<string>
+): Promise<{ family: string; style: FontStyle }> => {
+  const font = resolveFieldFont(field, modelFonts);
+  if (!font) return { family: getStandardFont(field.fontFamily), style: getFontStyle(field.fontWeight, field.fontStyle) };
+  // jsPDF only reads TrueType outlines
+  if (font.format !== 'truetype') {
+    throw new Error(
+      `The font ${font.family} (${font.style}) is ${font.format === 'woff2' ? 'WOFF2' : 'OpenType with CFF outlines'}, ` +
+      'which PDFs can\'t embed; upload its TrueType (.ttf) file to the font registry.'
+    );
+  }
+
+  const fileName = `${font.family.replace(/\s+/g, '')}-${font.style}.ttf`;
+  if (!registered.has(fileName)) {
+    pdf.addFileToVFS(fileName, await assets.loadFont(font));
+    pdf.addFont(fileName, font.family, font.style);
+    registered.add(fileName);
+  }
+  return { family: font.family, style: font.style };
+};
+
+const applyFieldFont = async (
+  pdf: jsPDF,
+  field: RenderedTextField,
+  modelFonts: EmbeddedFont[],
+  assets: PdfAssets,
+  registered: Set<string>
+): Promise<void> => {
+  const { family, style } = await loadFieldFont(pdf, field, modelFonts, assets, registered);
+  pdf.setFont(family, style);
+};
+
+// Unit widths are in ems of the current font, i.e. px per px of font size
+const measureWithPdf = (pdf: jsPDF) => (text: string, fontSize: number) => pdf.getStringUnitWidth(text) * fontSize;
+
+/**
+ * Draws a table field's rules, then its cells one font at a time.
+ */
+const drawTableField = async (
+  pdf: jsPDF,
+  field: RenderedTableField,
+  modelFonts: EmbeddedFont[],
+  assets: PdfAssets,
+  registered: Set<string>,
+  scale: number,
+  toX: Mapper,
+  toY: Mapper
+): Promise<void> => {
+  if (field.columns.length === 0) return;
+  const left = toX(field.x);
+  const top = toY(field.y);
+  // The header is bold and the body regular; each is made current while its cells are measured
+  const fonts = {
+    bold: await loadFieldFont(pdf, getTableCellField(field, field.columns[0], '', true), modelFonts, assets, registered),
+    normal: await loadFieldFont(pdf, getTableCellField(field, field.columns[0], '', false), modelFonts, assets, registered)
+  };
+  const selectFont = (cell: RenderedTextField) => pdf.setFont(fonts[cell.fontWeight].family, fonts[cell.fontWeight].style);
+  const layout = layoutTable(field, cell => (text, fontSize) => {
+    selectFont(cell);
+    return measureWithPdf(pdf)(text, fontSize);
+  });
+
+  layout.rules.forEach(rule => {
+    pdf.setDrawColor(rule.header ? field.color : TABLE_RULE_COLOR);
+    pdf.setLineWidth((rule.header ? 2 : 1) * scale);
+    pdf.line(left, top + rule.top * scale, left + field.width * scale, top + rule.top * scale);
+  });
+
+  pdf.setFontSize(field.fontSize * scale * PT_PER_MM);
+  pdf.setTextColor(field.color);
+  pdf.setCharSpace(0);
+  for (const cell of layout.cells) {
+    selectFont(cell.field);
+    pdf.text(cell.text, left + cell.left * scale, top + (cell.top + field.rowHeight / 2) * scale, { baseline: 'middle' });
+  }
+};
+
+/**
+ * PDF with the model's page size, one page per model page. When signed, the payload and signature are
+ * stored in the PDF subject and keywords.
+ */
+export const renderModelToPDF = async (
+  model: CertificateRenderModel,
+  { signature, title, assets = browserAssets }: PdfRenderOptions = {}
+): Promise<Blob> => {
+  const pdf = new jsPDF({
+    orientation: model.pageSize.width >= model.pageSize.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [model.pageSize.width, model.pageSize.height],
+    compress: true
+  });
+
+  // The certificate covers the page, centered, like the background image in CertificateCanvas
+  const pageW = pdf.internal.pageSize.getWidth();
+  const pageH = pdf.internal.pageSize.getHeight();
+  const scale = Math.max(pageW / model.width, pageH / model.height); // mm per px
+  const originX = (pageW - model.width * scale) / 2;
+  const originY = (pageH - model.height * scale) / 2;
+  const toX = (percent: number) => originX + (percent / 100) * model.width * scale;
+  const toY = (percent: number) => originY + (percent / 100) * model.height * scale;
+
+  const registeredFonts = new Set<string>();
+  for (const [pageIndex, page] of model.pages.entries()) {
+    if (pageIndex > 0) pdf.addPage();
+
+    if (page.backgroundUrl) {
+      const background = await assets.loadImage(page.backgroundUrl);
+      const imageProps = pdf.getImageProperties(background.data);
+      const imageScale = Math.max(pageW / imageProps.width, pageH / imageProps.height);
+      const drawW = imageProps.width * imageScale;
+      const drawH = imageProps.height * imageScale;
+      pdf.addImage(background.data, background.format, (pageW - drawW) / 2, (pageH - drawH) / 2, drawW, drawH);
+    }
+
+    for (const field of page.fields) {
+      if (field.type === 'qrcode') {
+        const { count, runs } = getQrModules(field);
+        const side = (field.size + QR_PADDING * 2) * scale;
+        const left = toX(field.x) - side / 2;
+        const top = toY(field.y) - side / 2;
+        const module = (field.size * scale) / count;
+        const padding = QR_PADDING * scale;
+
+        pdf.setFillColor('#ffffff');
+        pdf.roundedRect(left, top, side, side, QR_RADIUS * scale, QR_RADIUS * scale, 'F');
+        pdf.setFillColor('#000000');
+        runs.forEach(run => {
+          pdf.rect(left + padding + run.x * module, top + padding + run.y * module, run.length * module, module, 'F');
+        });
+        continue;
+      }
+
+      if (field.type === 'image') {
+        await drawImageField(pdf, field, assets, scale, toX, toY);
+        continue;
+      }
+
+      if (field.type === 'barcode') {
+        drawBarcodeField(pdf, field, scale, toX, toY);
+        continue;
+      }
+
+      if (field.type === 'table') {
+        await drawTableField(pdf, field, model.fonts, assets, registeredFonts, scale, toX, toY);
+        continue;
+      }
+
+      if (!field.text) continue;
+      await applyFieldFont(pdf, field, model.fonts, assets, registeredFonts);
+      const layout = layoutText(field, measureWithPdf(pdf));
+      const anchorX = toX(field.x);
+      const top = toY(field.y) - (layout.lines.length * layout.lineHeight * scale) / 2;
+
+      pdf.setFontSize(layout.fontSize * scale * PT_PER_MM);
+      pdf.setTextColor(field.color);
+      // Character spacing carries over between text objects, so it is set for every field
+      pdf.setCharSpace(field.letterSpacing * scale);
+      layout.lines.forEach((line, index) => {
+        const width = line.width * scale;
+        const left = field.align === 'left' ? anchorX : field.align === 'right' ? anchorX - width : anchorX - width / 2;
+        pdf.text(line.text, left, top + (index + 0.5) * layout.lineHeight * scale, { baseline: 'middle' });
+      });
+    }
+  }
+
+  pdf.setLanguage('es');
+  pdf.setProperties({
+    title: title || 'Certificado',
+    creator: 'Red Ciudadana',
+    ...(signature && {
+      subject: signature.payload,
+      keywords: `signature:${signature.value} key:${signature.keyId}`
+    })
+  });
+
+  return pdf.output('blob');
+};
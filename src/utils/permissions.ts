@@ -0,0 +1,70 @@
+import { User, UserRole } from '../types';
+
+/**
+ * Role-based access helpers shared by route guards and navigation.
+ * The same rules are enforced server-side by the RLS policies in supabase/migrations.
+ */
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  issuer: 'Emisor',
+  reviewer: 'Revisor',
+  viewer: 'Auditor',
+  student: 'Estudiante'
+};
+
+export const STAFF_ROLES: UserRole[] = ['admin', 'issuer', 'reviewer', 'viewer'];
+
+/**
+ * Roles allowed on each admin route. Routes not listed here are public.
+ */
+export const ROUTE_PERMISSIONS: Record<string, UserRole[]> = {
+  '/dashboard': STAFF_ROLES,
+  '/dashboard/create': ['admin', 'issuer'],
+  '/dashboard/certificates': STAFF_ROLES,
+  '/dashboard/review': ['admin', 'reviewer'],
+  '/dashboard/templates': ['admin', 'issuer'],
+  '/dashboard/recipients': ['admin', 'issuer'],
+  '/dashboard/source-code': ['admin'],
+  '/dashboard/export': ['admin'],
+  '/dashboard/linkedin': ['admin', 'issuer'],
+  '/dashboard/notifications': ['admin', 'issuer'],
+  '/dashboard/docs': STAFF_ROLES,
+  '/student': ['student']
+};
+
+export const isValidRole = (role: unknown): role is UserRole =>
+  typeof role === 'string' && Object.hasOwn(ROLE_LABELS, role);
+
+export const hasRole = (user: User | null, roles: UserRole | UserRole[]): boolean => {
+  if (!user) return false;
+  const allowed = Array.isArray(roles) ? roles : [roles];
+  return allowed.includes(user.role);
+};
+
+export const canAccessRoute = (user: User | null, path: string): boolean => {
+  const roles = ROUTE_PERMISSIONS[path];
+  return roles ? hasRole(user, roles) : true;
+};
+
+/**
+ * Certificates created by issuers must be approved by a reviewer before they are published.
+ */
+export const requiresReview = (user: User | null): boolean => user?.role === 'issuer';
+
+/**
+ * Templates, signers, fonts, recipients and collections are saved by admins and issuers;
+ * RLS refuses writes from every other role.
+ */
+export const canEditData = (user: User | null): boolean => hasRole(user, ['admin', 'issuer']);
+
+/**
+ * Revoking an issued certificate is irreversible, so only admins may do it.
+ */
+export const canRevokeCertificates = (user: User | null): boolean => hasRole(user, 'admin');
+
+/**
+ * Where to send a user right after signing in.
+ */
+export const getHomeRoute = (user: User | null): string =>
+  user?.role === 'student' ? '/student' : '/dashboard';
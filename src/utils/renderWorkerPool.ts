@@ -0,0 +1,181 @@
+import type { CertificateRenderModel } from './certificateRenderer';
+import { browserAssets, PdfImage, PdfRenderOptions, renderModelToPDF } from './pdfRenderer';
+
+/**
+ * Pool of PDF render workers for bulk exports. Jobs queue until a worker is free;
+ * aborting a job drops it from the queue or terminates the worker running it.
+ * Browsers without module workers render on the main thread instead.
+ */
+
+export interface RenderRequest {
+  id: number;
+  model: CertificateRenderModel;
+  options: Omit<PdfRenderOptions, 'assets'>;
+  images?: Record<string, PdfImage>; // Pre-rasterized SVG images (background, image fields) by URL
+}
+
+export interface RenderResponse {
+  id: number;
+  pdf?: ArrayBuffer;
+  error?: string;
+}
+
+export interface RenderPool {
+  size: number;
+  render: (
+    model: CertificateRenderModel,
+    options?: Omit<PdfRenderOptions, 'assets'>,
+    signal?: AbortSignal
+  ) => Promise<ArrayBuffer>;
+  terminate: () => void;
+}
+
+interface RenderTask {
+  request: RenderRequest;
+  resolve: (pdf: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+}
+
+const MAX_WORKERS = 4;
+
+const isSvg = (url: string) => /^data:image\/svg|\.svg($|[?#])/i.test(url);
+
+const abortError = () => new DOMException('Render cancelled', 'AbortError');
+
+/**
+ * One worker per spare core, leaving the main thread free for the UI.
+ */
+export const getDefaultPoolSize = (): number =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+const createMainThreadPool = (): RenderPool => ({
+  size: 1,
+  render: async (model, options = {}, signal) => {
+    signal?.throwIfAborted();
+    return (await renderModelToPDF(model, options)).arrayBuffer();
+  },
+  terminate: () => undefined
+});
+
+export const createRenderPool = (size = getDefaultPoolSize()): RenderPool => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return createMainThreadPool();
+  }
+
+  const queue: RenderTask[] = [];
+  const idle: Worker[] = [];
+  const running = new Map<Worker, RenderTask>();
+  const svgImages = new Map<string, Promise<PdfImage>>();
+  let nextId = 0;
+  let terminated = false;
+
+  const spawn = (): Worker => {
+    const worker = new Worker(new URL('../workers/pdfRender.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = ({ data }: MessageEvent<RenderResponse>) => {
+      const task = running.get(worker);
+      running.delete(worker);
+      idle.push(worker);
+      if (task) {
+        if (data.pdf) task.resolve(data.pdf);
+        else task.reject(new Error(data.error || 'Failed to render PDF'));
+      }
+      dispatch();
+    };
+
+    // A worker that crashed is replaced; only its current job fails
+    worker.onerror = event => {
+      event.preventDefault();
+      const task = running.get(worker);
+      running.delete(worker);
+      worker.terminate();
+      task?.reject(new Error(event.message || 'PDF worker crashed'));
+      dispatch();
+    };
+
+    return worker;
+  };
+
+  const dispatch = () => {
+    while (!terminated && queue.length > 0 && (idle.length > 0 || running.size < size)) {
+      const worker = idle.pop() || spawn();
+      const task = queue.shift()!;
+      running.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  };
+
+  const cancel = (task: RenderTask) => {
+    const index = queue.indexOf(task);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    } else {
+      for (const [worker, runningTask] of running) {
+        if (runningTask !== task) continue;
+        running.delete(worker);
+        worker.terminate();
+      }
+    }
+    task.reject(abortError());
+    dispatch();
+  };
+
+  const loadSvgImage = (url: string) => {
+    let image = svgImages.get(url);
+    if (!image) {
+      image = browserAssets.loadImage(url);
+      svgImages.set(url, image);
+    }
+    return image;
+  };
+
+  const rasterizeSvgImages = async (model: CertificateRenderModel) => {
+    const urls = model.pages
+      .flatMap(page => [page.backgroundUrl, ...page.fields.map(field => (field.type === 'image' ? field.url : ''))])
+      .filter(url => url && isSvg(url));
+    if (urls.length === 0) return undefined;
+    const images = await Promise.all(urls.map(loadSvgImage));
+    return Object.fromEntries(urls.map((url, index) => [url, images[index]]));
+  };
+
+  return {
+    size,
+
+    render: async (model, options = {}, signal) => {
+      signal?.throwIfAborted();
+      const images = await rasterizeSvgImages(model);
+      if (terminated) throw abortError();
+
+      return new Promise<ArrayBuffer>((resolve, reject) => {
+        const onAbort = () => cancel(task);
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+        const task: RenderTask = {
+          request: { id: nextId++, model, options, images },
+          resolve: pdf => {
+            settle();
+            resolve(pdf);
+          },
+          reject: error => {
+            settle();
+            reject(error);
+          }
+        };
+
+        signal?.addEventListener('abort', onAbort);
+        if (signal?.aborted) return cancel(task);
+        queue.push(task);
+        dispatch();
+      });
+    },
+
+    terminate: () => {
+      terminated = true;
+      const pending = [...queue, ...running.values()];
+      queue.length = 0;
+      [...idle, ...running.keys()].forEach(worker => worker.terminate());
+      idle.length = 0;
+      running.clear();
+      pending.forEach(task => task.reject(abortError()));
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import type { RenderedTableColumn, RenderedTableField, RenderedTextField } from './certificateRenderer';
+import { layoutText, TextMeasurer } from './textLayout';
+
+/**
+ * Cell placement for table fields, shared by the preview and the PDF like textLayout:
+ * one line per cell, cut with an ellipsis at the column width, a bold header row when
+ * any column has a label and a rule under every row.
+ */
+
+export const TABLE_CELL_PADDING = 6; // px between a cell's text and its column edges
+export const TABLE_RULE_COLOR = '#d1d5db';
+
+export interface TableCell {
+  text: string;
+  left: number; // px from the table's left edge to the start of the text
+  top: number; // px from the table's top edge to the top of the row
+  field: RenderedTextField; // Font the cell is drawn in
+}
+
+export interface TableRule {
+  top: number; // px from the table's top edge
+  header: boolean;
+}
+
+export interface TableLayout {
+  height: number; // px
+  cells: TableCell[];
+  rules: TableRule[];
+}
+
+/**
+ * A cell as a one-line text field, so it can be measured, laid out and given a font like any other text.
+ */
+export const getTableCellField = (
+  table: RenderedTableField,
+  column: RenderedTableColumn,
+  text: string,
+  header: boolean
+): RenderedTextField => ({
+  type: 'text',
+  id: table.id,
+  x: table.x,
+  y: table.y,
+  text,
+  fontFamily: table.fontFamily,
+  fontSize: table.fontSize,
+  color: table.color,
+  align: column.align,
+  fontWeight: header ? 'bold' : 'normal',
+  fontStyle: 'normal',
+  maxWidth: Math.max(1, column.width - TABLE_CELL_PADDING * 2),
+  maxLines: 1,
+  letterSpacing: 0,
+  autoFit: false
+});
+
+export const layoutTable = (
+  table: RenderedTableField,
+  measure: (field: RenderedTextField) => TextMeasurer
+): TableLayout => {
+  const hasHeader = table.columns.some(column => column.label);
+  const rows = hasHeader ? [table.columns.map(column => column.label), ...table.rows] : table.rows;
+  const cells: TableCell[] = [];
+  const rules: TableRule[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    const header = hasHeader && rowIndex === 0;
+    const top = rowIndex * table.rowHeight;
+    let columnLeft = 0;
+
+    table.columns.forEach((column, columnIndex) => {
+      const field = getTableCellField(table, column, row[columnIndex] || '', header);
+      const [line] = layoutText(field, measure(field)).lines;
+      const free = column.width - TABLE_CELL_PADDING * 2 - line.width;
+      const offset = column.align === 'left' ? 0 : column.align === 'center' ? free / 2 : free;
+      if (line.text) cells.push({ text: line.text, left: columnLeft + TABLE_CELL_PADDING + offset, top, field });
+      columnLeft += column.width;
+    });
+    rules.push({ top: top + table.rowHeight, header });
+  });
+
+  return { height: rows.length * table.rowHeight, cells, rules };
+};
@@ -0,0 +1,273 @@
+import { TemplateField } from '../types';
+import {
+  DEFAULT_QR_SIZE,
+  DEFAULT_TABLE_ROW_HEIGHT,
+  DEFAULT_TABLE_WIDTH,
+  getFieldBox,
+  RenderedField,
+  RenderedTextField
+} from './certificateRenderer';
+import { BARCODE_PADDING } from './barcode';
+import { QR_PADDING } from './pdfRenderer';
+import { layoutText, TextMeasurer } from './textLayout';
+import { layoutTable } from './tableLayout';
+
+/**
+ * Geometry behind the visual template designer: where each field sits on the
+ * certificate, snapping, alignment and undo history. Fields store their position as
+ * percentages of the certificate, so everything here converts between those and px.
+ */
+
+export interface Bounds {
+  left: number; // px
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export interface SnapResult {
+  dx: number; // Correction to apply on top of the pointer movement, px
+  dy: number;
+  guides: { x: number[]; y: number[] }; // Lines to draw while the snap holds
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeMode = 'horizontal' | 'vertical';
+
+export const SNAP_THRESHOLD = 6; // Screen px
+export const MIN_FIELD_SIZE = 10; // px
+const MIN_TEXT_BOX = 40; // px, so fields without sample text can still be grabbed
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const clampPercent = (value: number) => round(Math.min(100, Math.max(0, value)));
+
+const TEXT_ANCHOR = { left: 0, center: 0.5, right: 1 };
+
+/**
+ * The box a field covers on the certificate. Text is measured as it renders; a text
+ * field with a max width covers its wrapping box and a table covers its rows from its
+ * top-left corner. `rendered` is missing for image fields with nothing to show yet,
+ * which are drawn as their empty box.
+ */
+export const getFieldBounds = (
+  field: TemplateField,
+  rendered: RenderedField | undefined,
+  canvas: CanvasSize,
+  measure: (field: RenderedTextField) => TextMeasurer
+): Bounds => {
+  const x = (field.x / 100) * canvas.width;
+  const y = (field.y / 100) * canvas.height;
+  const centered = (width: number, height: number): Bounds => ({
+    left: x - width / 2,
+    top: y - height / 2,
+    width,
+    height
+  });
+
+  if (field.type === 'qrcode') {
+    const side = (field.size || DEFAULT_QR_SIZE) + QR_PADDING * 2;
+    return centered(side, side);
+  }
+  if (field.type === 'barcode') {
+    const box = getFieldBox(field);
+    return centered(box.width + BARCODE_PADDING * 2, box.height + BARCODE_PADDING * 2);
+  }
+  if (field.type === 'table') {
+    const height = rendered?.type === 'table' ? layoutTable(rendered, measure).height : 0;
+    return {
+      left: x,
+      top: y,
+      width: field.width || DEFAULT_TABLE_WIDTH,
+      height: Math.max(field.rowHeight || DEFAULT_TABLE_ROW_HEIGHT, height)
+    };
+  }
+  if (field.type === 'image' || field.type === 'signature' || rendered?.type !== 'text') {
+    const box = getFieldBox(field);
+    return centered(box.width, box.height);
+  }
+
+  const layout = layoutText(rendered, measure(rendered));
+  const width = rendered.maxWidth || Math.max(MIN_TEXT_BOX, ...layout.lines.map(line => line.width));
+  const height = Math.max(layout.lineHeight, layout.lines.length * layout.lineHeight);
+  return { left: x - width * TEXT_ANCHOR[rendered.align], top: y - height / 2, width, height };
+};
+
+/**
+ * Smallest box around all of `bounds`.
+ */
+export const unionBounds = (bounds: Bounds[]): Bounds => {
+  const left = Math.min(...bounds.map(b => b.left));
+  const top = Math.min(...bounds.map(b => b.top));
+  const right = Math.max(...bounds.map(b => b.left + b.width));
+  const bottom = Math.max(...bounds.map(b => b.top + b.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+const closestSnap = (edges: number[], targets: number[], threshold: number) => {
+  let best: { offset: number; target: number } | null = null;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, target };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Snaps a moving box to the certificate's edges and center and to the edges and
+ * centers of the other fields. `edges` picks which sides of the box may snap: all of
+ * them when moving, only the right and bottom ones when resizing.
+ */
+export const snapBounds = (
+  moving: Bounds,
+  others: Bounds[],
+  canvas: CanvasSize,
+  threshold: number,
+  edges: 'all' | 'end' = 'all'
+): SnapResult => {
+  const targetsX = [0, canvas.width / 2, canvas.width, ...others.flatMap(b => [b.left, b.left + b.width / 2, b.left + b.width])];
+  const targetsY = [0, canvas.height / 2, canvas.height, ...others.flatMap(b => [b.top, b.top + b.height / 2, b.top + b.height])];
+  const right = moving.left + moving.width;
+  const bottom = moving.top + moving.height;
+  const edgesX = edges === 'all' ? [moving.left, moving.left + moving.width / 2, right] : [right];
+  const edgesY = edges === 'all' ? [moving.top, moving.top + moving.height / 2, bottom] : [bottom];
+
+  const snapX = closestSnap(edgesX, targetsX, threshold);
+  const snapY = closestSnap(edgesY, targetsY, threshold);
+  return {
+    dx: snapX?.offset || 0,
+    dy: snapY?.offset || 0,
+    guides: { x: snapX ? [snapX.target] : [], y: snapY ? [snapY.target] : [] }
+  };
+};
+
+/**
+ * Moves a field by a distance in px.
+ */
+export const moveField = (field: TemplateField, dx: number, dy: number, canvas: CanvasSize): TemplateField => ({
+  ...field,
+  x: clampPercent(field.x + (dx / canvas.width) * 100),
+  y: clampPercent(field.y + (dy / canvas.height) * 100)
+});
+
+/**
+ * Gives a field a new box. Text fields take the width as their max width; QR codes
+ * stay square; tables only take the width, their rows set the height. The field's anchor is recomputed so the box keeps its top-left corner.
+ */
+export const resizeField = (field: TemplateField, bounds: Bounds, canvas: CanvasSize): TemplateField => {
+  const width = Math.max(MIN_FIELD_SIZE, Math.round(bounds.width));
+  const height = Math.max(MIN_FIELD_SIZE, Math.round(bounds.height));
+  const at = (anchorX: number, anchorY: number) => ({
+    x: clampPercent((anchorX / canvas.width) * 100),
+    y: clampPercent((anchorY / canvas.height) * 100)
+  });
+
+  switch (field.type) {
+    case 'qrcode': {
+      const side = Math.max(width, height);
+      return { ...field, size: Math.max(MIN_FIELD_SIZE, side - QR_PADDING * 2), ...at(bounds.left + side / 2, bounds.top + side / 2) };
+    }
+    case 'barcode':
+      return {
+        ...field,
+        width: Math.max(MIN_FIELD_SIZE, width - BARCODE_PADDING * 2),
+        height: Math.max(MIN_FIELD_SIZE, height - BARCODE_PADDING * 2),
+        ...at(bounds.left + width / 2, bounds.top + height / 2)
+      };
+    case 'image':
+    case 'signature':
+      return { ...field, width, height, ...at(bounds.left + width / 2, bounds.top + height / 2) };
+    case 'table':
+      return { ...field, width, ...at(bounds.left, bounds.top) };
+    default:
+      return {
+        ...field,
+        maxWidth: width,
+        ...at(bounds.left + width * TEXT_ANCHOR[field.align || 'center'], bounds.top + bounds.height / 2)
+      };
+  }
+};
+
+/**
+ * How far each box has to move to line up with `reference` (the selection, or the
+ * certificate when a single field is selected).
+ */
+export const getAlignOffsets = (bounds: Bounds[], reference: Bounds, mode: AlignMode): { dx: number; dy: number }[] =>
+  bounds.map(b => {
+    switch (mode) {
+      case 'left': return { dx: reference.left - b.left, dy: 0 };
+      case 'center': return { dx: reference.left + reference.width / 2 - (b.left + b.width / 2), dy: 0 };
+      case 'right': return { dx: reference.left + reference.width - (b.left + b.width), dy: 0 };
+      case 'top': return { dx: 0, dy: reference.top - b.top };
+      case 'middle': return { dx: 0, dy: reference.top + reference.height / 2 - (b.top + b.height / 2) };
+      case 'bottom': return { dx: 0, dy: reference.top + reference.height - (b.top + b.height) };
+    }
+  });
+
+/**
+ * Offsets that space boxes evenly between the first and the last one, with equal gaps.
+ */
+export const getDistributeOffsets = (bounds: Bounds[], mode: DistributeMode): { dx: number; dy: number }[] => {
+  const start = (b: Bounds) => (mode === 'horizontal' ? b.left : b.top);
+  const size = (b: Bounds) => (mode === 'horizontal' ? b.width : b.height);
+  const order = bounds.map((_, index) => index).sort((a, b) => start(bounds[a]) - start(bounds[b]));
+  const first = bounds[order[0]];
+  const last = bounds[order[order.length - 1]];
+  const occupied = bounds.reduce((total, b) => total + size(b), 0);
+  const gap = (start(last) + size(last) - start(first) - occupied) / Math.max(1, bounds.length - 1);
+
+  const offsets = bounds.map(() => ({ dx: 0, dy: 0 }));
+  let position = start(first);
+  for (const index of order) {
+    const offset = position - start(bounds[index]);
+    offsets[index] = mode === 'horizontal' ? { dx: offset, dy: 0 } : { dx: 0, dy: offset };
+    position += size(bounds[index]) + gap;
+  }
+  return offsets;
+};
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_HISTORY = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+/**
+ * Records `next` as a new step. `from` is the state the step started from, which for
+ * drags is the state before the first of many intermediate updates.
+ */
+export const pushHistory = <T>(history: History<T>, next: T, from: T = history.present): History<T> => ({
+  past: [...history.past, from].slice(-MAX_HISTORY),
+  present: next,
+  future: []
+});
+
+export const undoHistory = <T>(history: History<T>): History<T> =>
+  history.past.length === 0
+    ? history
+    : {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future]
+      };
+
+export const redoHistory = <T>(history: History<T>): History<T> =>
+  history.future.length === 0
+    ? history
+    : {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1)
+      };
@@ -0,0 +1,395 @@
+import JSZip from 'jszip';
+import { CustomFont, PageSize, Signer, TableColumn, Template, TemplateField, TemplatePage, TemplateSnapshot } from '../types';
+import { EMBEDDED_FONTS, EmbeddedFont, findEmbeddedFont, FontStyle, getPrimaryFontFamily, getUsedFonts, isSystemFontStack } from './certificateFonts';
+import { getTemplateFields } from './certificateRenderer';
+import { getTemplateSnapshot } from './templateVersions';
+import { uploadTemplateImage } from './imageStorage';
+import { uploadFontFile } from './fontStorage';
+import { FONT_EXTENSIONS, readFontInfo } from './fontInfo';
+
+/**
+ * Portable template packages (.certtpl): a ZIP holding the template JSON, the images it
+ * draws and the bundled and registered fonts its text uses, so a template can move between
+ * environments without copying code or assets by hand.
+ *
+ * Image URLs in the packaged JSON that point inside the package are plain relative
+ * paths (`images/page-1.png`); anything else is kept as the URL it was.
+ */
+
+export const TEMPLATE_PACKAGE_EXTENSION = '.certtpl';
+
+const MANIFEST_FILE = 'template.json';
+const PACKAGE_FORMAT = 'certtpl';
+const PACKAGE_FORMAT_VERSION = 1;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/gif': 'gif'
+};
+
+export interface PackagedFont {
+  family: string;
+  style: FontStyle;
+  file: string; // Path inside the package
+}
+
+export interface TemplatePackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  template: TemplateSnapshot;
+  fonts: PackagedFont[];
+}
+
+export interface ImportedTemplate {
+  template: TemplateSnapshot; // Packaged images uploaded to template storage
+  fonts: Omit<CustomFont, 'id'>[]; // Packaged fonts uploaded to font storage, to add to the registry
+  warnings: string[]; // Things that will not render as they did where the package came from
+}
+
+export class TemplatePackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplatePackageError';
+  }
+}
+
+const isPackagePath = (url: string) => /^(images|fonts)\/[^/]+$/.test(url);
+
+/**
+ * Writes every image of a template into the package once, returning the path it was
+ * written to. Absolute URLs the browser can't read (CORS) stay links; they work from
+ * anywhere anyway.
+ */
+const createImagePacker = (zip: JSZip) => {
+  const packed = new Map<string, Promise<string>>();
+
+  const pack = async (url: string, name: string): Promise<string> => {
+    let blob: Blob;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      blob = await response.blob();
+    } catch (error) {
+      if (/^https?:\/\//i.test(url)) return url;
+      throw new TemplatePackageError(`Could not read the image for ${name}: ${(error as Error).message}`);
+    }
+    const path = `images/${name}.${IMAGE_EXTENSIONS[blob.type] || 'bin'}`;
+    zip.file(path, await blob.arrayBuffer());
+    return path;
+  };
+
+  return (url: string | undefined, name: string): Promise<string | undefined> => {
+    if (!url) return Promise.resolve(url);
+    let path = packed.get(url);
+    if (!path) {
+      path = pack(url, name);
+      packed.set(url, path);
+    }
+    return path;
+  };
+};
+
+const getPackagedFontPath = (font: EmbeddedFont): string => {
+  const name = font.file?.split('/').pop() || `${font.family.replace(/[^a-z0-9]/gi, '')}-${font.style}.${FONT_EXTENSIONS[font.format]}`;
+  return `fonts/${name}`;
+};
+
+/**
+ * Builds the .certtpl package of a template. `fonts` is the font registry.
+ */
+export const exportTemplatePackage = async (template: Template, fonts: CustomFont[] = []): Promise<Blob> => {
+  const zip = new JSZip();
+  const packImage = createImagePacker(zip);
+  const snapshot = getTemplateSnapshot(template);
+
+  const packFields = (fields: TemplateField[]) =>
+    Promise.all(fields.map(async field => (
+      field.type === 'image' && field.imageUrl
+        ? { ...field, imageUrl: await packImage(field.imageUrl, `field-${field.id}`) }
+        : field
+    )));
+
+  const packaged: TemplateSnapshot = {
+    ...snapshot,
+    imageUrl: (await packImage(snapshot.imageUrl, 'page-1')) || '',
+    fields: await packFields(snapshot.fields),
+    pages: snapshot.pages && await Promise.all(snapshot.pages.map(async (page, index) => ({
+      ...page,
+      imageUrl: (await packImage(page.imageUrl, `page-${index + 2}`)) || '',
+      fields: await packFields(page.fields)
+    })))
+  };
+
+  // Every variant of the bundled and registered families the text uses; system fonts can't be packaged
+  const fontFamilies = getTemplateFields(template).map(field => field.fontFamily).filter((family): family is string => !!family);
+  const families = new Set(fontFamilies.map(family => getPrimaryFontFamily(family).toLowerCase()));
+  const usedFonts: EmbeddedFont[] = [
+    ...EMBEDDED_FONTS.filter(font => families.has(font.family.toLowerCase())),
+    ...getUsedFonts(fontFamilies, fonts)
+  ];
+  const packagedFonts: PackagedFont[] = [];
+  for (const font of usedFonts) {
+    const file = getPackagedFontPath(font);
+    if (packagedFonts.some(packaged => packaged.file === file)) continue;
+    const response = await fetch(font.url);
+    if (!response.ok) throw new TemplatePackageError(`Could not read the font ${font.family} (${font.style})`);
+    zip.file(file, await response.arrayBuffer());
+    packagedFonts.push({ family: font.family, style: font.style, file });
+  }
+
+  const manifest: TemplatePackageManifest = {
+    format: PACKAGE_FORMAT,
+    formatVersion: PACKAGE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: packaged,
+    fonts: packagedFonts
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return new Blob([await zip.generateAsync({ type: 'uint8array' })], { type: 'application/zip' });
+};
+
+// --- Schema validation ---
+
+type Rule = 'string' | 'number' | 'boolean' | readonly string[];
+
+const TEXT_ALIGNS = ['left', 'center', 'right'] as const;
+
+const FIELD_RULES: Record<Exclude<keyof TemplateField, 'columns'>, Rule> = {
+  id: 'string',
+  name: 'string',
+  type: ['text', 'date', 'qrcode', 'image', 'signature', 'barcode', 'table'],
+  x: 'number',
+  y: 'number',
+  fontSize: 'number',
+  fontFamily: 'string',
+  color: 'string',
+  defaultValue: 'string',
+  size: 'number',
+  errorCorrection: ['L', 'M', 'Q', 'H'],
+  align: TEXT_ALIGNS,
+  fontWeight: ['normal', 'bold'],
+  fontStyle: ['normal', 'italic'],
+  maxWidth: 'number',
+  maxLines: 'number',
+  letterSpacing: 'number',
+  autoFit: 'boolean',
+  width: 'number',
+  height: 'number',
+  imageUrl: 'string',
+  signerId: 'string',
+  barcodeFormat: ['code128', 'pdf417'],
+  rowHeight: 'number',
+  maxRows: 'number'
+};
+
+const COLUMN_RULES: Record<string, Rule> = { key: 'string', label: 'string', width: 'number', align: TEXT_ALIGNS };
+
+const TEMPLATE_RULES: Record<string, Rule> = {
+  name: 'string',
+  imageUrl: 'string',
+  width: 'number',
+  height: 'number',
+  validityMonths: 'number',
+  criteria: 'string'
+};
+
+const PAGE_RULES: Record<string, Rule> = { id: 'string', imageUrl: 'string' };
+
+const PAGE_SIZE_RULES: Record<string, Rule> = {
+  preset: ['a4', 'letter', 'legal', 'a5', 'custom'],
+  orientation: ['portrait', 'landscape'],
+  width: 'number',
+  height: 'number'
+};
+
+const invalid = (path: string, message: string): never => {
+  throw new TemplatePackageError(`Invalid template: ${path} ${message}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRecord = (value: unknown, path: string) => (isRecord(value) ? value : invalid(path, 'must be an object'));
+
+const readArray = (value: unknown, path: string) => (Array.isArray(value) ? value : invalid(path, 'must be a list'));
+
+/**
+ * Copies the properties `rules` know about, checking their types; unknown properties are
+ * dropped so a package can't smuggle arbitrary data into the store.
+ */
+const readProperties = (value: Record<string, unknown>, path: string, rules: Record<string, Rule>, required: string[]) => {
+  const result: Record<string, unknown> = {};
+  Object.entries(rules).forEach(([key, rule]) => {
+    const item = value[key];
+    if (item === undefined || item === null) {
+      if (required.includes(key)) invalid(`${path}.${key}`, 'is required');
+      return;
+    }
+    const valid = typeof rule === 'string'
+      ? typeof item === rule && (rule !== 'number' || Number.isFinite(item))
+      : rule.includes(item as string);
+    if (!valid) {
+      invalid(`${path}.${key}`, typeof rule === 'string' ? `must be a ${rule}` : `must be one of ${rule.join(', ')}`);
+    }
+    result[key] = item;
+  });
+  return result;
+};
+
+const readFields = (value: unknown, path: string): TemplateField[] =>
+  readArray(value, path).map((item, index) => {
+    const fieldPath = `${path}[${index}]`;
+    const record = readRecord(item, fieldPath);
+    const field = readProperties(record, fieldPath, FIELD_RULES, ['id', 'name', 'type', 'x', 'y']) as unknown as TemplateField;
+    if (field.x < 0 || field.x > 100 || field.y < 0 || field.y > 100) {
+      invalid(fieldPath, 'must be positioned between 0 and 100%');
+    }
+    if (record.columns !== undefined) {
+      field.columns = readArray(record.columns, `${fieldPath}.columns`).map((column, columnIndex) => {
+        const columnPath = `${fieldPath}.columns[${columnIndex}]`;
+        return readProperties(readRecord(column, columnPath), columnPath, COLUMN_RULES, ['key', 'label']) as unknown as TableColumn;
+      });
+    }
+    return field;
+  });
+
+/**
+ * Checks a packaged template against the Template schema.
+ */
+export const parseTemplateSnapshot = (value: unknown): TemplateSnapshot => {
+  const record = readRecord(value, 'template');
+  const template = readProperties(record, 'template', TEMPLATE_RULES, ['name', 'imageUrl']) as unknown as TemplateSnapshot;
+  template.fields = readFields(record.fields, 'template.fields');
+  if (record.pageSize !== undefined && record.pageSize !== null) {
+    template.pageSize = readProperties(
+      readRecord(record.pageSize, 'template.pageSize'), 'template.pageSize', PAGE_SIZE_RULES, ['preset', 'orientation']
+    ) as unknown as PageSize;
+  }
+  if (record.pages !== undefined && record.pages !== null) {
+    template.pages = readArray(record.pages, 'template.pages').map((page, index) => {
+      const pagePath = `template.pages[${index}]`;
+      const pageRecord = readRecord(page, pagePath);
+      return {
+        ...readProperties(pageRecord, pagePath, PAGE_RULES, ['id', 'imageUrl']),
+        fields: readFields(pageRecord.fields, `${pagePath}.fields`)
+      } as TemplatePage;
+    });
+  }
+
+  const ids = [...template.fields, ...(template.pages || []).flatMap(page => page.fields)].map(field => field.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) invalid('template', `has two fields with id "${duplicate}"`);
+  return template;
+};
+
+const parseFonts = (value: unknown): PackagedFont[] =>
+  value === undefined
+    ? []
+    : readArray(value, 'fonts').map((font, index) =>
+        readProperties(readRecord(font, `fonts[${index}]`), `fonts[${index}]`, {
+          family: 'string',
+          style: ['normal', 'bold', 'italic', 'bolditalic'],
+          file: 'string'
+        }, ['family', 'style', 'file']) as unknown as PackagedFont
+      );
+
+/**
+ * Reads a .certtpl package. Throws TemplatePackageError when the file is not a valid
+ * package; problems that still leave a usable template come back as warnings.
+ */
+export const importTemplatePackage = async (
+  file: Blob,
+  signers: Signer[] = [],
+  registeredFonts: CustomFont[] = []
+): Promise<ImportedTemplate> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new TemplatePackageError('The file is not a template package (it is not a ZIP archive).');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new TemplatePackageError(`The package has no ${MANIFEST_FILE}.`);
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = readRecord(JSON.parse(await manifestFile.async('string')), MANIFEST_FILE);
+  } catch (error) {
+    if (error instanceof TemplatePackageError) throw error;
+    throw new TemplatePackageError(`${MANIFEST_FILE} is not valid JSON.`);
+  }
+  if (manifest.format !== PACKAGE_FORMAT) {
+    throw new TemplatePackageError(`${MANIFEST_FILE} is not a ${TEMPLATE_PACKAGE_EXTENSION} manifest.`);
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > PACKAGE_FORMAT_VERSION) {
+    throw new TemplatePackageError(`The package was made by a newer version (format ${String(manifest.formatVersion)}); update the app to import it.`);
+  }
+
+  const template = parseTemplateSnapshot(manifest.template);
+  const fonts = parseFonts(manifest.fonts);
+  const warnings: string[] = [];
+
+  const resolveImage = async (url: string | undefined): Promise<string | undefined> => {
+    if (!url || !isPackagePath(url)) return url;
+    const entry = zip.file(url);
+    if (!entry) throw new TemplatePackageError(`The package is missing ${url}.`);
+    const extension = url.split('.').pop();
+    const type = Object.keys(IMAGE_EXTENSIONS).find(key => IMAGE_EXTENSIONS[key] === extension) || 'application/octet-stream';
+    try {
+      return await uploadTemplateImage(new Blob([await entry.async('arraybuffer')], { type }));
+    } catch (error) {
+      throw new TemplatePackageError(`Could not upload ${url}: ${(error as Error).message}`);
+    }
+  };
+  const resolveFields = (fields: TemplateField[]) =>
+    Promise.all(fields.map(async field => (field.imageUrl ? { ...field, imageUrl: await resolveImage(field.imageUrl) } : field)));
+
+  template.imageUrl = (await resolveImage(template.imageUrl)) || '';
+  template.fields = await resolveFields(template.fields);
+  if (template.pages) {
+    template.pages = await Promise.all(template.pages.map(async page => ({
+      ...page,
+      imageUrl: (await resolveImage(page.imageUrl)) || '',
+      fields: await resolveFields(page.fields)
+    })));
+  }
+
+  // Bundled fonts and ones already registered here are used as they are; the rest get uploaded
+  const importedFonts: Omit<CustomFont, 'id'>[] = [];
+  for (const font of fonts) {
+    const entry = zip.file(font.file);
+    if (!entry) throw new TemplatePackageError(`The package is missing ${font.file}.`);
+    const installed = [...EMBEDDED_FONTS, ...registeredFonts].some(existing =>
+      existing.family.toLowerCase() === font.family.toLowerCase() && existing.style === font.style
+    );
+    if (installed) continue;
+
+    const data = await entry.async('arraybuffer');
+    const info = readFontInfo(data);
+    if (!info) throw new TemplatePackageError(`${font.file} is not a TTF, OTF or WOFF2 font.`);
+    try {
+      const url = await uploadFontFile(new Blob([data]), info.format);
+      importedFonts.push({ family: font.family, style: font.style, url, format: info.format });
+    } catch (error) {
+      throw new TemplatePackageError(`Could not upload ${font.file}: ${(error as Error).message}`);
+    }
+  }
+
+  const availableFonts = [...registeredFonts, ...importedFonts];
+  new Set(getTemplateFields(template)
+    .filter(field => field.fontFamily && !isSystemFontStack(field.fontFamily) && !findEmbeddedFont(field.fontFamily, 'normal', availableFonts))
+    .map(field => getPrimaryFontFamily(field.fontFamily!)))
+    .forEach(family => warnings.push(`The font ${family} is not installed here and the package doesn't include it; text using it won't render until it is uploaded to the font registry.`));
+
+  getTemplateFields(template)
+    .filter(field => field.type === 'signature' && !signers.some(signer => signer.id === field.signerId))
+    .forEach(field => warnings.push(`The signature field "${field.name}" references a signer that does not exist here; pick one before issuing.`));
+
+  return { template, fonts: importedFonts, warnings };
+};
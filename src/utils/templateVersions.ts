@@ -0,0 +1,218 @@
+import { Certificate, Template, TemplateSnapshot, TemplateVersion } from '../types';
+import { getTemplatePages } from './certificateRenderer';
+
+/**
+ * Immutable template versions. Editing a template publishes a new version instead of
+ * changing the old one, and each certificate records the version it was issued with, so
+ * re-rendering it later draws the layout it was issued with.
+ */
+
+export interface TemplateChange {
+  kind: 'added' | 'removed' | 'changed';
+  label: string; // What changed, e.g. `Page 2 · Field "grades"`
+  property?: string;
+  before?: string;
+  after?: string;
+}
+
+const SNAPSHOT_PROPERTIES: { key: keyof TemplateSnapshot; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'validityMonths', label: 'Validity (months)' },
+  { key: 'criteria', label: 'Criteria' },
+  { key: 'pageSize', label: 'Page size' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' }
+];
+
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * JSON with sorted keys, so snapshots that went through the database (which reorders
+ * jsonb keys) still compare equal.
+ */
+const stableStringify = (value: unknown): string => {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined && item !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : stableStringify(value);
+  if (text.startsWith('data:')) return 'Uploaded image';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+};
+
+/**
+ * What a version stores: everything about a template except its identity.
+ */
+export const getTemplateSnapshot = (template: Omit<Template, 'id'>): TemplateSnapshot => {
+  const snapshot: Partial<Template> = { ...template };
+  delete snapshot.id;
+  delete snapshot.version;
+  return snapshot as TemplateSnapshot;
+};
+
+export const isSameSnapshot = (a: TemplateSnapshot, b: TemplateSnapshot): boolean =>
+  stableStringify(a) === stableStringify(b);
+
+/**
+ * Versions of one template, newest first.
+ */
+export const getTemplateVersions = (versions: TemplateVersion[], templateId: string): TemplateVersion[] =>
+  versions.filter(v => v.templateId === templateId).sort((a, b) => b.version - a.version);
+
+/**
+ * The next version of a template, holding its current content.
+ */
+export const createTemplateVersion = (
+  template: Template,
+  versions: TemplateVersion[],
+  note?: string
+): TemplateVersion => {
+  const version = (getTemplateVersions(versions, template.id)[0]?.version || 0) + 1;
+  return {
+    // Deterministic, so two browsers publishing the same version number collide instead of forking
+    id: `${template.id}-v${version}`,
+    templateId: template.id,
+    version,
+    snapshot: getTemplateSnapshot(template),
+    note,
+    createdAt: new Date().toISOString()
+  };
+};
+
+/**
+ * The local versions of a template the server hasn't recorded, renumbered after the
+ * server's latest version when another browser published the same numbers first.
+ * `renumbered` maps each moved version number to its new one.
+ */
+export const rebaseTemplateVersions = (
+  local: TemplateVersion[],
+  remote: TemplateVersion[]
+): { versions: TemplateVersion[]; renumbered: Map<number, number> } => {
+  const renumbered = new Map<number, number>();
+  let latest = remote.reduce((max, v) => Math.max(max, v.version), 0);
+  const versions = local
+    .filter(v => !remote.some(r => r.id === v.id && isSameSnapshot(r.snapshot, v.snapshot)))
+    .sort((a, b) => a.version - b.version)
+    .map(v => {
+      latest = Math.max(v.version, latest + 1);
+      if (latest === v.version) return v;
+      renumbered.set(v.version, latest);
+      return { ...v, id: `${v.templateId}-v${latest}`, version: latest };
+    });
+  return { versions, renumbered };
+};
+
+export class MissingTemplateVersionError extends Error {
+  constructor(templateId: string, version: number) {
+    super(`Version ${version} of template ${templateId} is not available, so the certificate can't be drawn with the layout it was issued with.`);
+    this.name = 'MissingTemplateVersionError';
+  }
+}
+
+/**
+ * A template with the content of one of its versions. Certificates from before
+ * versioning have no version and get the first one. Throws MissingTemplateVersionError
+ * when the version isn't there, rather than drawing the template's current layout.
+ */
+export const applyTemplateVersion = (
+  template: Template,
+  versions: TemplateVersion[],
+  version?: number
+): Template => {
+  const issued = version ?? 1;
+  const match = versions.find(v => v.templateId === template.id && v.version === issued);
+  if (match) return { ...match.snapshot, id: template.id, version: match.version };
+  // Never edited since versioning began, so its current layout is the one those certificates got
+  if (version === undefined && !versions.some(v => v.templateId === template.id)) return template;
+  throw new MissingTemplateVersionError(template.id, issued);
+};
+
+/**
+ * The template as it was when the certificate was issued, or undefined when the
+ * template is gone. Throws MissingTemplateVersionError like applyTemplateVersion.
+ */
+export const getCertificateTemplate = (
+  templates: Template[],
+  versions: TemplateVersion[],
+  certificate: Pick<Certificate, 'templateId' | 'templateVersion'>
+): Template | undefined => {
+  const template = templates.find(t => t.id === certificate.templateId);
+  if (template) return applyTemplateVersion(template, versions, certificate.templateVersion);
+  // Deleted templates keep their versions, so their certificates still render
+  const issued = versions.find(v => v.templateId === certificate.templateId && v.version === (certificate.templateVersion ?? 1));
+  return issued && { ...issued.snapshot, id: issued.templateId, version: issued.version };
+};
+
+/**
+ * Human-readable differences between two versions: template properties, pages and
+ * fields (matched by id), property by property.
+ */
+export const diffTemplateSnapshots = (before: TemplateSnapshot, after: TemplateSnapshot): TemplateChange[] => {
+  const changes: TemplateChange[] = [];
+
+  SNAPSHOT_PROPERTIES.forEach(({ key, label }) => {
+    if (stableStringify(before[key]) !== stableStringify(after[key])) {
+      changes.push({ kind: 'changed', label, before: formatValue(before[key]), after: formatValue(after[key]) });
+    }
+  });
+
+  const beforePages = getTemplatePages(before);
+  const afterPages = getTemplatePages(after);
+  const pageLabel = (pages: typeof afterPages, id: string) => `Page ${pages.findIndex(page => page.id === id) + 1}`;
+
+  beforePages
+    .filter(page => !afterPages.some(p => p.id === page.id))
+    .forEach(page => changes.push({ kind: 'removed', label: pageLabel(beforePages, page.id) }));
+
+  afterPages.forEach(page => {
+    const label = pageLabel(afterPages, page.id);
+    const previous = beforePages.find(p => p.id === page.id);
+    if (!previous) {
+      changes.push({ kind: 'added', label });
+      return;
+    }
+
+    if (previous.imageUrl !== page.imageUrl) {
+      changes.push({
+        kind: 'changed',
+        label,
+        property: 'background',
+        before: formatValue(previous.imageUrl),
+        after: formatValue(page.imageUrl)
+      });
+    }
+
+    previous.fields
+      .filter(field => !page.fields.some(f => f.id === field.id))
+      .forEach(field => changes.push({ kind: 'removed', label: `${label} · Field "${field.name}"` }));
+
+    page.fields.forEach(field => {
+      const fieldLabel = `${label} · Field "${field.name}"`;
+      const old = previous.fields.find(f => f.id === field.id);
+      if (!old) {
+        changes.push({ kind: 'added', label: fieldLabel });
+        return;
+      }
+
+      const keys = Array.from(new Set([...Object.keys(old), ...Object.keys(field)])).sort() as (keyof typeof field)[];
+      keys
+        .filter(key => key !== 'id' && stableStringify(old[key]) !== stableStringify(field[key]))
+        .forEach(key => changes.push({
+          kind: 'changed',
+          label: fieldLabel,
+          property: key,
+          before: formatValue(old[key]),
+          after: formatValue(field[key])
+        }));
+    });
+  });
+
+  return changes;
+};
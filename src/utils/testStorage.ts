@@ -1,3 +1,5 @@
+import { supabase } from '../lib/supabase';
+
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -23,10 +25,7 @@ export async function testStorageUpload(): Promise<void> {
 
     const response = await fetch(uploadUrl, {
       method: 'POST',
-      headers: {
-        'apikey': supabaseAnonKey,
-        'Authorization': `Bearer ${supabaseAnonKey}`,
-      },
+      headers: await supabase.getAuthHeaders(),
       body: formData,
     });
 
@@ -84,10 +83,7 @@ export async function testPDFGeneration(): Promise<void> {
 
     const response = await fetch(uploadUrl, {
       method: 'POST',
-      headers: {
-        'apikey': supabaseAnonKey,
-        'Authorization': `Bearer ${supabaseAnonKey}`,
-      },
+      headers: await supabase.getAuthHeaders(),
       body: formData,
     });
 
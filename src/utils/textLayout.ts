@@ -0,0 +1,109 @@
+import type { RenderedTextField } from './certificateRenderer';
+
+/**
+ * Line breaking, truncation and auto-fit for text fields. Every renderer lays text out
+ * here with its own measurements (canvas metrics on screen, font tables in the PDF) and
+ * then draws the resulting lines as-is, so wrapping is the same everywhere.
+ */
+
+export const LINE_HEIGHT = 1.2; // Multiple of the font size
+export const MIN_AUTO_FIT_SIZE = 8; // px
+const AUTO_FIT_STEPS = 8;
+const ELLIPSIS = '…';
+
+/**
+ * Advance width in px of `text` at `fontSize` px, without letter spacing.
+ */
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+export interface TextLine {
+  text: string;
+  width: number; // px, letter spacing included
+}
+
+export interface TextLayout {
+  fontSize: number;
+  lineHeight: number; // px
+  lines: TextLine[];
+}
+
+/**
+ * CSS `font` shorthand for a field at a given size.
+ */
+export const getCssFont = (field: RenderedTextField, fontSize = field.fontSize): string =>
+  `${field.fontStyle} ${field.fontWeight} ${fontSize}px ${field.fontFamily}`;
+
+const wrapWords = (words: string[], maxWidth: number, lineWidth: (text: string) => number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && lineWidth(candidate) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  return [...lines, line];
+};
+
+const truncate = (text: string, maxWidth: number, lineWidth: (text: string) => number): string => {
+  const chars = Array.from(text);
+  while (chars.length > 0 && lineWidth(`${chars.join('').trimEnd()}${ELLIPSIS}`) > maxWidth) chars.pop();
+  return `${chars.join('').trimEnd()}${ELLIPSIS}`;
+};
+
+export const layoutText = (field: RenderedTextField, measure: TextMeasurer): TextLayout => {
+  const words = field.text.split(/\s+/).filter(Boolean);
+  const maxLines = field.maxLines || (field.autoFit ? 1 : Infinity);
+  const lineWidth = (fontSize: number) => (text: string) =>
+    measure(text, fontSize) + field.letterSpacing * Array.from(text).length;
+  const wrap = (fontSize: number) =>
+    field.maxWidth ? wrapWords(words, field.maxWidth, lineWidth(fontSize)) : [words.join(' ')];
+  const fits = (fontSize: number) => {
+    const lines = wrap(fontSize);
+    return lines.length <= maxLines && lines.every(line => lineWidth(fontSize)(line) <= field.maxWidth!);
+  };
+
+  // Shrink-to-fit only has a box to fit into when the field has a width
+  let fontSize = field.fontSize;
+  if (field.autoFit && field.maxWidth && !fits(fontSize)) {
+    let low = Math.min(MIN_AUTO_FIT_SIZE, fontSize);
+    let high = fontSize;
+    for (let step = 0; step < AUTO_FIT_STEPS && high - low > 0.25; step++) {
+      const middle = (low + high) / 2;
+      if (fits(middle)) low = middle;
+      else high = middle;
+    }
+    fontSize = Math.floor(low * 4) / 4;
+  }
+
+  const measureLine = lineWidth(fontSize);
+  let lines = wrap(fontSize);
+  if (lines.length > maxLines) {
+    lines = lines.slice(0, maxLines);
+    lines[maxLines - 1] = truncate(lines[maxLines - 1], field.maxWidth!, measureLine);
+  }
+
+  return {
+    fontSize,
+    lineHeight: fontSize * LINE_HEIGHT,
+    lines: lines.map(text => ({ text, width: measureLine(text) }))
+  };
+};
+
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+/**
+ * Measures with a 2D canvas in the browser, i.e. with the fonts the page has loaded.
+ */
+export const createCanvasMeasurer = (field: RenderedTextField): TextMeasurer => (text, fontSize) => {
+  if (!measureContext) {
+    measureContext = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1).getContext('2d')
+      : document.createElement('canvas').getContext('2d');
+  }
+  measureContext!.font = getCssFont(field, fontSize);
+  return measureContext!.measureText(text).width;
+};
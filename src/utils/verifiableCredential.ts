@@ -0,0 +1,140 @@
+import { getPublicKey } from './certificateSignature';
+
+/**
+ * W3C Verifiable Credential (data model 2.0) as issued by the `sign-certificate`
+ * Edge Function, secured with an `ecdsa-jcs-2019` Data Integrity proof.
+ */
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string | { id: string; name?: string };
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: Record<string, unknown>;
+  proof?: DataIntegrityProof;
+}
+
+export interface DataIntegrityProof {
+  '@context'?: string[];
+  type: string;
+  cryptosuite: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue: string;
+}
+
+/**
+ * - valid: proof checks out against a published key of our issuer DID
+ * - invalid: the credential was modified after signing, or the proof is corrupt
+ * - unknown-issuer: issued by another DID or with a key we don't publish
+ * - malformed: not a credential, or missing a supported proof
+ */
+export type CredentialStatus = 'valid' | 'invalid' | 'unknown-issuer' | 'malformed';
+
+export const ISSUER_DID: string = import.meta.env.VITE_ISSUER_DID || '';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const fromBase58btc = (value: string): Uint8Array => {
+  const bytes = [0];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  const leading = value.match(/^1*/)![0].length;
+  const significant = bytes.reverse();
+  while (significant.length > 0 && significant[0] === 0) significant.shift();
+  return new Uint8Array([...new Array(leading).fill(0), ...significant]);
+};
+
+/**
+ * RFC 8785 JSON Canonicalization Scheme. Must match supabase/functions/_shared/dataIntegrity.ts.
+ */
+export const canonicalizeJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalizeJson).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalizeJson(v)}`).join(',')}}`;
+};
+
+const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+export const getCredentialIssuerId = (credential: VerifiableCredential): string =>
+  typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+
+/**
+ * Our credential ids are the certificate's verification URL (`.../verify/<code>`,
+ * plus `#open-badge` for Open Badges).
+ */
+export const getCredentialCertificateCode = (credential: VerifiableCredential): string | null => {
+  const subjectCode = credential.credentialSubject.certificateCode;
+  if (typeof subjectCode === 'string') return subjectCode;
+
+  const match = credential.id?.match(/\/verify\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+/**
+ * Verifies the `ecdsa-jcs-2019` proof of a credential issued by our DID. Keys are
+ * resolved from the published organization keys by the `#kid` fragment.
+ */
+export const verifyCredential = async (credential: VerifiableCredential): Promise<CredentialStatus> => {
+  const { proof, ...document } = credential;
+  if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-jcs-2019') return 'malformed';
+  if (!proof.proofValue?.startsWith('z') || !document['@context']) return 'malformed';
+
+  const issuerId = getCredentialIssuerId(credential);
+  if (!ISSUER_DID || issuerId !== ISSUER_DID || !proof.verificationMethod.startsWith(`${issuerId}#`)) {
+    return 'unknown-issuer';
+  }
+
+  const key = await getPublicKey(proof.verificationMethod.slice(issuerId.length + 1));
+  if (!key) return 'unknown-issuer';
+
+  try {
+    const { proofValue, ...proofOptions } = proof;
+    const proofConfig = { ...proofOptions, '@context': document['@context'] };
+    const proofHash = await sha256(canonicalizeJson(proofConfig));
+    const documentHash = await sha256(canonicalizeJson(document));
+
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      fromBase58btc(proofValue.slice(1)),
+      new Uint8Array([...proofHash, ...documentHash])
+    );
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+};
+
+/**
+ * Parses pasted or uploaded JSON; returns null when it isn't a credential at all.
+ */
+export const parseCredential = (json: string): VerifiableCredential | null => {
+  try {
+    const credential = JSON.parse(json);
+    const isCredential = credential && typeof credential === 'object' &&
+      Array.isArray(credential.type) && credential.type.includes('VerifiableCredential') &&
+      credential.credentialSubject && credential.issuer;
+    return isCredential ? credential : null;
+  } catch {
+    return null;
+  }
+};
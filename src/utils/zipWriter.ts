@@ -0,0 +1,194 @@
+import { crc32 } from './crc32';
+
+/**
+ * Minimal streaming ZIP writer (stored entries, no compression — PDFs barely compress).
+ * Each entry is written to the sink as soon as it is added; only the central directory
+ * records stay in memory, so a bulk export does not hold every PDF at once.
+ */
+
+export interface ZipSink {
+  write: (chunk: Uint8Array) => void | Promise<void>;
+  flush?: () => Promise<void>; // Make everything written so far durable
+  close?: () => Promise<void>;
+}
+
+export interface ZipEntry {
+  name: string;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Everything needed to carry on writing an archive: the entries written so far and
+ * where the next one starts. Entries are not rewritten on resume.
+ */
+export interface ZipState {
+  entries: ZipEntry[];
+  offset: number;
+}
+
+export interface ZipWriter {
+  addFile: (name: string, data: Uint8Array, date?: Date) => Promise<void>;
+  flush: () => Promise<ZipState>;
+  finish: () => Promise<void>;
+}
+
+const MAX_ZIP32 = 0xffffffff;
+const UTF8_FLAG = 0x0800;
+
+const toDosTime = (date: Date) =>
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+
+const toDosDate = (date: Date) =>
+  (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+const encoder = new TextEncoder();
+
+const localHeader = (entry: ZipEntry): Uint8Array => {
+  const name = encoder.encode(entry.name);
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true); // Version needed
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true); // Stored
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, name.length, true);
+  header.set(name, 30);
+  return header;
+};
+
+const centralHeader = (entry: ZipEntry): Uint8Array => {
+  const name = encoder.encode(entry.name);
+  const header = new Uint8Array(46 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, 20, true); // Version made by
+  view.setUint16(6, 20, true); // Version needed
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, entry.size, true);
+  view.setUint32(24, entry.size, true);
+  view.setUint16(28, name.length, true);
+  view.setUint32(42, entry.offset, true);
+  header.set(name, 46);
+  return header;
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number): Uint8Array => {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, count, true);
+  view.setUint16(10, count, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return record;
+};
+
+export const createZipWriter = (sink: ZipSink, state: ZipState = { entries: [], offset: 0 }): ZipWriter => {
+  const entries = [...state.entries];
+  let offset = state.offset;
+  // Writes are chained so concurrent addFile calls never interleave their bytes
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const write = async (chunk: Uint8Array) => {
+    await sink.write(chunk);
+    offset += chunk.length;
+  };
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    addFile: (name, data, date = new Date()) => enqueue(async () => {
+      if (entries.length >= 0xffff || offset + data.length + 30 + name.length * 3 > MAX_ZIP32) {
+        throw new Error('El archivo ZIP excede el tamaño máximo');
+      }
+      const entry: ZipEntry = {
+        name,
+        crc: crc32(data),
+        size: data.length,
+        offset,
+        time: toDosTime(date),
+        date: toDosDate(date)
+      };
+      await write(localHeader(entry));
+      await write(data);
+      entries.push(entry);
+    }),
+
+    flush: () => enqueue(async () => {
+      await sink.flush?.();
+      return { entries: [...entries], offset };
+    }),
+
+    finish: () => enqueue(async () => {
+      const directoryOffset = offset;
+      for (const entry of entries) await write(centralHeader(entry));
+      await write(endOfCentralDirectory(entries.length, offset - directoryOffset, directoryOffset));
+      await sink.close?.();
+    })
+  };
+};
+
+/**
+ * Sink that writes straight to a file picked with the File System Access API, starting
+ * at `offset` so an interrupted archive can be continued. Browsers only commit a
+ * writable stream when it closes, so flush() closes and reopens it. Reopening copies
+ * the whole file into a new swap file, so callers should flush sparingly.
+ */
+export const createFileSink = async (handle: FileSystemFileHandle, offset = 0) => {
+  let position = offset;
+
+  const open = async () => {
+    const writable = await handle.createWritable({ keepExistingData: position > 0 });
+    // Drop anything past the last flush, left behind by an interrupted run
+    await writable.truncate(position);
+    await writable.seek(position);
+    return writable;
+  };
+
+  let writable = await open();
+
+  return {
+    write: async (chunk: Uint8Array) => {
+      await writable.write(chunk);
+      position += chunk.length;
+    },
+    flush: async () => {
+      await writable.close();
+      writable = await open();
+    },
+    close: () => writable.close(),
+    abort: () => writable.abort()
+  };
+};
+
+/**
+ * Sink that collects the archive as a Blob. Every chunk becomes its own Blob part,
+ * which the browser may page out of the JS heap, so the rendered PDFs are released
+ * as soon as they are written.
+ */
+export const createBlobSink = () => {
+  const parts: Blob[] = [];
+  return {
+    write: (chunk: Uint8Array) => {
+      parts.push(new Blob([chunk]));
+    },
+    toBlob: () => new Blob(parts, { type: 'application/zip' })
+  };
+};
@@ -0,0 +1,62 @@
+import { PdfAssets, PdfImage, renderModelToPDF } from '../utils/pdfRenderer';
+import { loadFontData } from '../utils/certificateFonts';
+import type { RenderRequest, RenderResponse } from '../utils/renderWorkerPool';
+
+/**
+ * Renders certificate PDFs off the main thread for bulk downloads. Template images
+ * jsPDF can't embed directly (WebP, GIF) are re-encoded to PNG on an OffscreenCanvas;
+ * images and fonts are cached for the lifetime of the worker.
+ */
+
+const imageCache = new Map<string, Promise<PdfImage>>();
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to load template image'));
+    reader.readAsDataURL(blob);
+  });
+
+const decodeImage = async (url: string): Promise<PdfImage> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to load template image');
+  const blob = await response.blob();
+
+  if (blob.type === 'image/png' || blob.type === 'image/jpeg') {
+    return { data: await readAsDataUrl(blob), format: blob.type === 'image/png' ? 'PNG' : 'JPEG' };
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { data: await readAsDataUrl(await canvas.convertToBlob({ type: 'image/png' })), format: 'PNG' };
+};
+
+const loadImage = (url: string): Promise<PdfImage> => {
+  let image = imageCache.get(url);
+  if (!image) {
+    image = decodeImage(url);
+    image.catch(() => imageCache.delete(url));
+    imageCache.set(url, image);
+  }
+  return image;
+};
+
+self.onmessage = async ({ data: { id, model, options, images } }: MessageEvent<RenderRequest>) => {
+  // SVG images can't be decoded in a worker; the pool rasterizes them beforehand
+  const assets: PdfAssets = {
+    loadImage: url => (images?.[url] ? Promise.resolve(images[url]) : loadImage(url)),
+    loadFont: loadFontData
+  };
+
+  try {
+    const pdf = await (await renderModelToPDF(model, { ...options, assets })).arrayBuffer();
+    const response: RenderResponse = { id, pdf };
+    self.postMessage(response, { transfer: [pdf] });
+  } catch (error) {
+    const response: RenderResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * W3C Data Integrity proofs with the `ecdsa-jcs-2019` cryptosuite (ECDSA P-256,
+ * JSON Canonicalization Scheme). The app verifies them with the same steps in
+ * src/utils/verifiableCredential.ts.
+ */
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export const base58btc = (bytes: Uint8Array): string => {
+  const digits = [0];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+  const zeros = bytes.findIndex(byte => byte !== 0);
+  const leading = '1'.repeat(zeros === -1 ? bytes.length : zeros);
+  return leading + digits.reverse().map(d => BASE58_ALPHABET[d]).join('').replace(/^1+/, '');
+};
+
+/**
+ * RFC 8785: object keys sorted, no whitespace, ECMAScript number and string serialization.
+ */
+export const canonicalizeJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalizeJson).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalizeJson(v)}`).join(',')}}`;
+};
+
+const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+/**
+ * Adds a DataIntegrityProof to `document`, signed by `verificationMethod` (`<did>#<kid>`).
+ */
+export const addDataIntegrityProof = async <T extends { '@context': unknown }>(
+  document: T,
+  key: CryptoKey,
+  verificationMethod: string
+): Promise<T & { proof: Record<string, unknown> }> => {
+  const proofConfig = {
+    '@context': document['@context'],
+    type: 'DataIntegrityProof',
+    cryptosuite: 'ecdsa-jcs-2019',
+    created: new Date().toISOString(),
+    verificationMethod,
+    proofPurpose: 'assertionMethod'
+  };
+
+  const proofHash = await sha256(canonicalizeJson(proofConfig));
+  const documentHash = await sha256(canonicalizeJson(document));
+  const hashData = new Uint8Array([...proofHash, ...documentHash]);
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, hashData)
+  );
+
+  return { ...document, proof: { ...proofConfig, proofValue: `z${base58btc(signature)}` } };
+};
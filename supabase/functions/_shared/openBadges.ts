@@ -0,0 +1,52 @@
+/**
+ * Open Badges 3.0: each template is an Achievement, each certificate an
+ * OpenBadgeCredential awarding it to the recipient.
+ */
+
+export const OPEN_BADGES_CONTEXT = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+];
+
+export interface IssuerProfile {
+  id: string;
+  type: ['Profile'];
+  name: string;
+  url: string;
+}
+
+export interface TemplateRow {
+  id: string;
+  name: string;
+  image_url: string;
+  criteria: string | null;
+}
+
+export const buildAchievement = (template: TemplateRow, origin: string, issuer: IssuerProfile) => ({
+  id: `${origin}/achievements/${encodeURIComponent(template.id)}`,
+  type: ['Achievement'],
+  name: template.name,
+  criteria: { narrative: template.criteria || `Completar el programa "${template.name}".` },
+  ...(template.image_url && { image: { id: template.image_url, type: 'Image' } }),
+  creator: issuer
+});
+
+export const buildOpenBadgeCredential = (
+  certificate: { recipient_name: string; issue_date: string; expires_at: string | null },
+  credentialId: string,
+  achievement: ReturnType<typeof buildAchievement>,
+  issuer: IssuerProfile
+) => ({
+  '@context': OPEN_BADGES_CONTEXT,
+  id: credentialId,
+  type: ['VerifiableCredential', 'OpenBadgeCredential'],
+  name: achievement.name,
+  issuer,
+  validFrom: new Date(certificate.issue_date).toISOString(),
+  ...(certificate.expires_at && { validUntil: new Date(certificate.expires_at).toISOString() }),
+  credentialSubject: {
+    type: ['AchievementSubject'],
+    name: certificate.recipient_name,
+    achievement
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Links an uploaded PDF to its certificate row.
+ *
+ * POST { certificate_code } with the caller's JWT. Admins can link any certificate and
+ * issuers the ones they created. Issuers may only update their own pending rows, and a
+ * draft is approved (and so active) before its PDF is signed and uploaded, so the row
+ * is updated here with the service role instead. The URL is not taken from the request:
+ * it is always the certificate's file in the `certificates` bucket, which must exist.
+ *
+ * Secrets:
+ * - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY: provided by the Edge runtime
+ */
+
+const LINKING_ROLES = ['admin', 'issuer'];
+const BUCKET_NAME = 'certificates';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface CertificateRow {
+  certificate_code: string;
+  status: 'pending' | 'active' | 'revoked';
+  created_by: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Who is calling? The role lives in app_metadata, which users cannot edit
+  const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { apikey: serviceKey, Authorization: req.headers.get('Authorization') || '' }
+  });
+  if (!userResponse.ok) return json({ error: 'Not authenticated' }, 401);
+  const user = await userResponse.json();
+  const role = user.app_metadata?.role;
+  if (!LINKING_ROLES.includes(role)) {
+    return json({ error: 'Only admins and issuers can link certificate PDFs' }, 403);
+  }
+
+  const { certificate_code: code } = await req.json().catch(() => ({}));
+  if (typeof code !== 'string' || !code) return json({ error: 'certificate_code is required' }, 400);
+
+  const restHeaders = {
+    apikey: serviceKey,
+    Authorization: `Bearer ${serviceKey}`,
+    'Content-Type': 'application/json'
+  };
+  const rowUrl = `${supabaseUrl}/rest/v1/certificates?certificate_code=eq.${encodeURIComponent(code)}`;
+  const rowResponse = await fetch(`${rowUrl}&select=certificate_code,status,created_by`, { headers: restHeaders });
+  const [row] = (await rowResponse.json()) as CertificateRow[];
+  if (!row) return json({ error: `Certificate ${code} not found` }, 404);
+  if (role === 'issuer' && row.created_by !== user.id) {
+    return json({ error: `Certificate ${code} was issued by someone else` }, 403);
+  }
+  if (row.status === 'revoked') return json({ error: `Certificate ${code} is revoked` }, 409);
+
+  const pdfUrl = `${supabaseUrl}/storage/v1/object/public/${BUCKET_NAME}/${encodeURIComponent(code)}.pdf`;
+  const fileResponse = await fetch(pdfUrl, { method: 'HEAD' });
+  if (!fileResponse.ok) return json({ error: `The PDF of certificate ${code} has not been uploaded` }, 409);
+
+  const updateResponse = await fetch(rowUrl, {
+    method: 'PATCH',
+    headers: { ...restHeaders, Prefer: 'return=representation' },
+    body: JSON.stringify({ certificate_pdf_url: pdfUrl })
+  });
+  if (!updateResponse.ok) return json({ error: await updateResponse.text() }, 500);
+  const [updated] = await updateResponse.json();
+  // Deleted between the read and the update
+  if (!updated) return json({ error: `Certificate ${code} not found` }, 404);
+
+  return json(updated);
+});
@@ -0,0 +1,191 @@
+/**
+ * Signs a recorded certificate with the organization key.
+ *
+ * POST { certificate_code } with the caller's JWT. Only admins and issuers may sign, and
+ * only active certificates: drafts are signed once a reviewer approves them.
+ * The payload is built from the row as stored in the database (never from the
+ * request), signed with ECDSA P-256 / SHA-256, and written back to the row together
+ * with the signed QR data, a W3C Verifiable Credential for the certificate and an
+ * Open Badges 3.0 OpenBadgeCredential awarding the template's Achievement.
+ *
+ * Secrets:
+ * - CERTIFICATE_SIGNING_KEY: private JWK (with `kid`) whose public half is listed in
+ *   the app's VITE_CERTIFICATE_PUBLIC_KEYS
+ * - ISSUER_DID: the organization's DID, same value as the app's VITE_ISSUER_DID
+ * - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY: provided by the Edge runtime
+ */
+
+import { addDataIntegrityProof } from '../_shared/dataIntegrity.ts';
+import { IssuerProfile, TemplateRow, buildAchievement, buildOpenBadgeCredential } from '../_shared/openBadges.ts';
+
+const ISSUER_NAME = 'Red Ciudadana';
+const ISSUER_URL = 'https://redciudadana.org';
+
+const SIGNING_ROLES = ['admin', 'issuer'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface CertificateRow {
+  certificate_code: string;
+  recipient_name: string;
+  course_name: string;
+  template_id: string;
+  issue_date: string;
+  expires_at: string | null;
+  qr_code_data: string | null;
+  status: 'pending' | 'active' | 'revoked';
+}
+
+// Must match buildCertificatePayload/canonicalizePayload in src/utils/certificateSignature.ts
+const canonicalPayload = (row: CertificateRow): string => {
+  const payload = {
+    v: 1,
+    code: row.certificate_code,
+    name: row.recipient_name,
+    course: row.course_name,
+    issueDate: row.issue_date,
+    expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null
+  };
+  return JSON.stringify(payload, Object.keys(payload).sort());
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** The URL, or null when the value isn't an absolute URL. */
+const parseUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const signingKey = Deno.env.get('CERTIFICATE_SIGNING_KEY');
+  const issuerDid = Deno.env.get('ISSUER_DID');
+  if (!signingKey || !issuerDid) return json({ error: 'Signing key or issuer DID is not configured' }, 500);
+
+  // Who is calling? The role lives in app_metadata, which users cannot edit
+  const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { apikey: serviceKey, Authorization: req.headers.get('Authorization') || '' }
+  });
+  if (!userResponse.ok) return json({ error: 'Not authenticated' }, 401);
+  const user = await userResponse.json();
+  if (!SIGNING_ROLES.includes(user.app_metadata?.role)) {
+    return json({ error: 'Only admins and issuers can sign certificates' }, 403);
+  }
+
+  const { certificate_code: code } = await req.json().catch(() => ({}));
+  if (typeof code !== 'string' || !code) return json({ error: 'certificate_code is required' }, 400);
+
+  const restHeaders = {
+    apikey: serviceKey,
+    Authorization: `Bearer ${serviceKey}`,
+    'Content-Type': 'application/json'
+  };
+  const rowResponse = await fetch(
+    `${supabaseUrl}/rest/v1/certificates?certificate_code=eq.${encodeURIComponent(code)}&select=*`,
+    { headers: restHeaders }
+  );
+  const [row] = (await rowResponse.json()) as CertificateRow[];
+  if (!row) return json({ error: `Certificate ${code} not found` }, 404);
+  // A signed QR verifies offline, so an unapproved draft or a revoked certificate must never get one
+  if (row.status !== 'active') {
+    return json({ error: `Certificate ${code} is ${row.status}; only active certificates can be signed` }, 409);
+  }
+
+  const jwk = JSON.parse(signingKey) as JsonWebKey & { kid: string };
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+  const payload = canonicalPayload(row);
+  const signature = toBase64Url(new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, new TextEncoder().encode(payload))
+  ));
+
+  // The format parseSignedQrData in the app reads
+  const qrUrl = parseUrl(row.qr_code_data || `${parseUrl(req.headers.get('Origin') || supabaseUrl)?.origin}/verify/${code}`);
+  if (!qrUrl) {
+    return json({ error: `Certificate ${code} has a malformed QR code URL; fix its qr_code_data or the request Origin` }, 400);
+  }
+  qrUrl.search = new URLSearchParams({
+    p: toBase64Url(new TextEncoder().encode(payload)),
+    s: signature,
+    k: jwk.kid
+  }).toString();
+  const qrCodeData = qrUrl.toString();
+
+  const credentialId = `${qrUrl.origin}${qrUrl.pathname}`;
+  const verificationMethod = `${issuerDid}#${jwk.kid}`;
+  const credential = await addDataIntegrityProof(
+    {
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      id: credentialId,
+      type: ['VerifiableCredential', 'CourseCompletionCredential'],
+      issuer: { id: issuerDid, name: ISSUER_NAME },
+      validFrom: new Date(row.issue_date).toISOString(),
+      ...(row.expires_at && { validUntil: new Date(row.expires_at).toISOString() }),
+      credentialSubject: {
+        type: 'CourseCompletion',
+        name: row.recipient_name,
+        course: row.course_name,
+        certificateCode: row.certificate_code
+      }
+    },
+    key,
+    verificationMethod
+  );
+
+  const templateResponse = await fetch(
+    `${supabaseUrl}/rest/v1/templates?id=eq.${encodeURIComponent(row.template_id)}&select=id,name,image_url,criteria`,
+    { headers: restHeaders }
+  );
+  const [template] = templateResponse.ok ? (await templateResponse.json()) as TemplateRow[] : [];
+  const issuer: IssuerProfile = { id: issuerDid, type: ['Profile'], name: ISSUER_NAME, url: ISSUER_URL };
+  const badgeCredential = await addDataIntegrityProof(
+    buildOpenBadgeCredential(
+      row,
+      `${credentialId}#open-badge`,
+      buildAchievement(
+        template || { id: row.template_id, name: row.course_name, image_url: '', criteria: null },
+        qrUrl.origin,
+        issuer
+      ),
+      issuer
+    ),
+    key,
+    verificationMethod
+  );
+
+  const updateResponse = await fetch(
+    `${supabaseUrl}/rest/v1/certificates?certificate_code=eq.${encodeURIComponent(code)}`,
+    {
+      method: 'PATCH',
+      headers: restHeaders,
+      body: JSON.stringify({
+        signature,
+        signature_key_id: jwk.kid,
+        qr_code_data: qrCodeData,
+        credential,
+        badge_credential: badgeCredential
+      })
+    }
+  );
+  if (!updateResponse.ok) return json({ error: await updateResponse.text() }, 500);
+
+  return json({ payload, signature, key_id: jwk.kid, qr_code_data: qrCodeData });
+});
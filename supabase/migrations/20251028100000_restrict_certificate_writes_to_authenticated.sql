@@ -0,0 +1,70 @@
+/*
+  # Restrict Certificate Writes to Authenticated Users
+
+  ## Overview
+  The application now signs admins in through Supabase Auth and sends their JWT
+  on every REST and Storage request. The "anon key" policies added while the app
+  had no real login are no longer needed, so writes go back to `authenticated`.
+
+  ## Changes
+
+  ### 1. `certificates` table
+  - Drops "Allow certificate creation with anon key" (INSERT to anon, authenticated)
+  - Drops "Allow certificate updates with anon key" (UPDATE to anon, authenticated)
+  - Drops "Allow certificate deletion with anon key" (DELETE to anon, authenticated)
+  - Recreates INSERT, UPDATE and DELETE policies for `authenticated` only
+
+  ### 2. `certificates` storage bucket
+  - Drops "Anyone can upload certificates" and "Anyone can update certificates"
+  - Recreates upload and update policies for `authenticated` only
+
+  ## Security Notes
+  - Public verification is unchanged: anyone can still SELECT active certificates
+    and download PDFs from the public bucket
+  - Students can still claim certificates anonymously through `certificate_claims`
+*/
+
+-- Certificates table: remove anon write access
+DROP POLICY IF EXISTS "Allow certificate creation with anon key" ON certificates;
+DROP POLICY IF EXISTS "Allow certificate updates with anon key" ON certificates;
+DROP POLICY IF EXISTS "Allow certificate deletion with anon key" ON certificates;
+
+DROP POLICY IF EXISTS "Admins can create certificates" ON certificates;
+DROP POLICY IF EXISTS "Admins can update certificates" ON certificates;
+DROP POLICY IF EXISTS "Admins can delete certificates" ON certificates;
+
+CREATE POLICY "Admins can create certificates"
+  ON certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can update certificates"
+  ON certificates
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can delete certificates"
+  ON certificates
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Storage: remove anon upload/update access
+DROP POLICY IF EXISTS "Anyone can upload certificates" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update certificates" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload certificates" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update certificates" ON storage.objects;
+
+CREATE POLICY "Authenticated users can upload certificates"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'certificates');
+
+CREATE POLICY "Authenticated users can update certificates"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'certificates')
+WITH CHECK (bucket_id = 'certificates');
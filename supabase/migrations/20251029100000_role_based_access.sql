@@ -0,0 +1,176 @@
+/*
+  # Role-Based Access Control
+
+  ## Overview
+  Every signed-in user used to be treated as an admin. Users now carry one of
+  five roles in their Supabase Auth `app_metadata.role` claim, which only the
+  service role can write:
+
+  - `admin`    - full access, manages users and settings
+  - `issuer`   - creates certificates; they stay `pending` until reviewed
+  - `reviewer` - approves pending certificates before they are published
+  - `viewer`   - read-only access to the admin panel (audits)
+  - `student`  - sees only their own certificates (default for new sign-ups)
+
+  ## Changes
+
+  ### 1. Helper
+  - `public.current_user_role()` reads the role claim from the request JWT
+
+  ### 2. Existing users
+  - Accounts created before roles existed have no claim. Only the accounts
+    listed in the `app.initial_admin_emails` setting (comma-separated emails,
+    set before running this migration) become `admin`; everyone else gets
+    `student`, the least-privileged role. Admins grant other roles afterwards
+
+  ### 3. `certificates` table
+  - Status now accepts 'pending' in addition to 'active' and 'revoked'
+  - New columns: `reviewed_by` (uuid), `reviewed_at` (timestamptz)
+  - `created_by` defaults to `auth.uid()`
+  - Replaces the blanket "Admins can ..." policies with per-role policies
+
+  ### 4. `certificate_claims` table
+  - Only staff roles can view and update all claims
+
+  ### 5. `certificates` storage bucket
+  - Only admins and issuers can upload or update PDFs; only admins can delete
+
+  ## Security Notes
+  - No account becomes admin unless it is listed explicitly
+  - Public verification is unchanged: anyone can SELECT active certificates
+  - Pending certificates are invisible to the public until a reviewer approves them
+  - Issuers cannot publish their own certificates
+*/
+
+-- Role claim helper
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'student');
+$$;
+
+-- Existing operators named in app.initial_admin_emails stay admins, e.g.
+--   ALTER DATABASE postgres SET app.initial_admin_emails = 'ops@example.org,lead@example.org';
+UPDATE auth.users
+SET raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"role": "admin"}'::jsonb
+WHERE raw_app_meta_data ->> 'role' IS NULL
+  AND lower(email) IN (
+    SELECT lower(trim(admin_email))
+    FROM unnest(string_to_array(coalesce(current_setting('app.initial_admin_emails', true), ''), ',')) AS admin_email
+    WHERE trim(admin_email) <> ''
+  );
+
+-- Everyone else gets the least-privileged role
+UPDATE auth.users
+SET raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"role": "student"}'::jsonb
+WHERE raw_app_meta_data ->> 'role' IS NULL;
+
+-- Certificates: review workflow columns
+ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_status_check;
+ALTER TABLE certificates
+  ADD CONSTRAINT certificates_status_check CHECK (status IN ('pending', 'active', 'revoked'));
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS reviewed_by uuid;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+ALTER TABLE certificates ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+-- Certificates: replace blanket authenticated policies
+DROP POLICY IF EXISTS "Admins can view all certificates" ON certificates;
+DROP POLICY IF EXISTS "Admins can create certificates" ON certificates;
+DROP POLICY IF EXISTS "Admins can update certificates" ON certificates;
+DROP POLICY IF EXISTS "Admins can delete certificates" ON certificates;
+
+CREATE POLICY "Staff can view all certificates"
+  ON certificates
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer', 'reviewer', 'viewer'));
+
+CREATE POLICY "Students can view own certificates"
+  ON certificates
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.current_user_role() = 'student'
+    AND status = 'active'
+    AND recipient_email = auth.jwt() ->> 'email'
+  );
+
+CREATE POLICY "Admins can create certificates"
+  ON certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() = 'admin');
+
+CREATE POLICY "Issuers can create pending certificates"
+  ON certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() = 'issuer' AND status = 'pending');
+
+CREATE POLICY "Admins can update certificates"
+  ON certificates
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() = 'admin')
+  WITH CHECK (public.current_user_role() = 'admin');
+
+CREATE POLICY "Issuers can update own pending certificates"
+  ON certificates
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() = 'issuer' AND status = 'pending' AND created_by = auth.uid())
+  WITH CHECK (public.current_user_role() = 'issuer' AND status = 'pending' AND created_by = auth.uid());
+
+CREATE POLICY "Reviewers can approve pending certificates"
+  ON certificates
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() = 'reviewer' AND status = 'pending')
+  WITH CHECK (public.current_user_role() = 'reviewer' AND status = 'active' AND reviewed_by = auth.uid());
+
+CREATE POLICY "Admins can delete certificates"
+  ON certificates
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() = 'admin');
+
+-- Claims: staff only
+DROP POLICY IF EXISTS "Admins can view all claims" ON certificate_claims;
+DROP POLICY IF EXISTS "Admins can update claims" ON certificate_claims;
+
+CREATE POLICY "Staff can view all claims"
+  ON certificate_claims
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer', 'reviewer', 'viewer'));
+
+CREATE POLICY "Admins and issuers can update claims"
+  ON certificate_claims
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+-- Storage: only roles that issue certificates may write PDFs
+DROP POLICY IF EXISTS "Authenticated users can upload certificates" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update certificates" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete certificates" ON storage.objects;
+
+CREATE POLICY "Issuers can upload certificates"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'certificates' AND public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update certificates"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'certificates' AND public.current_user_role() IN ('admin', 'issuer'))
+WITH CHECK (bucket_id = 'certificates' AND public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Admins can delete certificates"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'certificates' AND public.current_user_role() = 'admin');
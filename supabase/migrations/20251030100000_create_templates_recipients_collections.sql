@@ -0,0 +1,170 @@
+/*
+  # Templates, Recipients and Collections Tables
+
+  ## Overview
+  Templates, recipients and collections used to live only in each browser's
+  localStorage, so two admins on different machines saw different data. They
+  now live in Supabase; the app's zustand store is a cache that is hydrated on
+  login and writes through to these tables (queueing changes while offline).
+
+  Record ids are the client-generated ids the app already uses (nanoid or the
+  slug of a built-in template), so existing local data can be uploaded as-is.
+
+  ## New Tables
+
+  ### `templates`
+  - `id` (text, primary key)
+  - `name` (text) - Template display name
+  - `image_url` (text) - Background image (URL or data URL)
+  - `fields` (jsonb) - Positioned fields drawn on top of the background
+  - `width`, `height` (integer, nullable) - Template size in pixels
+  - `created_by` (uuid) - User who created the template
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `recipients`
+  - `id` (text, primary key)
+  - `name`, `email`, `course` (text)
+  - `issue_date` (text) - Date shown on the certificate
+  - `custom_fields` (jsonb) - Extra columns imported from Excel
+  - `created_by` (uuid), `created_at`, `updated_at`
+
+  ### `collections`
+  - `id` (text, primary key)
+  - `name`, `description` (text)
+  - `template_id` (text, nullable)
+  - `certificate_ids` (text[]) - Codes of the certificates in the collection
+  - `created_by` (uuid), `created_at`, `updated_at`
+
+  ## Modified Tables
+
+  ### `certificates`
+  - New `recipient_ref` (text) column pointing at `recipients.id`, so issued
+    certificates can be matched back to their recipient when hydrating
+
+  ## Security
+  - Templates are publicly readable: the verification page renders them
+  - Recipients and collections are readable by staff roles only
+  - Only admins and issuers can create, update or delete any of them
+*/
+
+CREATE TABLE IF NOT EXISTS templates (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  image_url text NOT NULL DEFAULT '',
+  fields jsonb NOT NULL DEFAULT '[]'::jsonb,
+  width integer,
+  height integer,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS recipients (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  email text,
+  course text,
+  issue_date text NOT NULL,
+  custom_fields jsonb,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  template_id text,
+  certificate_ids text[] NOT NULL DEFAULT '{}',
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS recipient_ref text;
+
+CREATE INDEX IF NOT EXISTS idx_recipients_email ON recipients(email);
+CREATE INDEX IF NOT EXISTS idx_certificates_recipient_ref ON certificates(recipient_ref);
+
+ALTER TABLE templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+-- Templates
+CREATE POLICY "Anyone can view templates"
+  ON templates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Issuers can create templates"
+  ON templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update templates"
+  ON templates
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can delete templates"
+  ON templates
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'));
+
+-- Recipients
+CREATE POLICY "Staff can view recipients"
+  ON recipients
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer', 'reviewer', 'viewer'));
+
+CREATE POLICY "Issuers can create recipients"
+  ON recipients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update recipients"
+  ON recipients
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can delete recipients"
+  ON recipients
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'));
+
+-- Collections
+CREATE POLICY "Staff can view collections"
+  ON collections
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer', 'reviewer', 'viewer'));
+
+CREATE POLICY "Issuers can create collections"
+  ON collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can delete collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'));
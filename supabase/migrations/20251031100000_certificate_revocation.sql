@@ -0,0 +1,44 @@
+/*
+  # Certificate Revocation
+
+  ## Overview
+  Certificates used to be removed by hard-deleting the row, after which the
+  verification page simply said "not found". Admins now revoke a certificate
+  instead: the row stays, is marked `revoked`, and records why, by whom and
+  when, so the public verification page can show it as REVOCADO.
+
+  ## Changes
+
+  ### 1. `certificates` table
+  - New `revocation_reason` (text) - Reason shown on the verification page
+  - New `revoked_by` (uuid) - Admin who revoked the certificate
+  - New `revoked_at` (timestamptz) - When it was revoked
+  - CHECK: a revoked certificate must have a reason and a timestamp
+
+  ### 2. Policies
+  - "Anyone can verify certificates by code" now returns revoked certificates
+    as well as active ones (pending certificates stay hidden)
+
+  ## Security Notes
+  - Only admins can revoke: revocation is an UPDATE, and only the admin UPDATE
+    policy from the role-based access migration allows setting status to 'revoked'
+*/
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS revocation_reason text;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS revoked_by uuid;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_revocation_check;
+ALTER TABLE certificates
+  ADD CONSTRAINT certificates_revocation_check CHECK (
+    status <> 'revoked' OR (revocation_reason IS NOT NULL AND revoked_at IS NOT NULL)
+  );
+
+-- Public verification: show revoked certificates instead of hiding them
+DROP POLICY IF EXISTS "Anyone can verify certificates by code" ON certificates;
+
+CREATE POLICY "Anyone can verify certificates by code"
+  ON certificates
+  FOR SELECT
+  TO public
+  USING (status IN ('active', 'revoked'));
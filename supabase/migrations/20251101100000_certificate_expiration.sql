@@ -0,0 +1,37 @@
+/*
+  # Certificate Expiration and Renewal
+
+  ## Overview
+  Some certifications are only valid for a limited time. Templates can now
+  define a validity period, each certificate records when it expires, and an
+  expired (or soon to expire) certificate can be renewed: renewal issues a new
+  certificate that points back at the one it replaces.
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `validity_months` (integer, nullable) - Validity period of certificates
+    issued from the template; NULL means they never expire
+
+  ### 2. `certificates` table
+  - New `expires_at` (timestamptz, nullable) - NULL means no expiration
+  - New `renewal_of` (text, nullable) - `certificate_code` of the certificate
+    this one renews
+  - Indexes on both columns for the dashboard filters and successor lookups
+
+  ## Security Notes
+  - No policy changes: expiration is public information shown on the
+    verification page, and renewals are regular inserts
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS validity_months integer;
+
+ALTER TABLE templates DROP CONSTRAINT IF EXISTS templates_validity_months_check;
+ALTER TABLE templates
+  ADD CONSTRAINT templates_validity_months_check CHECK (validity_months IS NULL OR validity_months > 0);
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS renewal_of text;
+
+CREATE INDEX IF NOT EXISTS idx_certificates_expires_at ON certificates(expires_at);
+CREATE INDEX IF NOT EXISTS idx_certificates_renewal_of ON certificates(renewal_of);
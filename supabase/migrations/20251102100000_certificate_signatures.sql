@@ -0,0 +1,36 @@
+/*
+  # Certificate Signatures
+
+  ## Overview
+  Verification used to mean "a row with this code exists". Every issued
+  certificate is now signed with an organization ECDSA P-256 key, so its
+  authenticity no longer depends on database contents alone.
+
+  The `sign-certificate` Edge Function holds the private key (secret
+  `CERTIFICATE_SIGNING_KEY`, a JWK with a `kid`). After a certificate row is
+  recorded, the issuance queue calls it; the function signs the canonical
+  payload built from the stored row (code, recipient name, course, issue date,
+  expiration) and writes the signature back. The public keys are published
+  with the app (`VITE_CERTIFICATE_PUBLIC_KEYS`), and the verification page
+  checks the row against them. The signature is also embedded in the QR data
+  and the PDF metadata, so a certificate can be verified offline.
+
+  ## Changes
+
+  ### `certificates` table
+  - New `signature` (text) - base64url ECDSA signature of the canonical payload
+  - New `signature_key_id` (text) - `kid` of the key that produced it
+  - `qr_code_data` now holds the verification URL with the signed payload in
+    the query string (`p`, `s`, `k`)
+
+  ## Security Notes
+  - Rows inserted or edited without the private key fail verification and are
+    shown as "FIRMA NO VÁLIDA"
+  - Certificates issued before this migration have no signature and are shown
+    as unsigned
+  - Rotating the key: add the new public JWK to `VITE_CERTIFICATE_PUBLIC_KEYS`
+    and keep the old one listed so existing certificates still verify
+*/
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS signature text;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS signature_key_id text;
@@ -0,0 +1,31 @@
+/*
+  # Verifiable Credentials
+
+  ## Overview
+  Partner institutions want machine-readable credentials alongside the PDF.
+  When the `sign-certificate` Edge Function signs a certificate, it now also
+  issues a W3C Verifiable Credential (data model 2.0, JSON-LD) for it:
+
+  - `issuer` is the organization's DID (secret `ISSUER_DID`)
+  - `credentialSubject` carries the recipient name, course and certificate code
+  - `validFrom` / `validUntil` come from the issue and expiration dates
+  - The proof is a Data Integrity proof (`ecdsa-jcs-2019`) made with the same
+    key as the certificate signature; its `verificationMethod` is
+    `<issuer DID>#<kid>`
+
+  The verification page offers the credential as a download and can check a
+  pasted or uploaded credential against the published keys.
+
+  ## Changes
+
+  ### `certificates` table
+  - New `credential` (jsonb) - The signed credential; NULL for certificates
+    signed before this migration (re-running `sign-certificate` issues one)
+
+  ## Security Notes
+  - The credential is public like the rest of a verifiable certificate row
+  - Only the Edge Function holds the private key, so clients cannot mint
+    credentials that verify
+*/
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS credential jsonb;
@@ -0,0 +1,28 @@
+/*
+  # Open Badges 3.0
+
+  ## Overview
+  Students share badges on platforms that consume Open Badges. Each template
+  now maps to an Open Badges `Achievement` (name, criteria, image from the
+  template background, issuer profile), and the `sign-certificate` Edge
+  Function issues a signed `OpenBadgeCredential` awarding it to the recipient.
+  The app bakes that credential into a PNG or SVG badge image on download.
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `criteria` (text, nullable) - Narrative of what recipients did to earn
+    the certificate; a generic sentence is used when empty
+
+  ### 2. `certificates` table
+  - New `badge_credential` (jsonb) - The signed OpenBadgeCredential, secured
+    with the same Data Integrity proof as `credential`
+
+  ## Security Notes
+  - Badge credentials are public, like the rest of a verifiable certificate row
+  - Only the Edge Function holds the private key
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS criteria text;
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS badge_credential jsonb;
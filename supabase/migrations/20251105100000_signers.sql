@@ -0,0 +1,59 @@
+/*
+  # Signer Registry
+
+  ## Overview
+  Templates can now place images, signatures and barcodes besides text. A
+  signature field points at a signer instead of embedding the scan, so when a
+  signer's signature changes every template that uses it picks up the new one.
+
+  ## New Tables
+
+  ### `signers`
+  - `id` (text, primary key) - Client-generated id, like templates
+  - `name` (text) - Person who signs
+  - `title` (text, nullable) - Role, e.g. "Directora Ejecutiva"
+  - `signature_url` (text) - Signature image (URL or data URL)
+  - `created_by` (uuid), `created_at`, `updated_at`
+
+  ## Security Notes
+  - Signers are publicly readable: the verification page renders templates
+    with their signatures
+  - Only admins and issuers can create, update or delete signers
+*/
+
+CREATE TABLE IF NOT EXISTS signers (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  title text,
+  signature_url text NOT NULL DEFAULT '',
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE signers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view signers"
+  ON signers
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Issuers can create signers"
+  ON signers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update signers"
+  ON signers
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can delete signers"
+  ON signers
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'));
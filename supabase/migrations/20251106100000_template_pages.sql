@@ -0,0 +1,21 @@
+/*
+  # Multi-page templates
+
+  ## Overview
+  Programs attach a transcript or the course contents behind the certificate.
+  A template's background and fields stay its first page; any further pages,
+  each with its own background and fields, are stored in order alongside.
+  Table fields on those pages list rows that come from the recipient's custom
+  fields, so no new recipient columns are needed.
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `pages` (jsonb, default `[]`) - Pages after the first one, in order,
+    as `{ id, imageUrl, fields }`
+
+  ## Security Notes
+  - No policy changes; pages follow the existing `templates` policies
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS pages jsonb NOT NULL DEFAULT '[]'::jsonb;
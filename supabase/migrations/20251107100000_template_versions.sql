@@ -0,0 +1,91 @@
+/*
+  # Template versions
+
+  ## Overview
+  Editing a template used to overwrite it, so re-rendering an old certificate
+  drew it with today's layout. Templates are now published as immutable
+  versions and every certificate records the version it was issued with.
+  Rolling back publishes a copy of an older version as the newest one, so
+  history is never rewritten.
+
+  ## New Tables
+
+  ### `template_versions`
+  - `id` (text, primary key) - `<template id>-v<version>`
+  - `template_id` (text) - Template it belongs to; deleted with it
+  - `version` (integer) - 1, 2, … per template, unique per template
+  - `snapshot` (jsonb) - The template's content (name, background, fields,
+    pages, …) in the app's own shape
+  - `note` (text, nullable) - e.g. the version a rollback restored
+  - `created_by` (uuid), `created_at`
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `version` (integer, nullable) - Latest published version
+
+  ### 2. `certificates` table
+  - New `template_version` (integer, nullable) - Version the certificate was
+    issued with. Certificates issued before this migration have none and render
+    with version 1
+
+  ### 3. Backfill
+  - Every existing template is recorded as its version 1
+
+  ## Security Notes
+  - Versions are publicly readable: the verification page renders certificates
+    with the version they were issued with
+  - Admins and issuers can insert versions; there are no update or delete
+    policies, so published versions can't be changed
+*/
+
+CREATE TABLE IF NOT EXISTS template_versions (
+  id text PRIMARY KEY,
+  template_id text NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  note text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view template versions"
+  ON template_versions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Issuers can publish template versions"
+  ON template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS version integer;
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS template_version integer;
+
+INSERT INTO template_versions (id, template_id, version, snapshot, note, created_at)
+SELECT
+  id || '-v1',
+  id,
+  1,
+  jsonb_strip_nulls(jsonb_build_object(
+    'name', name,
+    'imageUrl', image_url,
+    'fields', fields,
+    'pages', pages,
+    'width', width,
+    'height', height,
+    'validityMonths', validity_months,
+    'criteria', criteria
+  )),
+  'Initial version',
+  COALESCE(updated_at, created_at, now())
+FROM templates
+ON CONFLICT DO NOTHING;
+
+UPDATE templates SET version = 1 WHERE version IS NULL;
@@ -0,0 +1,53 @@
+/*
+  # Template Images Storage Bucket
+
+  ## Overview
+  Template backgrounds used to be base64 data URLs kept in localStorage and in
+  the templates rows, which filled the browser's 5 MB quota after a few
+  templates and never reached other admins or the headless uploader. Images now
+  go to a public `templates` bucket and templates store the object's URL.
+
+  ## Changes
+
+  ### 1. Storage Bucket Creation
+  Creates public bucket named 'templates' for template background and image
+  field files, up to 5 MB each and only image types.
+
+  ### 2. Storage Policies
+  - **Public Read Access**: Anyone can download template images; the
+    verification page draws certificates with them
+  - **Issuer Insert**: Only admins and issuers, who can edit templates, can
+    upload images
+
+  ## Storage Structure
+  Files are named after the SHA-256 of their content: `templates/{sha256}.{ext}`.
+  Uploading the same image twice reuses the first object.
+
+  ## Security Notes
+  - There are no update or delete policies: objects are addressed by their
+    content, so an object never needs to change, and template versions keep
+    pointing at the images they were published with
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'templates',
+  'templates',
+  true,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can download template images" ON storage.objects;
+DROP POLICY IF EXISTS "Issuers can upload template images" ON storage.objects;
+
+CREATE POLICY "Anyone can download template images"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'templates');
+
+CREATE POLICY "Issuers can upload template images"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'templates' AND public.current_user_role() IN ('admin', 'issuer'));
@@ -0,0 +1,23 @@
+/*
+  # Template page sizes
+
+  ## Overview
+  Every renderer assumed an A4 landscape page, so portrait or letter-size
+  artwork was cropped to fit. Templates now choose their page: a preset (A4,
+  Letter, Legal, A5) or a custom size, in portrait or landscape. The preview
+  canvas and the PDF page both follow it.
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `page_size` (jsonb, nullable) - `{ preset, orientation, width?, height? }`
+    with width and height in mm for custom sizes. Templates without one keep
+    rendering as A4 landscape
+  - `width` and `height` stay as the legacy canvas size in px, honored only
+    when `page_size` is not set
+
+  ## Security Notes
+  - No policy changes; the page size follows the existing `templates` policies
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS page_size jsonb;
@@ -0,0 +1,95 @@
+/*
+  # Font Registry
+
+  ## Overview
+  Text fields named their font with a free-text CSS font-family, and only the
+  bundled brand fonts could be embedded in PDFs; anything else silently fell
+  back to a system font. Admins can now upload font files (TTF, OTF, WOFF2)
+  that text fields pick from a list. Every render loads the file and embeds it
+  in the PDF, and fails when a field's font is not installed.
+
+  ## New Tables
+
+  ### `fonts`
+  - `id` (text, primary key) - Client-generated id, like signers
+  - `family` (text) - CSS family name text fields refer to
+  - `style` (text) - normal, bold, italic or bolditalic; one row per file
+  - `url` (text) - Font file in the `fonts` bucket
+  - `format` (text) - truetype, opentype (CFF outlines) or woff2
+  - `created_by` (uuid), `created_at`, `updated_at`
+
+  ## Storage
+  Public bucket named 'fonts' for the uploaded files, up to 10 MB each. Files
+  are named after the SHA-256 of their content, like template images:
+  `fonts/{sha256}.{ttf|otf|woff2}`.
+
+  ## Security Notes
+  - Fonts and their files are publicly readable: the verification page renders
+    certificates with them
+  - Only admins and issuers can register, update or delete fonts, and upload
+    font files
+  - There are no update or delete policies on the bucket: objects are addressed
+    by their content, and certificates rendered from older template versions
+    keep loading the files they were issued with
+*/
+
+CREATE TABLE IF NOT EXISTS fonts (
+  id text PRIMARY KEY,
+  family text NOT NULL,
+  style text NOT NULL DEFAULT 'normal' CHECK (style IN ('normal', 'bold', 'italic', 'bolditalic')),
+  url text NOT NULL,
+  format text NOT NULL CHECK (format IN ('truetype', 'opentype', 'woff2')),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE fonts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view fonts"
+  ON fonts
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Issuers can create fonts"
+  ON fonts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can update fonts"
+  ON fonts
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
+
+CREATE POLICY "Issuers can delete fonts"
+  ON fonts
+  FOR DELETE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'fonts',
+  'fonts',
+  true,
+  10485760,
+  ARRAY['font/ttf', 'font/otf', 'font/woff2']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can download fonts" ON storage.objects;
+DROP POLICY IF EXISTS "Issuers can upload fonts" ON storage.objects;
+
+CREATE POLICY "Anyone can download fonts"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'fonts');
+
+CREATE POLICY "Issuers can upload fonts"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'fonts' AND public.current_user_role() IN ('admin', 'issuer'));
@@ -0,0 +1,35 @@
+/*
+  # Keep template versions when a template is deleted
+
+  ## Overview
+  Deleting a template cascaded to its versions, so certificates issued with it
+  could no longer be drawn with the layout they were issued with, and the
+  verification page showed them without their template. Templates are now
+  soft-deleted: they drop out of the template list but keep their row and
+  every published version.
+
+  ## Changes
+
+  ### 1. `templates` table
+  - New `deleted_at` (timestamptz, nullable) - When the template was deleted;
+    the app lists only templates where it is null
+
+  ### 2. `template_versions` table
+  - `template_id` now references `templates(id)` with `ON DELETE RESTRICT`, so
+    a hard delete of a template with versions fails instead of dropping them
+
+  ## Security Notes
+  - The delete policy on templates is dropped: admins and issuers delete a
+    template by setting `deleted_at` through the existing update policy
+  - Deleted templates stay publicly readable, like their versions, so the
+    verification page can still draw the certificates issued with them
+*/
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE template_versions DROP CONSTRAINT IF EXISTS template_versions_template_id_fkey;
+ALTER TABLE template_versions
+  ADD CONSTRAINT template_versions_template_id_fkey
+  FOREIGN KEY (template_id) REFERENCES templates(id) ON DELETE RESTRICT;
+
+DROP POLICY IF EXISTS "Issuers can delete templates" ON templates;
@@ -0,0 +1,74 @@
+/*
+  # Move template version images to storage
+
+  ## Overview
+  Versions published before template images moved to Storage still hold their
+  images as base64 data URLs. The app rewrote those templates with a regular
+  edit, which published a new version for each one and left the old versions
+  embedding the images. It now rewrites the images of the template and of its
+  existing versions in place, which needs a way to update a published version.
+
+  ## Changes
+
+  ### 1. `template_versions` update policy
+  - Admins and issuers can update versions, limited by the trigger below
+
+  ### 2. `template_versions_images_only` trigger
+  - Rejects any update to a version other than replacing data URL images in
+    its snapshot with Storage URLs of the `templates` bucket: the snapshots
+    must match once their images are blanked out, and each image must be
+    unchanged or a data URL that became a Storage URL
+
+  ## Security Notes
+  - Published versions stay immutable in everything that affects how their
+    certificates render: the trigger runs for every caller and compares the
+    whole snapshot
+  - There is still no delete policy on versions
+*/
+
+CREATE OR REPLACE FUNCTION public.template_versions_images_only()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  image_pattern constant text := '"(data:(?:[^"\\]|\\.)*|https?://[^"]*/storage/v1/object/public/templates/[^"]*)"';
+  old_images text[] := ARRAY(SELECT m[1] FROM regexp_matches(OLD.snapshot::text, image_pattern, 'g') AS m);
+  new_images text[] := ARRAY(SELECT m[1] FROM regexp_matches(NEW.snapshot::text, image_pattern, 'g') AS m);
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.template_id IS DISTINCT FROM OLD.template_id
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.note IS DISTINCT FROM OLD.note
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR regexp_replace(NEW.snapshot::text, image_pattern, '""', 'g') <> regexp_replace(OLD.snapshot::text, image_pattern, '""', 'g')
+    OR cardinality(new_images) <> cardinality(old_images)
+  THEN
+    RAISE EXCEPTION 'Published template versions are immutable; only their images can move to storage'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- jsonb keeps keys in a fixed order, so the images line up one to one
+  FOR i IN 1 .. cardinality(old_images) LOOP
+    IF new_images[i] <> old_images[i] AND (old_images[i] NOT LIKE 'data:%' OR new_images[i] LIKE 'data:%') THEN
+      RAISE EXCEPTION 'Published template versions are immutable; only their images can move to storage'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS template_versions_images_only ON template_versions;
+CREATE TRIGGER template_versions_images_only
+  BEFORE UPDATE ON template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.template_versions_images_only();
+
+CREATE POLICY "Issuers can move template version images to storage"
+  ON template_versions
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_role() IN ('admin', 'issuer'))
+  WITH CHECK (public.current_user_role() IN ('admin', 'issuer'));
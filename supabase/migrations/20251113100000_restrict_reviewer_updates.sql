@@ -0,0 +1,45 @@
+/*
+  # Restrict reviewer updates to the review columns
+
+  ## Overview
+  The "Reviewers can approve pending certificates" policy only checks the row
+  after the update: `status = 'active'` and `reviewed_by = auth.uid()`. A
+  reviewer approving a certificate could change any other column in the same
+  request, such as the recipient name, course, dates or signature.
+
+  ## Changes
+
+  ### 1. `certificates_reviewer_columns` trigger
+  - BEFORE UPDATE on `certificates`: when the caller is a reviewer, rejects
+    the update if any column other than `status`, `reviewed_by`,
+    `reviewed_at` and `updated_at` changes
+  - Compares whole rows, so columns added by later migrations are covered
+    without updating the trigger
+
+  ## Security Notes
+  - Other roles are unaffected; their policies decide what they can update
+  - Service role calls (edge functions) carry no reviewer claim and pass
+*/
+
+CREATE OR REPLACE FUNCTION public.certificates_reviewer_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  review_columns constant text[] := ARRAY['status', 'reviewed_by', 'reviewed_at', 'updated_at'];
+BEGIN
+  IF public.current_user_role() = 'reviewer'
+    AND to_jsonb(NEW) - review_columns IS DISTINCT FROM to_jsonb(OLD) - review_columns
+  THEN
+    RAISE EXCEPTION 'Reviewers can only change the status and review columns of a certificate'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS certificates_reviewer_columns ON certificates;
+CREATE TRIGGER certificates_reviewer_columns
+  BEFORE UPDATE ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.certificates_reviewer_columns();
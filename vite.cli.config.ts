@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Builds the `certs` command-line tool (cli/certs.ts) for Node into dist-cli/
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/certs.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        format: 'es',
+        entryFileNames: 'certs.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
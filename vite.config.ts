@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  worker: {
+    // The PDF render worker pulls in jsPDF, which lazy-loads optional modules
+    format: 'es',
+  },
 });